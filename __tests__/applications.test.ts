@@ -0,0 +1,188 @@
+/**
+ * Tests for multi-application deploys
+ */
+
+import {
+  applicationInputs,
+  applicationResult,
+  dependencyLayers,
+  parseApplications,
+  runWithConcurrency
+} from '../src/applications'
+import type { DeploymentReport } from '../src/summary'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('applications', () => {
+  describe('parseApplications', () => {
+    it('should parse a YAML list of applications', () => {
+      const applications = parseApplications(
+        [
+          '- name: api',
+          '  image: ghcr.io/acme/api:v2',
+          '  domain: api.example.com',
+          '  port: 3000',
+          '  memory-limit: 512',
+          '  env:',
+          '    LOG_LEVEL: debug',
+          '- name: worker',
+          '  replicas: 2'
+        ].join('\n')
+      )
+
+      expect(applications).toEqual([
+        {
+          name: 'api',
+          dockerImage: 'ghcr.io/acme/api:v2',
+          domainHost: 'api.example.com',
+          applicationPort: 3000,
+          memoryLimit: 512,
+          env: 'LOG_LEVEL=debug'
+        },
+        { name: 'worker', replicas: 2 }
+      ])
+    })
+
+    it('should accept JSON, as produced from a config-file', () => {
+      expect(parseApplications('[{"name":"api","cpu-limit":"0.5"}]')).toEqual([
+        { name: 'api', cpuLimit: 0.5 }
+      ])
+    })
+
+    it('should accept depends-on as a name or a list of names', () => {
+      const applications = parseApplications(
+        ['- name: worker', '  depends-on: api', '- name: web', '  depends-on: [api, worker]'].join(
+          '\n'
+        )
+      )
+
+      expect(applications?.map(app => app.dependsOn)).toEqual([['api'], ['api', 'worker']])
+    })
+
+    it('should return undefined when not set', () => {
+      expect(parseApplications(undefined)).toBeUndefined()
+    })
+
+    it('should report unknown keys and bad values', () => {
+      expect(() =>
+        parseApplications('- name: api\n  memory-limit: lots\n  domian: api.example.com')
+      ).toThrow('applications has 2 validation errors. See details above.')
+    })
+
+    it('should require a non-empty list', () => {
+      expect(() => parseApplications('name: api')).toThrow('applications has 1 validation error.')
+    })
+  })
+
+  describe('applicationInputs', () => {
+    const inputs: ActionInputs = {
+      dokployUrl: 'https://dokploy.example.com',
+      apiKey: 'test-key',
+      dockerImage: 'ghcr.io/acme/default:v1',
+      applicationId: 'app-shared',
+      applicationName: 'shared',
+      domainHost: 'shared.example.com',
+      containerPrefix: 'shared',
+      deploymentLogFile: 'logs/deploy.log',
+      env: 'NODE_ENV=production\nLOG_LEVEL=info',
+      memoryLimit: 256,
+      replicas: 1,
+      applications: [{ name: 'api' }]
+    }
+
+    it('should layer the entry over the shared inputs', () => {
+      const appInputs = applicationInputs(inputs, {
+        name: 'api',
+        env: 'LOG_LEVEL=debug',
+        memoryLimit: 512,
+        domainHost: 'api.example.com'
+      })
+
+      expect(appInputs).toMatchObject({
+        applicationName: 'api',
+        applicationId: undefined,
+        applications: undefined,
+        dockerImage: 'ghcr.io/acme/default:v1',
+        env: 'NODE_ENV=production\nLOG_LEVEL=info\nLOG_LEVEL=debug',
+        domainHost: 'api.example.com',
+        memoryLimit: 512,
+        replicas: 1
+      })
+    })
+
+    it('should not share hosts, container prefixes or log files', () => {
+      const appInputs = applicationInputs(inputs, { name: 'worker' })
+
+      expect(appInputs.domainHost).toBeUndefined()
+      expect(appInputs.containerPrefix).toBeUndefined()
+      expect(appInputs.deploymentLogFile).toBe('logs/deploy-worker.log')
+    })
+  })
+
+  describe('dependencyLayers', () => {
+    it('should place every application after its dependencies', () => {
+      const layers = dependencyLayers([
+        { name: 'web', dependsOn: ['api', 'worker'] },
+        { name: 'worker', dependsOn: ['api'] },
+        { name: 'api' },
+        { name: 'docs' }
+      ])
+
+      expect(layers.map(layer => layer.map(app => app.name))).toEqual([
+        ['api', 'docs'],
+        ['worker'],
+        ['web']
+      ])
+    })
+
+    it('should keep independent applications in a single layer', () => {
+      expect(dependencyLayers([{ name: 'api' }, { name: 'worker' }])).toHaveLength(1)
+    })
+  })
+
+  describe('runWithConcurrency', () => {
+    it('should keep at most `limit` workers in flight and preserve order', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      const results = await runWithConcurrency([30, 10, 20, 5], 2, async delay => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await new Promise(resolve => setTimeout(resolve, delay))
+        inFlight--
+        return delay * 2
+      })
+
+      expect(results).toEqual([60, 20, 40, 10])
+      expect(maxInFlight).toBe(2)
+    })
+  })
+
+  describe('applicationResult', () => {
+    it('should summarize the report of one application', () => {
+      const report: DeploymentReport = {
+        deploymentType: 'application',
+        name: 'api',
+        status: 'failed',
+        error: 'Build failed',
+        startedAt: 0,
+        finishedAt: 12_400,
+        serviceId: 'app-1',
+        resources: [],
+        domains: [],
+        healthAttempts: []
+      }
+
+      expect(applicationResult(report)).toEqual({
+        name: 'api',
+        status: 'failed',
+        applicationId: 'app-1',
+        deploymentId: undefined,
+        deploymentUrl: undefined,
+        healthStatus: undefined,
+        durationSeconds: 12,
+        error: 'Build failed'
+      })
+    })
+  })
+})
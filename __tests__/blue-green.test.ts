@@ -0,0 +1,100 @@
+/**
+ * Tests for the blue-green deployment strategy
+ */
+
+import {
+  colorApplicationName,
+  colorDomainHost,
+  resolveColors,
+  switchProductionDomain
+} from '../src/blue-green'
+import { createMockClient, projectWithApplications } from './fixtures/dokploy-client'
+import type { Domain } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('blue-green', () => {
+  const scope = { projectId: 'proj-1', environmentId: 'env-1', serverId: 'srv-1' }
+  const production: Partial<Domain> = { host: 'app.example.com', port: 3000, https: true }
+
+  const createColorClient = (domains: Record<string, Partial<Domain>[]>) =>
+    createMockClient({
+      getProject: jest.fn().mockResolvedValue(
+        projectWithApplications([
+          { applicationId: 'app-blue', name: 'web-blue' },
+          { applicationId: 'app-green', name: 'web-green' },
+          { applicationId: 'app-other', name: 'web' }
+        ])
+      ),
+      getDomains: jest.fn(async (applicationId: string) => domains[applicationId] || []),
+      createDomain: jest.fn().mockResolvedValue({})
+    })
+
+  it('should derive application names and hosts from the color', () => {
+    expect(colorApplicationName('web', 'green')).toBe('web-green')
+    expect(colorDomainHost('{color}.internal.example.com', 'blue')).toBe(
+      'blue.internal.example.com'
+    )
+  })
+
+  describe('resolveColors', () => {
+    it('should deploy to the color that does not serve the production host', async () => {
+      const client = createColorClient({
+        'app-blue': [{ domainId: 'dom-1', host: 'app.example.com' }],
+        'app-green': [{ domainId: 'dom-2', host: 'green.internal.example.com' }]
+      })
+
+      await expect(resolveColors(client, scope, 'web', 'app.example.com')).resolves.toEqual({
+        live: 'blue',
+        idle: 'green',
+        applicationIds: { blue: 'app-blue', green: 'app-green' }
+      })
+    })
+
+    it('should start with blue when no color is live', async () => {
+      const client = createColorClient({})
+      client.getProject.mockResolvedValue({ environments: [{ environmentId: 'env-1' }] })
+
+      await expect(resolveColors(client, scope, 'web', 'app.example.com')).resolves.toEqual({
+        live: undefined,
+        idle: 'blue',
+        applicationIds: {}
+      })
+    })
+  })
+
+  describe('switchProductionDomain', () => {
+    it('should create the host on the new color before removing it from the old one', async () => {
+      const client = createColorClient({
+        'app-blue': [
+          { domainId: 'dom-1', host: 'app.example.com' },
+          { domainId: 'dom-3', host: 'blue.internal.example.com' }
+        ],
+        'app-green': [{ domainId: 'dom-2', host: 'green.internal.example.com' }]
+      })
+
+      const change = await switchProductionDomain(client, 'app-green', ['app-blue'], production)
+
+      expect(change).toBe('created')
+      expect(client.createDomain).toHaveBeenCalledWith('app-green', production)
+      expect(client.removeDomain).toHaveBeenCalledTimes(1)
+      expect(client.removeDomain).toHaveBeenCalledWith('dom-1')
+      expect(client.createDomain.mock.invocationCallOrder[0]).toBeLessThan(
+        client.removeDomain.mock.invocationCallOrder[0]
+      )
+    })
+
+    it('should update an entry the new color already has for the host', async () => {
+      const client = createColorClient({
+        'app-green': [{ domainId: 'dom-2', host: 'app.example.com' }]
+      })
+
+      const change = await switchProductionDomain(client, 'app-green', ['app-blue'], production)
+
+      expect(change).toBe('updated')
+      expect(client.updateDomain).toHaveBeenCalledWith('dom-2', production)
+      expect(client.createDomain).not.toHaveBeenCalled()
+      expect(client.removeDomain).not.toHaveBeenCalled()
+    })
+  })
+})
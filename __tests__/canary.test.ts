@@ -0,0 +1,95 @@
+/**
+ * Tests for the canary deployment strategy
+ */
+
+import * as yaml from 'js-yaml'
+import {
+  findStableApplication,
+  parseCanarySteps,
+  resolveCanaryRouting,
+  restoreStableRouting,
+  shiftCanaryTraffic
+} from '../src/canary'
+import { createMockClient, projectWithApplications } from './fixtures/dokploy-client'
+
+jest.mock('@actions/core')
+
+describe('canary', () => {
+  const scope = { projectId: 'proj-1', environmentId: 'env-1', serverId: 'srv-1' }
+  const domainConfig = {
+    host: 'app.example.com',
+    path: '/',
+    port: 3000,
+    https: true,
+    certificateType: 'letsencrypt' as const
+  }
+
+  const createCanaryClient = () =>
+    createMockClient({
+      getProject: jest
+        .fn()
+        .mockResolvedValue(projectWithApplications([{ applicationId: 'app-web', name: 'web' }])),
+      getApplication: jest.fn(async (applicationId: string) =>
+        applicationId === 'app-web'
+          ? { applicationId, name: 'web', appName: 'web-abc' }
+          : { applicationId, name: 'web-canary', appName: 'web-canary-def' }
+      ),
+      readTraefikConfig: jest.fn().mockResolvedValue('http:\n  routers: {}\n')
+    })
+
+  it('should parse traffic steps', () => {
+    expect(parseCanarySteps('10, 50%,100')).toEqual([10, 50, 100])
+    expect(parseCanarySteps(undefined)).toBeUndefined()
+  })
+
+  it('should require the stable application to exist', async () => {
+    const client = createCanaryClient()
+
+    await expect(findStableApplication(client, scope, 'web')).resolves.toMatchObject({
+      applicationId: 'app-web'
+    })
+    await expect(findStableApplication(client, scope, 'api')).rejects.toThrow(
+      'Canary needs a running application "api"'
+    )
+  })
+
+  it('should shift traffic to the canary service and restore the original config', async () => {
+    const client = createCanaryClient()
+    const routing = await resolveCanaryRouting(client, 'app-web', 'app-canary', domainConfig)
+
+    await shiftCanaryTraffic(client, routing, 10)
+    await restoreStableRouting(client, routing)
+
+    const [applicationId, shifted] = client.updateTraefikConfig.mock.calls[0]
+    expect(applicationId).toBe('app-web')
+    expect(yaml.load(shifted)).toMatchObject({
+      http: {
+        services: {
+          'web-abc-weighted': {
+            weighted: {
+              services: [
+                { name: 'web-abc-stable', weight: 90 },
+                { name: 'web-abc-canary', weight: 10 }
+              ]
+            }
+          },
+          'web-abc-canary': { loadBalancer: { servers: [{ url: 'http://web-canary-def:3000' }] } }
+        }
+      }
+    })
+    expect(client.updateTraefikConfig).toHaveBeenLastCalledWith('app-web', 'http:\n  routers: {}\n')
+  })
+
+  it('should route everything to the stable application when it had no config', async () => {
+    const client = createCanaryClient()
+    client.readTraefikConfig.mockResolvedValue('')
+    const routing = await resolveCanaryRouting(client, 'app-web', 'app-canary', domainConfig)
+
+    await restoreStableRouting(client, routing)
+
+    const restored = yaml.load(client.updateTraefikConfig.mock.calls[0][1]) as {
+      http: { services: Record<string, unknown> }
+    }
+    expect(Object.keys(restored.http.services)).toEqual(['web-abc-weighted', 'web-abc-stable'])
+  })
+})
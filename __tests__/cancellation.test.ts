@@ -0,0 +1,98 @@
+/**
+ * Tests for cancelling Dokploy builds
+ */
+
+import * as core from '@actions/core'
+import { cancelBuild, cleanBuildQueue, onCancellation } from '../src/cancellation'
+import { createMockClient } from './fixtures/dokploy-client'
+
+jest.mock('@actions/core')
+
+describe('cancellation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('cancelBuild', () => {
+    it('should cancel the deployment and kill the build of an application', async () => {
+      const client = createMockClient()
+
+      const stopped = await cancelBuild(client, {
+        type: 'application',
+        id: 'app-1'
+      })
+
+      expect(stopped).toBe(true)
+      expect(client.cancelDeployment).toHaveBeenCalledWith('app-1')
+      expect(client.killBuild).toHaveBeenCalledWith('app-1')
+      expect(client.cancelComposeDeployment).not.toHaveBeenCalled()
+    })
+
+    it('should use the compose endpoints for compose services', async () => {
+      const client = createMockClient()
+
+      await cancelBuild(client, { type: 'compose', id: 'cmp-1' })
+
+      expect(client.cancelComposeDeployment).toHaveBeenCalledWith('cmp-1')
+      expect(client.killComposeBuild).toHaveBeenCalledWith('cmp-1')
+      expect(client.cancelDeployment).not.toHaveBeenCalled()
+    })
+
+    it('should still kill the build when cancelling fails, and never throw', async () => {
+      const client = createMockClient()
+      client.cancelDeployment.mockRejectedValue(new Error('not running'))
+      client.killBuild.mockRejectedValue(new Error('no build'))
+
+      const stopped = await cancelBuild(client, {
+        type: 'application',
+        id: 'app-1'
+      })
+
+      expect(stopped).toBe(false)
+      expect(client.killBuild).toHaveBeenCalled()
+      expect(core.warning).toHaveBeenCalledWith(
+        '⚠️ Failed to kill build for application app-1: no build'
+      )
+    })
+  })
+
+  describe('cleanBuildQueue', () => {
+    it('should warn instead of failing when the queue cannot be cleaned', async () => {
+      const client = createMockClient()
+      client.cleanComposeQueues.mockRejectedValue(new Error('forbidden'))
+
+      await cleanBuildQueue(client, { type: 'compose', id: 'cmp-1' })
+
+      expect(core.warning).toHaveBeenCalledWith('⚠️ Failed to clean deployment queue: forbidden')
+    })
+  })
+
+  describe('onCancellation', () => {
+    it('should run every active handler once on SIGINT then SIGTERM and exit', async () => {
+      const exit = jest.spyOn(process, 'exit').mockImplementation((() => undefined) as never)
+      const stale = jest.fn().mockResolvedValue(undefined)
+      const handler = jest.fn().mockResolvedValue(undefined)
+      const other = jest.fn().mockRejectedValue(new Error('boom'))
+
+      onCancellation(stale)()
+      const unregister = onCancellation(handler)
+      const unregisterOther = onCancellation(other)
+
+      process.emit('SIGINT', 'SIGINT')
+      process.emit('SIGTERM', 'SIGTERM')
+      await new Promise(resolve => setImmediate(resolve))
+
+      expect(stale).not.toHaveBeenCalled()
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(handler).toHaveBeenCalledWith('SIGINT')
+      expect(other).toHaveBeenCalledTimes(1)
+      expect(core.warning).toHaveBeenCalledWith('⚠️ Cancellation cleanup failed: boom')
+      expect(core.setFailed).toHaveBeenCalledWith('❌ Deployment cancelled (SIGINT)')
+      expect(exit).toHaveBeenCalledWith(1)
+
+      unregister()
+      unregisterOther()
+      exit.mockRestore()
+    })
+  })
+})
@@ -2,9 +2,15 @@
  * Tests for configuration builders
  */
 
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
 import { buildApplicationConfig, buildDomainConfig, parseEnvironmentVariables } from '../src/config'
+import { parseDotenv } from '../src/env-file'
 import type { ActionInputs } from '../src/types/dokploy'
 
+jest.mock('@actions/core')
+
 describe('buildApplicationConfig', () => {
   const mockInputs: ActionInputs = {
     dokployUrl: 'https://dokploy.example.com',
@@ -232,6 +238,36 @@ describe('parseEnvironmentVariables', () => {
     expect(result).toBe('KEY1=value1\nKEY2=value2')
   })
 
+  it('should pass the env input through unchanged when it is the only source', () => {
+    const env = [
+      'CONFIG={"a":1}',
+      'not a variable',
+      'PATH_WIN=C:\\app',
+      'PASSWORD="abc #123"',
+      "PADDED='  padded  '",
+      'Q="\\"quoted\\""'
+    ].join('\n')
+
+    expect(parseEnvironmentVariables({ ...mockInputs, env })).toBe(env)
+  })
+
+  it('should keep #, quotes and surrounding whitespace when merging sources', () => {
+    const inputs: ActionInputs = {
+      ...mockInputs,
+      env: ['PASSWORD="abc #123"', "PADDED='  padded  '", 'Q="\\"quoted\\""'].join('\n'),
+      envFromJson: '{"FROM_JSON":"1"}'
+    }
+
+    const result = parseEnvironmentVariables(inputs)
+    expect(parseDotenv(result, 'env', { strict: false })).toEqual({
+      FROM_JSON: '1',
+      PASSWORD: 'abc #123',
+      PADDED: '  padded  ',
+      Q: '\\"quoted\\"'
+    })
+    expect(result).toContain("PASSWORD='abc #123'")
+  })
+
   it('should parse JSON env vars', () => {
     const inputs: ActionInputs = {
       ...mockInputs,
@@ -243,16 +279,52 @@ describe('parseEnvironmentVariables', () => {
     expect(result).toContain('KEY2=value2')
   })
 
-  it('should prioritize envFromJson over env', () => {
+  it('should merge envFromJson and env with env taking precedence', () => {
     const inputs: ActionInputs = {
       ...mockInputs,
-      env: 'OLD_KEY=old_value',
-      envFromJson: '{"NEW_KEY":"new_value"}'
+      env: 'SHARED=from_env\nOLD_KEY=old_value',
+      envFromJson: '{"NEW_KEY":"new_value","SHARED":"from_json"}'
     }
 
     const result = parseEnvironmentVariables(inputs)
     expect(result).toContain('NEW_KEY=new_value')
-    expect(result).not.toContain('OLD_KEY')
+    expect(result).toContain('OLD_KEY=old_value')
+    expect(result).toContain('SHARED=from_env')
+    expect(result).not.toContain('from_json')
+  })
+
+  it('should fail on duplicate keys in strict mode', () => {
+    const inputs: ActionInputs = {
+      ...mockInputs,
+      env: 'SHARED=from_env',
+      envFromJson: '{"SHARED":"from_json"}',
+      envMergeMode: 'strict'
+    }
+
+    expect(() => parseEnvironmentVariables(inputs)).toThrow(
+      'Duplicate environment variables in strict env-merge-mode: SHARED (env-from-json, env)'
+    )
+  })
+
+  it('should only overwrite supplied keys in merge-with-existing mode', () => {
+    const inputs: ActionInputs = {
+      ...mockInputs,
+      env: 'LOG_LEVEL=debug',
+      envMergeMode: 'merge-with-existing'
+    }
+
+    const result = parseEnvironmentVariables(inputs, 'DATABASE_URL=postgres://db\nLOG_LEVEL=info')
+    expect(result).toBe('DATABASE_URL=postgres://db\nLOG_LEVEL=debug')
+  })
+
+  it('should ignore existing env in replace mode', () => {
+    const inputs: ActionInputs = {
+      ...mockInputs,
+      env: 'LOG_LEVEL=debug'
+    }
+
+    const result = parseEnvironmentVariables(inputs, 'DATABASE_URL=postgres://db')
+    expect(result).toBe('LOG_LEVEL=debug')
   })
 
   it('should throw error for invalid JSON', () => {
@@ -263,5 +335,23 @@ describe('parseEnvironmentVariables', () => {
 
     expect(() => parseEnvironmentVariables(inputs)).toThrow('Failed to parse env-from-json')
   })
-})
 
+  it('should load variables from env-file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-env-'))
+    const envFile = path.join(dir, '.env')
+    fs.writeFileSync(envFile, 'export KEY1=value1\nKEY2="multi\nline"\n')
+
+    try {
+      const inputs: ActionInputs = {
+        ...mockInputs,
+        env: 'KEY1=override',
+        envFile
+      }
+
+      const result = parseEnvironmentVariables(inputs)
+      expect(result).toBe('KEY1=override\nKEY2="multi\\nline"')
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
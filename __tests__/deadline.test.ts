@@ -0,0 +1,71 @@
+/**
+ * Tests for the overall action deadline
+ */
+
+import { ActionDeadline, DeadlineExceededError } from '../src/deadline'
+
+describe('ActionDeadline', () => {
+  let now: number
+
+  beforeEach(() => {
+    now = 1_000_000
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should never expire without an action-timeout', () => {
+    const deadline = new ActionDeadline(undefined)
+    now += 24 * 60 * 60 * 1000
+
+    expect(deadline.remainingSeconds()).toBeUndefined()
+    expect(deadline.expired()).toBe(false)
+    expect(deadline.cap(300)).toBe(300)
+    expect(() => deadline.enter('health check')).not.toThrow()
+  })
+
+  it('should cap phase timeouts to the remaining budget', () => {
+    const deadline = new ActionDeadline(120)
+    now += 100 * 1000
+
+    expect(deadline.remainingSeconds()).toBe(20)
+    expect(deadline.cap(300)).toBe(20)
+    expect(deadline.cap(10)).toBe(10)
+  })
+
+  it('should name the phase that exhausted the budget', () => {
+    const deadline = new ActionDeadline(60)
+    deadline.enter('resource resolution')
+    deadline.enter('deployment wait')
+    now += 61 * 1000
+
+    expect(deadline.expired()).toBe(true)
+    expect(() => deadline.check()).toThrow(new DeadlineExceededError('deployment wait', 60))
+    expect(() => deadline.check()).toThrow('action-timeout of 60s exhausted during deployment wait')
+  })
+
+  it('should track the phase of scoped deadlines separately on the shared budget', () => {
+    const deadline = new ActionDeadline(60)
+    deadline.enter('applications')
+    const api = deadline.scoped('api')
+    const worker = deadline.scoped('worker')
+    api.enter('health check')
+    worker.enter('deployment wait')
+    now += 61 * 1000
+
+    expect(() => api.check()).toThrow('action-timeout of 60s exhausted during api: health check')
+    expect(() => worker.check()).toThrow('exhausted during worker: deployment wait')
+    expect(() => deadline.check()).toThrow('exhausted during applications')
+  })
+
+  it('should fail when entering a phase after the budget is spent', () => {
+    const deadline = new ActionDeadline(30)
+    now += 31 * 1000
+
+    expect(() => deadline.enter('cleanup')).toThrow(
+      'action-timeout of 30s exhausted during cleanup'
+    )
+  })
+})
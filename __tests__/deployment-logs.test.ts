@@ -0,0 +1,81 @@
+/**
+ * Tests for live deployment log output
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { DeploymentLogStream } from '../src/deployment-logs'
+import { applicationLog } from '../src/log'
+
+jest.mock('@actions/core')
+
+describe('DeploymentLogStream', () => {
+  const mockInfo = core.info as jest.MockedFunction<typeof core.info>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  it('should print complete lines and hold back partial ones until flushed', () => {
+    const stream = new DeploymentLogStream()
+
+    stream.write('Pulling image\nStarting conta')
+    stream.write('iner\r\nHealthy')
+
+    expect(mockInfo.mock.calls.map(call => call[0])).toEqual([
+      '  │ Pulling image',
+      '  │ Starting container'
+    ])
+
+    stream.flush()
+
+    expect(mockInfo).toHaveBeenLastCalledWith('  │ Healthy')
+    expect(stream.lineCount).toBe(3)
+    expect(stream.filePath).toBeUndefined()
+  })
+
+  it('should print through the log of its application', () => {
+    const stream = new DeploymentLogStream(undefined, applicationLog('api'))
+
+    stream.write('Pulling image\n')
+
+    expect(mockInfo).toHaveBeenCalledWith('[api]   │ Pulling image')
+  })
+
+  describe('with a log file', () => {
+    const originalWorkspace = process.env.GITHUB_WORKSPACE
+    let workspace: string
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'deployment-logs-'))
+      process.env.GITHUB_WORKSPACE = workspace
+    })
+
+    afterEach(() => {
+      fs.rmSync(workspace, { recursive: true, force: true })
+      process.env.GITHUB_WORKSPACE = originalWorkspace
+    })
+
+    it('should write the full log relative to the workspace', () => {
+      const stream = new DeploymentLogStream('logs/deploy.log')
+
+      stream.write('line 1\n')
+      stream.write('line 2')
+      stream.flush()
+
+      expect(stream.filePath).toBe(path.join(workspace, 'logs', 'deploy.log'))
+      expect(fs.readFileSync(stream.filePath as string, 'utf-8')).toBe('line 1\nline 2')
+    })
+
+    it('should truncate a log left over from a previous deployment', () => {
+      fs.writeFileSync(path.join(workspace, 'deploy.log'), 'stale')
+
+      const stream = new DeploymentLogStream('deploy.log')
+      stream.write('fresh\n')
+
+      expect(fs.readFileSync(stream.filePath as string, 'utf-8')).toBe('fresh\n')
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Tests for destroy mode
+ */
+
+import { assertDestroyConfirmed, destroyResources, formatDestroyed } from '../src/destroy'
+import { ValidationError } from '../src/validators'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs, Environment } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('destroy mode', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: '',
+    mode: 'destroy',
+    projectName: 'shop',
+    environmentName: 'staging',
+    applicationName: 'web',
+    confirmDestroy: 'web'
+  }
+
+  const stagingWithWeb: Environment = {
+    environmentId: 'env-1',
+    name: 'staging',
+    projectId: 'proj-1',
+    applications: [
+      {
+        applicationId: 'app-1',
+        name: 'web',
+        projectId: 'proj-1',
+        environmentId: 'env-1',
+        serverId: ''
+      }
+    ]
+  }
+
+  const createDestroyClient = () =>
+    createMockClient({
+      findProjectByName: jest.fn().mockResolvedValue({ projectId: 'proj-1', name: 'shop' }),
+      findEnvironmentInProject: jest.fn().mockResolvedValue(stagingWithWeb),
+      getEnvironment: jest.fn().mockResolvedValue(stagingWithWeb),
+      getApplication: jest.fn().mockResolvedValue({
+        applicationId: 'app-1',
+        name: 'web',
+        environmentId: 'env-1',
+        domains: [{ domainId: 'dom-1', host: 'web.example.com' }],
+        mounts: [{ mountId: 'mount-1', type: 'volume', mountPath: '/data' }]
+      })
+    })
+
+  describe('assertDestroyConfirmed', () => {
+    it('should accept confirm-destroy repeating the service name', () => {
+      expect(() => assertDestroyConfirmed(mockInputs)).not.toThrow()
+    })
+
+    it('should refuse a missing or different confirmation', () => {
+      expect(() => assertDestroyConfirmed({ ...mockInputs, confirmDestroy: undefined })).toThrow(
+        ValidationError
+      )
+      expect(() => assertDestroyConfirmed({ ...mockInputs, confirmDestroy: 'true' })).toThrow(
+        'confirm-destroy must be "web" to destroy it'
+      )
+    })
+
+    it('should expect the compose name for compose deployments', () => {
+      expect(() =>
+        assertDestroyConfirmed({
+          ...mockInputs,
+          deploymentType: 'compose',
+          composeName: 'stack',
+          confirmDestroy: 'stack'
+        })
+      ).not.toThrow()
+    })
+  })
+
+  describe('destroyResources', () => {
+    it('should remove domains and mounts before the application', async () => {
+      const client = createDestroyClient()
+
+      const destroyed = await destroyResources(client, mockInputs)
+
+      expect(client.removeDomain).toHaveBeenCalledWith('dom-1')
+      expect(client.removeMount).toHaveBeenCalledWith('mount-1')
+      expect(client.deleteApplication).toHaveBeenCalledWith('app-1')
+      expect(client.removeMount.mock.invocationCallOrder[0]).toBeLessThan(
+        client.deleteApplication.mock.invocationCallOrder[0]
+      )
+      expect(client.removeEnvironment).not.toHaveBeenCalled()
+      expect(destroyed).toEqual([
+        { type: 'domain', name: 'web.example.com', id: 'dom-1' },
+        { type: 'mount', name: '/data', id: 'mount-1' },
+        { type: 'application', name: 'web', id: 'app-1' }
+      ])
+    })
+
+    it('should do nothing when the application is already gone', async () => {
+      const client = createDestroyClient()
+      client.getEnvironment.mockResolvedValue({
+        ...stagingWithWeb,
+        applications: []
+      })
+
+      const destroyed = await destroyResources(client, mockInputs)
+
+      expect(client.deleteApplication).not.toHaveBeenCalled()
+      expect(destroyed).toEqual([])
+      expect(formatDestroyed(destroyed)).toBe('Nothing to destroy')
+    })
+
+    it('should delete a compose stack with its volumes when requested', async () => {
+      const client = createDestroyClient()
+      client.findComposeByName.mockResolvedValue({
+        composeId: 'compose-1',
+        name: 'stack',
+        environmentId: 'env-1'
+      })
+      client.getCompose.mockResolvedValue({ composeId: 'compose-1', mounts: [] })
+
+      const destroyed = await destroyResources(client, {
+        ...mockInputs,
+        deploymentType: 'compose',
+        composeName: 'stack',
+        deleteVolumes: true
+      })
+
+      expect(client.findComposeByName).toHaveBeenCalledWith('env-1', 'stack')
+      expect(client.deleteCompose).toHaveBeenCalledWith('compose-1', true)
+      expect(destroyed).toEqual([{ type: 'compose', name: 'stack', id: 'compose-1' }])
+    })
+
+    it('should remove the environment once it is empty', async () => {
+      const client = createDestroyClient()
+      client.getEnvironment
+        .mockResolvedValueOnce(stagingWithWeb)
+        .mockResolvedValueOnce({ ...stagingWithWeb, applications: [] })
+
+      const destroyed = await destroyResources(client, {
+        ...mockInputs,
+        destroyEmptyEnvironment: true
+      })
+
+      expect(client.removeEnvironment).toHaveBeenCalledWith('env-1')
+      expect(destroyed).toContainEqual({ type: 'environment', name: 'staging', id: 'env-1' })
+    })
+
+    it('should keep an environment that still has services', async () => {
+      const client = createDestroyClient()
+
+      await destroyResources(client, { ...mockInputs, destroyEmptyEnvironment: true })
+
+      expect(client.removeEnvironment).not.toHaveBeenCalled()
+    })
+
+    it('should remove the project when none of its environments have services', async () => {
+      const client = createDestroyClient()
+      const emptyStaging = { ...stagingWithWeb, applications: [] }
+      client.getEnvironment
+        .mockResolvedValueOnce(stagingWithWeb)
+        .mockResolvedValueOnce(emptyStaging)
+      client.getProject.mockResolvedValue({
+        projectId: 'proj-1',
+        name: 'shop',
+        environments: [
+          emptyStaging,
+          { environmentId: 'env-2', name: 'production', projectId: 'proj-1' }
+        ]
+      })
+
+      const destroyed = await destroyResources(client, { ...mockInputs, destroyEmptyProject: true })
+
+      expect(client.removeProject).toHaveBeenCalledWith('proj-1')
+      expect(client.removeEnvironment).not.toHaveBeenCalled()
+      expect(destroyed).toContainEqual({ type: 'project', name: 'shop', id: 'proj-1' })
+    })
+  })
+})
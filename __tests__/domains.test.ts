@@ -0,0 +1,207 @@
+/**
+ * Tests for the domains input
+ */
+
+import { buildDomainConfigs, domainLabel, parseDomains, reconcileDomains } from '../src/domains'
+import { buildDomainConfig } from '../src/config'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('domains', () => {
+  const inputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'key',
+    dockerImage: 'nginx:latest',
+    applicationPort: 3000,
+    domainHttps: true,
+    domains: [
+      { host: 'www.example.com' },
+      { host: 'api.example.com', path: '/v1', stripPath: true },
+      { host: 'internal.example.com', https: false, port: 9000 }
+    ]
+  } as ActionInputs
+
+  describe('parseDomains', () => {
+    it('should parse a YAML list of domains', () => {
+      const domains = parseDomains(
+        [
+          '- host: www.example.com',
+          '- host: api.example.com',
+          '  path: /v1',
+          '  port: 8080',
+          '  https: false',
+          '  certificate-type: none',
+          '  strip-path: true',
+          '  service-name: api'
+        ].join('\n')
+      )
+
+      expect(domains).toEqual([
+        { host: 'www.example.com' },
+        {
+          host: 'api.example.com',
+          path: '/v1',
+          port: 8080,
+          https: false,
+          certificateType: 'none',
+          stripPath: true,
+          serviceName: 'api'
+        }
+      ])
+    })
+
+    it('should return undefined when the input is empty', () => {
+      expect(parseDomains(undefined)).toBeUndefined()
+      expect(parseDomains('')).toBeUndefined()
+    })
+
+    it('should reject entries without a host and unknown keys', () => {
+      expect(() => parseDomains('- path: /api\n- host: a.example.com\n  tls: true')).toThrow(
+        'domains has 2 validation errors'
+      )
+      expect(() => parseDomains('host: a.example.com')).toThrow('domains has 1 validation error')
+    })
+  })
+
+  describe('buildDomainConfigs', () => {
+    it('should fill in what an entry leaves out from the shared domain inputs', () => {
+      const configs = buildDomainConfigs(inputs)
+
+      expect(configs[0]).toEqual({
+        host: 'www.example.com',
+        path: '/',
+        port: 3000,
+        https: true,
+        certificateType: 'letsencrypt',
+        stripPath: false,
+        domainType: 'application',
+        serviceName: undefined
+      })
+      expect(configs[1]).toMatchObject({ path: '/v1', stripPath: true })
+      expect(configs[2]).toMatchObject({ port: 9000, https: false })
+    })
+
+    it('should default the certificate type the same way as domain-host', () => {
+      const shared = { ...inputs, domainHost: 'www.example.com', domainHttps: false }
+
+      expect(buildDomainConfigs(shared)[0].certificateType).toBe(
+        buildDomainConfig(shared)?.certificateType
+      )
+      expect(
+        buildDomainConfigs({ ...shared, sslCertificateType: 'custom' })[0].certificateType
+      ).toBe('custom')
+    })
+
+    it('should route compose domains to a service', () => {
+      const configs = buildDomainConfigs(
+        {
+          ...inputs,
+          composeServiceName: 'web',
+          domains: [{ host: 'www.example.com' }, { host: 'api.example.com', serviceName: 'api' }]
+        },
+        'compose'
+      )
+
+      expect(configs.map(config => config.serviceName)).toEqual(['web', 'api'])
+      expect(configs[0].domainType).toBe('compose')
+    })
+  })
+
+  it('should label a domain by host and path', () => {
+    expect(domainLabel({ host: 'www.example.com', path: '/' })).toBe('www.example.com')
+    expect(domainLabel({ host: 'api.example.com', path: '/v1' })).toBe('api.example.com/v1')
+  })
+
+  describe('reconcileDomains', () => {
+    const createDomainsClient = () =>
+      createMockClient({
+        getDomains: jest.fn().mockResolvedValue([
+          {
+            domainId: 'dom-www',
+            host: 'www.example.com',
+            path: '/',
+            port: 3000,
+            https: true,
+            certificateType: 'letsencrypt'
+          },
+          {
+            domainId: 'dom-api',
+            host: 'api.example.com',
+            path: '/v1',
+            port: 8080,
+            https: true,
+            certificateType: 'letsencrypt'
+          },
+          { domainId: 'dom-old', host: 'old.example.com', path: '/', port: 3000, https: true }
+        ]),
+        createDomain: jest.fn().mockResolvedValue({ domainId: 'dom-new' }),
+        createComposeDomain: jest.fn().mockResolvedValue({ domainId: 'dom-new' }),
+        updateDomain: jest.fn().mockResolvedValue({})
+      })
+
+    it('should create missing, update changed and keep matching domains', async () => {
+      const client = createDomainsClient()
+
+      const results = await reconcileDomains(
+        client,
+        { type: 'application', id: 'app-1' },
+        buildDomainConfigs(inputs),
+        false
+      )
+
+      expect(results).toEqual([
+        { host: 'www.example.com', change: 'unchanged' },
+        { host: 'api.example.com/v1', change: 'updated' },
+        { host: 'internal.example.com', change: 'created' }
+      ])
+      expect(client.updateDomain).toHaveBeenCalledWith(
+        'dom-api',
+        expect.objectContaining({ port: 3000, stripPath: true })
+      )
+      expect(client.createDomain).toHaveBeenCalledWith(
+        'app-1',
+        expect.objectContaining({ host: 'internal.example.com', port: 9000 })
+      )
+      expect(client.removeDomain).not.toHaveBeenCalled()
+    })
+
+    it('should remove unlisted domains when pruning', async () => {
+      const client = createDomainsClient()
+
+      const results = await reconcileDomains(
+        client,
+        { type: 'application', id: 'app-1' },
+        buildDomainConfigs(inputs),
+        true
+      )
+
+      expect(results[results.length - 1]).toEqual({ host: 'old.example.com', change: 'removed' })
+      expect(client.removeDomain).toHaveBeenCalledTimes(1)
+      expect(client.removeDomain).toHaveBeenCalledWith('dom-old')
+    })
+
+    it('should create compose domains for their service', async () => {
+      const client = createDomainsClient()
+
+      await reconcileDomains(
+        client,
+        { type: 'compose', id: 'cmp-1' },
+        buildDomainConfigs(
+          { ...inputs, domains: [{ host: 'www.example.com', serviceName: 'web' }] },
+          'compose'
+        ),
+        true
+      )
+
+      expect(client.getDomainsByComposeId).toHaveBeenCalledWith('cmp-1')
+      expect(client.getDomains).not.toHaveBeenCalled()
+      expect(client.createComposeDomain).toHaveBeenCalledWith(
+        'cmp-1',
+        'web',
+        expect.objectContaining({ host: 'www.example.com', domainType: 'compose' })
+      )
+    })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Tests for dotenv file parsing
+ */
+
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { parseDotenv, loadEnvFile, formatEnvVariables } from '../src/env-file'
+
+describe('parseDotenv', () => {
+  it('should parse simple KEY=VALUE lines and skip comments', () => {
+    const result = parseDotenv('# comment\n\nKEY1=value1\nKEY2 = value2\n')
+
+    expect(result).toEqual({ KEY1: 'value1', KEY2: 'value2' })
+  })
+
+  it('should strip export prefix and inline comments', () => {
+    const result = parseDotenv('export API_URL=https://api.example.com # prod api\nHASH=a#b')
+
+    expect(result).toEqual({ API_URL: 'https://api.example.com', HASH: 'a#b' })
+  })
+
+  it('should keep single-quoted values literal', () => {
+    const result = parseDotenv("PATTERN='^a\\nb$ # not a comment'")
+
+    expect(result.PATTERN).toBe('^a\\nb$ # not a comment')
+  })
+
+  it('should unescape double-quoted values', () => {
+    const result = parseDotenv('GREETING="hello\\nworld \\"quoted\\""')
+
+    expect(result.GREETING).toBe('hello\nworld "quoted"')
+  })
+
+  it('should support multi-line quoted values', () => {
+    const content = [
+      'BEFORE=1',
+      'PRIVATE_KEY="-----BEGIN KEY-----',
+      'abc123',
+      '-----END KEY-----"',
+      'AFTER=2'
+    ].join('\n')
+
+    const result = parseDotenv(content)
+
+    expect(result.PRIVATE_KEY).toBe('-----BEGIN KEY-----\nabc123\n-----END KEY-----')
+    expect(result.AFTER).toBe('2')
+  })
+
+  it('should report line numbers for malformed entries', () => {
+    expect(() => parseDotenv('GOOD=1\nnot valid\n', 'app.env')).toThrow(
+      'app.env:2: expected KEY=VALUE'
+    )
+    expect(() => parseDotenv('A=1\nB="unterminated\nC=3', 'app.env')).toThrow(
+      'app.env:2: unterminated " quoted value for B'
+    )
+    expect(() => parseDotenv("A='value' trailing", 'app.env')).toThrow(
+      'app.env:1: unexpected characters after quoted value for A'
+    )
+  })
+
+  it('should keep backtick-quoted values literal', () => {
+    expect(parseDotenv('A=`it\'s "both"`')).toEqual({ A: `it's "both"` })
+  })
+
+  it('should read malformed entries the way Dokploy does when not strict', () => {
+    const result = parseDotenv(
+      'GOOD=1\nnot valid\nQUOTED="a\\nb \\"c\\"" trailing\nB="unterminated',
+      'env',
+      { strict: false }
+    )
+
+    expect(result).toEqual({ GOOD: '1', B: '"unterminated', QUOTED: 'a\nb \\"c\\"' })
+  })
+})
+
+describe('loadEnvFile', () => {
+  const originalWorkspace = process.env.GITHUB_WORKSPACE
+  let workspace: string
+
+  beforeEach(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'env-file-'))
+    process.env.GITHUB_WORKSPACE = workspace
+  })
+
+  afterEach(() => {
+    fs.rmSync(workspace, { recursive: true, force: true })
+    process.env.GITHUB_WORKSPACE = originalWorkspace
+  })
+
+  it('should read the file relative to the workspace', () => {
+    fs.mkdirSync(path.join(workspace, 'config'))
+    fs.writeFileSync(path.join(workspace, 'config', '.env.production'), 'KEY=value\n')
+
+    expect(loadEnvFile('config/.env.production')).toEqual({ KEY: 'value' })
+  })
+
+  it('should throw a helpful error when the file is missing', () => {
+    expect(() => loadEnvFile('missing.env')).toThrow('Failed to read env-file missing.env')
+  })
+})
+
+describe('formatEnvVariables', () => {
+  it('should leave plain values unquoted and escape multi-line values', () => {
+    const result = formatEnvVariables({
+      PLAIN: 'value',
+      URL: 'https://a.example.com/?b=1',
+      MULTI: 'a\nb'
+    })
+
+    expect(result).toBe('PLAIN=value\nURL=https://a.example.com/?b=1\nMULTI="a\\nb"')
+  })
+
+  it('should quote values dotenv would otherwise cut or trim', () => {
+    const result = formatEnvVariables({
+      PASSWORD: 'abc #123',
+      PADDED: '  padded  ',
+      QUOTED: '"quoted"',
+      MIXED: `it's "both"`
+    })
+
+    expect(result).toBe(
+      [
+        "PASSWORD='abc #123'",
+        "PADDED='  padded  '",
+        `QUOTED='"quoted"'`,
+        'MIXED=`it\'s "both"`'
+      ].join('\n')
+    )
+  })
+
+  it('should read env-file values back unchanged after formatting', () => {
+    const content = [
+      'PASSWORD="abc #123"',
+      "PADDED='  padded  '",
+      'QUOTED="say \\"hi\\""',
+      'MULTI="line1\\nline2"',
+      'HASH=abc#123',
+      'PLAIN=value # comment'
+    ].join('\n')
+    const values = parseDotenv(content, 'app.env')
+
+    expect(parseDotenv(formatEnvVariables(values), 'env', { strict: false })).toEqual(values)
+  })
+
+  it('should round-trip values with quotes and backslashes', () => {
+    const variables = {
+      CONFIG: '{"a":1}',
+      WINDOWS_PATH: 'C:\\app\\bin',
+      PATTERN: '^\\d+"$',
+      CERT: '-----BEGIN-----\r\nabc\n-----END-----'
+    }
+
+    expect(parseDotenv(formatEnvVariables(variables), 'env', { strict: false })).toEqual(variables)
+  })
+})
@@ -0,0 +1,41 @@
+/**
+ * Mock Dokploy client shared by the tests
+ *
+ * Every client method is a jest.fn() that resolves with nothing, or with an
+ * empty list for the list lookups. Tests pass the methods whose results
+ * matter to them.
+ */
+
+import { DokployClient } from '../../src/client/dokploy-client'
+
+export type MockDokployClient = DokployClient & Record<keyof DokployClient, jest.Mock>
+
+const LIST_METHODS = [
+  'getAllProjects',
+  'getAllServers',
+  'getDomains',
+  'getDomainsByComposeId',
+  'getDeployments',
+  'getComposeDeployments',
+  'getContainers',
+  'getEnvironmentsByProjectId'
+]
+
+export function createMockClient(
+  methods: Partial<Record<keyof DokployClient, jest.Mock>> = {}
+): MockDokployClient {
+  const client: Record<string, jest.Mock> = {}
+  for (const name of Object.getOwnPropertyNames(DokployClient.prototype)) {
+    if (name !== 'constructor') {
+      client[name] = jest.fn().mockResolvedValue(LIST_METHODS.includes(name) ? [] : undefined)
+    }
+  }
+  return Object.assign(client, methods) as unknown as MockDokployClient
+}
+
+/**
+ * A project whose only environment (env-1) holds the given applications
+ */
+export function projectWithApplications(applications: { applicationId: string; name: string }[]) {
+  return { environments: [{ environmentId: 'env-1', applications }] }
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for GitHub Deployments API integration
+ */
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { createGitHubDeployment, setGitHubDeploymentStatus } from '../src/github-deployment'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+jest.mock('@actions/github', () => ({
+  getOctokit: jest.fn(),
+  context: {
+    repo: { owner: 'acme', repo: 'shop' },
+    sha: 'abc123',
+    runId: 42,
+    serverUrl: 'https://github.com'
+  }
+}))
+
+describe('GitHub deployments', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'nginx:latest',
+    environmentName: 'staging',
+    githubToken: 'gh-token'
+  }
+
+  const octokit = {
+    rest: {
+      repos: {
+        createDeployment: jest.fn(),
+        createDeploymentStatus: jest.fn()
+      }
+    }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(github.getOctokit as jest.Mock).mockReturnValue(octokit)
+    octokit.rest.repos.createDeployment.mockResolvedValue({ data: { id: 7 } })
+    octokit.rest.repos.createDeploymentStatus.mockResolvedValue({ data: {} })
+  })
+
+  it('should create a deployment for the target environment at the current commit', async () => {
+    const deployment = await createGitHubDeployment(mockInputs, 'Deploy nginx:latest')
+
+    expect(github.getOctokit).toHaveBeenCalledWith('gh-token')
+    expect(octokit.rest.repos.createDeployment).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'shop',
+      ref: 'abc123',
+      environment: 'staging',
+      description: 'Deploy nginx:latest',
+      auto_merge: false,
+      required_contexts: []
+    })
+    expect(deployment).toMatchObject({ id: 7, environment: 'staging' })
+  })
+
+  it('should mark preview deployments as transient', async () => {
+    await createGitHubDeployment({ ...mockInputs, mode: 'preview' }, 'Deploy preview')
+
+    expect(octokit.rest.repos.createDeployment).toHaveBeenCalledWith(
+      expect.objectContaining({ transient_environment: true })
+    )
+  })
+
+  it('should prefer github-environment over environment-name', async () => {
+    const deployment = await createGitHubDeployment(
+      { ...mockInputs, githubEnvironment: 'Staging (EU)' },
+      'Deploy'
+    )
+
+    expect(deployment?.environment).toBe('Staging (EU)')
+  })
+
+  it('should skip when disabled or without a token', async () => {
+    expect(await createGitHubDeployment({ ...mockInputs, githubDeployment: false }, 'x')).toBeNull()
+    expect(await createGitHubDeployment({ ...mockInputs, githubToken: undefined }, 'x')).toBeNull()
+    expect(github.getOctokit).not.toHaveBeenCalled()
+  })
+
+  it('should warn instead of failing when GitHub rejects the deployment', async () => {
+    octokit.rest.repos.createDeployment.mockRejectedValue(new Error('Resource not accessible'))
+
+    const deployment = await createGitHubDeployment(mockInputs, 'Deploy')
+
+    expect(deployment).toBeNull()
+    expect(core.warning).toHaveBeenCalledWith(
+      '⚠️ Could not create GitHub deployment: Resource not accessible'
+    )
+  })
+
+  it('should post statuses with the environment URL and run link', async () => {
+    const deployment = await createGitHubDeployment(mockInputs, 'Deploy')
+
+    await setGitHubDeploymentStatus(deployment, 'success', 'https://app.example.com')
+
+    expect(octokit.rest.repos.createDeploymentStatus).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'shop',
+      deployment_id: 7,
+      state: 'success',
+      environment: 'staging',
+      environment_url: 'https://app.example.com',
+      log_url: 'https://github.com/acme/shop/actions/runs/42',
+      description: undefined
+    })
+  })
+
+  it('should do nothing without a deployment', async () => {
+    await setGitHubDeploymentStatus(null, 'failure')
+
+    expect(octokit.rest.repos.createDeploymentStatus).not.toHaveBeenCalled()
+  })
+})
@@ -4,7 +4,16 @@
 
 import * as core from '@actions/core'
 import * as httpm from '@actions/http-client'
-import { performHealthCheck } from '../src/health-check'
+import {
+  performHealthCheck,
+  matchesStatusCode,
+  matchesBody,
+  evaluateJsonPathAssertion,
+  evaluateHealthResponse,
+  probeErrorRate
+} from '../src/health-check'
+import { applicationLog } from '../src/log'
+import type { HealthCheckAttempt } from '../src/health-check'
 import type { ActionInputs } from '../src/types/dokploy'
 
 // Mock dependencies
@@ -69,6 +78,17 @@ describe('performHealthCheck', () => {
     expect(mockGet).toHaveBeenCalledWith('https://example.com/health')
   })
 
+  it('should log through the log of its application', async () => {
+    ;(httpm.HttpClient as jest.Mock).mockImplementation(() => ({
+      get: jest.fn().mockResolvedValue({ message: { statusCode: 200 } })
+    }))
+
+    await performHealthCheck('https://example.com', mockInputs, undefined, applicationLog('api'))
+
+    expect(mockInfo).toHaveBeenCalledWith('[api] ✅ Health check passed! (HTTP 200)')
+    expect(mockInfo).not.toHaveBeenCalledWith('✅ Health check passed! (HTTP 200)')
+  })
+
   it('should retry on failure', async () => {
     const mockGet = jest
       .fn()
@@ -88,6 +108,25 @@ describe('performHealthCheck', () => {
     expect(mockGet).toHaveBeenCalledTimes(3)
   })
 
+  it('should record each attempt with its result and latency', async () => {
+    const mockGet = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('Connection refused'))
+      .mockResolvedValueOnce({ message: { statusCode: 200 } })
+
+    ;(httpm.HttpClient as jest.Mock).mockImplementation(() => ({
+      get: mockGet
+    }))
+
+    const attempts: HealthCheckAttempt[] = []
+    await performHealthCheck('https://example.com', mockInputs, attempts)
+
+    expect(attempts).toEqual([
+      { attempt: 1, latencyMs: expect.any(Number), error: 'Connection refused' },
+      { attempt: 2, statusCode: 200, latencyMs: expect.any(Number) }
+    ])
+  })
+
   it('should return unhealthy after max retries', async () => {
     const mockGet = jest.fn().mockRejectedValue(new Error('Connection failed'))
 
@@ -143,3 +182,97 @@ describe('performHealthCheck', () => {
   })
 })
 
+describe('health check success policy', () => {
+  const baseInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'nginx:latest'
+  }
+
+  it('should match status code lists, classes and ranges', () => {
+    expect(matchesStatusCode(204, '200,204')).toBe(true)
+    expect(matchesStatusCode(201, '200,204')).toBe(false)
+    expect(matchesStatusCode(299, '2xx')).toBe(true)
+    expect(matchesStatusCode(301, '2xx')).toBe(false)
+    expect(matchesStatusCode(302, '200-302')).toBe(true)
+  })
+
+  it('should match body by substring or regex', () => {
+    expect(matchesBody('status: ok', 'ok')).toBe(true)
+    expect(matchesBody('Status: OK', '/status:\\s+ok/i')).toBe(true)
+    expect(matchesBody('status: down', '/ok$/')).toBe(false)
+  })
+
+  it('should evaluate JSON path assertions', () => {
+    const body = JSON.stringify({ status: 'UP', checks: [{ healthy: true }], 'db-pool': 3 })
+
+    expect(evaluateJsonPathAssertion(body, '$.status == "UP"')).toBe(true)
+    expect(evaluateJsonPathAssertion(body, '$.status != "UP"')).toBe(false)
+    expect(evaluateJsonPathAssertion(body, '$.checks[0].healthy == true')).toBe(true)
+    expect(evaluateJsonPathAssertion(body, "$['db-pool'] == 3")).toBe(true)
+    expect(evaluateJsonPathAssertion(body, '$.checks[1].healthy')).toBe(false)
+    expect(evaluateJsonPathAssertion('not json', '$.status == "UP"')).toBe(false)
+  })
+
+  it('should treat a 200 with Degraded status as unhealthy', () => {
+    const failure = evaluateHealthResponse(200, '{"status":"Degraded"}', {
+      ...baseInputs,
+      healthCheckJsonPath: '$.status == "Healthy"'
+    })
+
+    expect(failure).toContain('JSON assertion failed')
+  })
+
+  it('should read the body only when a body policy is configured', async () => {
+    const mockReadBody = jest.fn().mockResolvedValue('{"status":"UP"}')
+    const mockGet = jest.fn().mockResolvedValue({
+      message: { statusCode: 204 },
+      readBody: mockReadBody
+    })
+
+    ;(httpm.HttpClient as jest.Mock).mockImplementation(() => ({
+      get: mockGet
+    }))
+
+    const result = await performHealthCheck('https://example.com', {
+      ...baseInputs,
+      healthCheckEnabled: true,
+      expectedStatusCode: '2xx',
+      healthCheckJsonPath: '$.status == "UP"'
+    })
+
+    expect(result).toBe('healthy')
+    expect(mockReadBody).toHaveBeenCalled()
+  })
+})
+
+describe('probeErrorRate', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'nginx:latest',
+    healthCheckPath: '/ready'
+  }
+
+  it('should count network errors and 5xx responses as errors', async () => {
+    const response = (statusCode: number) => ({
+      message: { statusCode },
+      readBody: jest.fn().mockResolvedValue('')
+    })
+    const mockGet = jest
+      .fn()
+      .mockResolvedValueOnce(response(200))
+      .mockResolvedValueOnce(response(503))
+      .mockRejectedValueOnce(new Error('Connection reset'))
+      .mockResolvedValueOnce(response(404))
+
+    ;(httpm.HttpClient as jest.Mock).mockImplementation(() => ({
+      get: mockGet
+    }))
+
+    const probe = await probeErrorRate('https://example.com', mockInputs, 4)
+
+    expect(probe).toEqual({ requests: 4, errors: 2, errorRate: 50 })
+    expect(mockGet).toHaveBeenCalledWith('https://example.com/ready')
+  })
+})
@@ -2,7 +2,14 @@
  * Tests for utility helper functions
  */
 
-import { parseIntInput, parseBooleanInput, parseCpuLimit, sleep } from '../src/utils/helpers'
+import {
+  parseIntInput,
+  parseFloatInput,
+  parseListInput,
+  parseBooleanInput,
+  parseCpuLimit,
+  sleep
+} from '../src/utils/helpers'
 
 describe('Utility Helpers', () => {
   describe('parseIntInput', () => {
@@ -23,6 +30,28 @@ describe('Utility Helpers', () => {
     })
   })
 
+  describe('parseFloatInput', () => {
+    it('should parse fractions', () => {
+      expect(parseFloatInput('0.25', 'test')).toBe(0.25)
+      expect(parseFloatInput(undefined, 'test')).toBeUndefined()
+    })
+
+    it('should throw error for invalid number', () => {
+      expect(() => parseFloatInput('0.2x', 'test')).toThrow('test must be a valid number')
+    })
+  })
+
+  describe('parseListInput', () => {
+    it('should split lines and drop empty ones', () => {
+      expect(parseListInput('node.role==worker\n\n  node.labels.region==eu  \n')).toEqual([
+        'node.role==worker',
+        'node.labels.region==eu'
+      ])
+      expect(parseListInput(undefined)).toBeUndefined()
+      expect(parseListInput('\n')).toBeUndefined()
+    })
+  })
+
   describe('parseBooleanInput', () => {
     it('should parse "true" as true', () => {
       expect(parseBooleanInput('true')).toBe(true)
@@ -4,9 +4,12 @@
 
 import * as core from '@actions/core'
 import { run } from '../src/index'
-import { DokployClient } from '../src/client/dokploy-client'
+import { DokployClient, DeploymentTimeoutError } from '../src/client/dokploy-client'
 import { parseInputs } from '../src/inputs'
-import { performHealthCheck } from '../src/health-check'
+import { performHealthCheck, probeErrorRate } from '../src/health-check'
+import * as helpers from '../src/utils/helpers'
+import * as prComment from '../src/pr-comment'
+import { createMockClient } from './fixtures/dokploy-client'
 
 // Mock all dependencies
 jest.mock('@actions/core')
@@ -25,6 +28,7 @@ describe('run', () => {
   const mockPerformHealthCheck = performHealthCheck as jest.MockedFunction<
     typeof performHealthCheck
   >
+  const mockProbeErrorRate = probeErrorRate as jest.MockedFunction<typeof probeErrorRate>
 
   const mockInputs = {
     dokployUrl: 'https://dokploy.example.com',
@@ -36,7 +40,7 @@ describe('run', () => {
     serverId: 'srv-001',
     healthCheckEnabled: false,
     waitForDeployment: false,
-    cleanupOldContainers: false
+    reportOldContainers: false
   }
 
   beforeEach(() => {
@@ -65,6 +69,94 @@ describe('run', () => {
     expect(mockSetFailed).not.toHaveBeenCalled()
   })
 
+  it('should send the rolling update config with the application settings', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      updateParallelism: 1,
+      updateFailureAction: 'rollback',
+      updateOrder: 'start-first'
+    } as any)
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      updateApplication: jest.fn().mockResolvedValue(undefined),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+    }
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockClient.updateApplication).toHaveBeenCalledWith(
+      'app-789',
+      expect.objectContaining({
+        updateConfigSwarm: { Parallelism: 1, FailureAction: 'rollback', Order: 'start-first' },
+        rollbackConfigSwarm: { Parallelism: 1, FailureAction: 'pause', Order: 'start-first' }
+      })
+    )
+  })
+
+  it('should send the Swarm restart policy, health check and placement', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      restartPolicy: 'on-failure',
+      restartMaxAttempts: 3,
+      containerHealthCheck: 'curl -f http://localhost/health',
+      placementConstraints: ['node.labels.region==eu']
+    } as any)
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      updateApplication: jest.fn().mockResolvedValue(undefined),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+    }
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockClient.updateApplication).toHaveBeenCalledWith(
+      'app-789',
+      expect.objectContaining({
+        restartPolicySwarm: { Condition: 'on-failure', MaxAttempts: 3 },
+        healthCheckSwarm: { Test: ['CMD-SHELL', 'curl -f http://localhost/health'] },
+        placementSwarm: { Constraints: ['node.labels.region==eu'] }
+      })
+    )
+  })
+
+  it('should reconcile every listed domain and report the first as the deployment URL', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      applicationPort: 3000,
+      domains: [{ host: 'www.example.com' }, { host: 'api.example.com', path: '/v1' }],
+      pruneDomains: true
+    } as any)
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      getDomains: jest.fn().mockResolvedValue([
+        { domainId: 'dom-old', host: 'old.example.com', path: '/', port: 3000 }
+      ]),
+      createDomain: jest.fn().mockResolvedValue({ domainId: 'dom-new' }),
+      removeDomain: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+    }
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockClient.createDomain).toHaveBeenCalledTimes(2)
+    expect(mockClient.createDomain).toHaveBeenCalledWith(
+      'app-789',
+      expect.objectContaining({ host: 'api.example.com', path: '/v1', port: 3000 })
+    )
+    expect(mockClient.removeDomain).toHaveBeenCalledWith('dom-old')
+    expect(mockSetOutput).toHaveBeenCalledWith('deployment-url', 'https://www.example.com')
+    expect(mockSetFailed).not.toHaveBeenCalled()
+  })
+
   it('should handle errors gracefully', async () => {
     const mockClient = {
       resolveServerId: jest.fn().mockRejectedValue(new Error('API Error'))
@@ -147,5 +239,531 @@ describe('run', () => {
     expect(mockStartGroup).toHaveBeenCalledWith(expect.stringContaining('Connecting to Dokploy'))
     expect(mockEndGroup).toHaveBeenCalled()
   })
-})
 
+  it('should roll back to the previous image when the deployment fails', async () => {
+    const inputs = {
+      ...mockInputs,
+      waitForDeployment: true,
+      rollbackOnFailure: true
+    }
+    mockParseInputs.mockReturnValue(inputs as any)
+
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      getApplication: jest.fn().mockResolvedValue({ dockerImage: 'nginx:previous' }),
+      getDeployments: jest.fn().mockResolvedValue([]),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest
+        .fn()
+        .mockResolvedValueOnce({ deploymentId: 'deploy-123' })
+        .mockResolvedValueOnce({ deploymentId: 'deploy-rollback' }),
+      waitForDeployment: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Deployment failed'))
+        .mockResolvedValueOnce({ status: 'completed' }),
+      getDeploymentLogs: jest.fn().mockResolvedValue('')
+    }
+
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await expect(run()).rejects.toThrow('Deployment failed')
+
+    expect(mockClient.saveDockerProvider).toHaveBeenLastCalledWith(
+      'app-789',
+      'nginx:previous',
+      undefined,
+      undefined,
+      undefined
+    )
+    expect(mockSetOutput).toHaveBeenCalledWith('rollback-status', 'success')
+    expect(mockSetOutput).toHaveBeenCalledWith('rolled-back-to', 'nginx:previous')
+  })
+
+  it('should cancel and kill the build when the deployment wait times out', async () => {
+    const inputs = {
+      ...mockInputs,
+      waitForDeployment: true,
+      cancelOnTimeout: true,
+      cleanQueues: true
+    }
+    mockParseInputs.mockReturnValue(inputs as any)
+
+    const timeoutError = new DeploymentTimeoutError('deploy-123', 300, 'running')
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      cleanQueues: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' }),
+      waitForDeployment: jest.fn().mockRejectedValue(timeoutError),
+      cancelDeployment: jest.fn().mockResolvedValue(undefined),
+      killBuild: jest.fn().mockResolvedValue(undefined),
+      getDeploymentLogs: jest.fn().mockResolvedValue('')
+    }
+
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await expect(run()).rejects.toBe(timeoutError)
+
+    expect(mockClient.cleanQueues).toHaveBeenCalledWith('app-789')
+    expect(mockClient.cleanQueues.mock.invocationCallOrder[0]).toBeLessThan(
+      mockClient.deployApplication.mock.invocationCallOrder[0]
+    )
+    expect(mockClient.cancelDeployment).toHaveBeenCalledWith('app-789')
+    expect(mockClient.killBuild).toHaveBeenCalledWith('app-789')
+  })
+
+  it('should health check a compose deployment after the wait when the quick check fails', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      deploymentType: 'compose',
+      applicationName: 'stack',
+      domainHost: 'stack.example.com',
+      domainHttps: true,
+      healthCheckEnabled: true,
+      waitForDeployment: true
+    } as any)
+    jest.spyOn(helpers, 'sleep').mockResolvedValue(undefined)
+    mockPerformHealthCheck.mockResolvedValue('unhealthy')
+    const mockClient = createMockClient({
+      findComposeByName: jest.fn().mockResolvedValue({ composeId: 'compose-1' }),
+      deployCompose: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' }),
+      waitForDeployment: jest.fn().mockResolvedValue({ status: 'done' })
+    })
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockClient.waitForDeployment).toHaveBeenCalled()
+    expect(mockPerformHealthCheck).toHaveBeenCalledTimes(2)
+    expect(mockSetOutput).toHaveBeenCalledWith('health-check-status', 'unhealthy')
+    expect(mockSetOutput).not.toHaveBeenCalledWith('health-check-status', 'healthy')
+  })
+
+  it('should deploy the idle color and then move the production domain to it', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      applicationId: undefined,
+      applicationName: 'web',
+      domainHost: 'app.example.com',
+      deploymentStrategy: 'blue-green',
+      blueGreenDomainTemplate: '{color}.internal.example.com',
+      healthCheckEnabled: true
+    } as any)
+    const upsertComment = jest.spyOn(prComment, 'upsertPullRequestComment')
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      getProject: jest.fn().mockResolvedValue({
+        environments: [
+          {
+            id: 'env-456',
+            applications: [
+              { id: 'app-blue', name: 'web-blue' },
+              { id: 'app-green', name: 'web-green' }
+            ]
+          }
+        ]
+      }),
+      getDomains: jest.fn(async (applicationId: string) =>
+        applicationId === 'app-blue' ? [{ domainId: 'dom-live', host: 'app.example.com' }] : []
+      ),
+      createDomain: jest.fn().mockResolvedValue({}),
+      removeDomain: jest.fn().mockResolvedValue(undefined),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+    }
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await run()
+
+    expect(mockClient.deployApplication).toHaveBeenCalledWith(
+      'app-green',
+      expect.any(String),
+      expect.any(String)
+    )
+    expect(mockPerformHealthCheck).toHaveBeenCalledWith(
+      'https://green.internal.example.com',
+      expect.anything(),
+      expect.anything(),
+      expect.anything()
+    )
+    expect(mockClient.createDomain).toHaveBeenCalledWith(
+      'app-green',
+      expect.objectContaining({ host: 'app.example.com' })
+    )
+    expect(mockClient.removeDomain).toHaveBeenCalledWith('dom-live')
+    expect(mockSetOutput).toHaveBeenCalledWith('active-color', 'green')
+    expect(upsertComment).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ name: 'web', slot: 'green', serviceId: 'app-green' }),
+      expect.anything()
+    )
+    const urls = mockSetOutput.mock.calls.filter(([name]) => name === 'deployment-url')
+    expect(urls.map(([, url]) => url)).toEqual([
+      'https://green.internal.example.com',
+      'https://app.example.com'
+    ])
+  })
+
+  it('should keep the production domain on the live color when the new one is unhealthy', async () => {
+    mockParseInputs.mockReturnValue({
+      ...mockInputs,
+      applicationId: undefined,
+      applicationName: 'web',
+      domainHost: 'app.example.com',
+      deploymentStrategy: 'blue-green',
+      blueGreenDomainTemplate: '{color}.internal.example.com',
+      healthCheckEnabled: true,
+      failOnHealthCheckError: false
+    } as any)
+    mockPerformHealthCheck.mockResolvedValue('unhealthy')
+    const mockClient = {
+      resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+      getProject: jest.fn().mockResolvedValue({
+        environments: [{ id: 'env-456', applications: [{ id: 'app-blue', name: 'web-blue' }] }]
+      }),
+      getDomains: jest.fn().mockResolvedValue([]),
+      createDomain: jest.fn().mockResolvedValue({}),
+      removeDomain: jest.fn().mockResolvedValue(undefined),
+      saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+      saveEnvironment: jest.fn().mockResolvedValue(undefined),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+    }
+    ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+    await expect(run()).rejects.toThrow('app.example.com was not switched')
+    expect(mockClient.createDomain).toHaveBeenCalledTimes(1)
+    expect(mockClient.createDomain).toHaveBeenCalledWith(
+      'app-blue',
+      expect.objectContaining({ host: 'blue.internal.example.com' })
+    )
+  })
+
+  describe('canary', () => {
+    const createCanaryClient = () =>
+      createMockClient({
+        resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+        getProject: jest.fn().mockResolvedValue({
+          environments: [
+            {
+              id: 'env-456',
+              applications: [
+                { id: 'app-web', name: 'web' },
+                { id: 'app-canary', name: 'web-canary' }
+              ]
+            }
+          ]
+        }),
+        getApplication: jest.fn(async (applicationId: string) => ({
+          applicationId,
+          appName: `${applicationId}-abc`
+        })),
+        createDomain: jest.fn().mockResolvedValue({}),
+        readTraefikConfig: jest.fn().mockResolvedValue('original'),
+        deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+      })
+
+    beforeEach(() => {
+      mockParseInputs.mockReturnValue({
+        ...mockInputs,
+        applicationId: undefined,
+        applicationName: 'web',
+        domainHost: 'app.example.com',
+        deploymentStrategy: 'canary',
+        canarySteps: [10, 50, 100],
+        canaryInterval: 0,
+        canaryMaxErrorRate: 5,
+        healthCheckEnabled: true
+      } as any)
+      mockProbeErrorRate.mockResolvedValue({ requests: 20, errors: 0, errorRate: 0 })
+    })
+
+    it('should shift traffic step by step, then promote the stable application', async () => {
+      const mockClient = createCanaryClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockClient.deployApplication.mock.calls.map(([id]) => id)).toEqual([
+        'app-canary',
+        'app-web'
+      ])
+      expect(mockClient.updateTraefikConfig).toHaveBeenCalledTimes(4)
+      expect(mockClient.updateTraefikConfig.mock.calls[0][1]).toContain('weight: 10')
+      expect(mockClient.updateTraefikConfig).toHaveBeenLastCalledWith('app-web', 'original')
+      expect(mockProbeErrorRate).toHaveBeenCalledTimes(3)
+      expect(mockClient.stopApplication).toHaveBeenCalledWith('app-canary')
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should send all traffic back to the stable application when a step fails', async () => {
+      mockProbeErrorRate
+        .mockResolvedValueOnce({ requests: 20, errors: 0, errorRate: 0 })
+        .mockResolvedValueOnce({ requests: 20, errors: 4, errorRate: 20 })
+      const upsertComment = jest.spyOn(prComment, 'upsertPullRequestComment')
+      const mockClient = createCanaryClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await expect(run()).rejects.toThrow('Canary error rate 20.0% at 50% traffic')
+
+      expect(upsertComment).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({ name: 'web', slot: 'canary' }),
+        expect.anything()
+      )
+
+      expect(mockClient.updateTraefikConfig).toHaveBeenCalledTimes(3)
+      expect(mockClient.updateTraefikConfig).toHaveBeenLastCalledWith('app-web', 'original')
+      expect(mockClient.deployApplication).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep traffic on the canary when promoting the stable application fails', async () => {
+      const mockClient = createCanaryClient()
+      mockClient.deployApplication
+        .mockResolvedValueOnce({ deploymentId: 'deploy-canary' })
+        .mockRejectedValueOnce(new Error('Build failed'))
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await expect(run()).rejects.toThrow('Build failed')
+
+      expect(mockClient.updateTraefikConfig).toHaveBeenCalledTimes(3)
+      expect(mockClient.updateTraefikConfig).not.toHaveBeenCalledWith('app-web', 'original')
+      expect(mockEndGroup.mock.calls.length).toBe(mockStartGroup.mock.calls.length)
+    })
+  })
+
+  describe('recreate', () => {
+    const createRecreateClient = () =>
+      createMockClient({
+        resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+        getProject: jest.fn().mockResolvedValue({
+          environments: [{ id: 'env-456', applications: [{ id: 'app-web', name: 'web' }] }]
+        }),
+        getDomains: jest.fn(async (applicationId: string) =>
+          applicationId === 'app-web'
+            ? [{ domainId: 'dom-web', host: 'app.example.com', port: 3000, path: '/health' }]
+            : []
+        ),
+        createApplication: jest.fn().mockResolvedValue('app-maint'),
+        waitForDeployment: jest.fn().mockResolvedValue({ status: 'done' }),
+        createDomain: jest.fn().mockResolvedValue({ domainId: 'dom-maint' }),
+        updateDomain: jest.fn().mockResolvedValue({}),
+        deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+      })
+
+    const recreateInputs = {
+      ...mockInputs,
+      applicationId: undefined,
+      applicationName: 'web',
+      deploymentStrategy: 'recreate'
+    }
+
+    it('should stop the application before deploying it', async () => {
+      mockParseInputs.mockReturnValue(recreateInputs as any)
+      const mockClient = createRecreateClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockClient.stopApplication).toHaveBeenCalledWith('app-web')
+      expect(mockClient.stopApplication.mock.invocationCallOrder[0]).toBeLessThan(
+        mockClient.deployApplication.mock.invocationCallOrder[0]
+      )
+      expect(mockClient.createApplication).not.toHaveBeenCalled()
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should show the maintenance page until the new version is healthy', async () => {
+      mockParseInputs.mockReturnValue({
+        ...recreateInputs,
+        domainHost: 'app.example.com',
+        applicationPort: 3000,
+        healthCheckEnabled: true,
+        healthCheckPath: '/health',
+        maintenanceImage: 'ghcr.io/acme/maintenance:1'
+      } as any)
+      const mockClient = createRecreateClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockClient.deployApplication.mock.calls.map(([id]) => id)).toEqual([
+        'app-maint',
+        'app-web'
+      ])
+      expect(mockClient.createDomain).toHaveBeenCalledWith(
+        'app-maint',
+        expect.objectContaining({ host: 'app.example.com', port: 80 })
+      )
+      expect(mockClient.updateDomain).toHaveBeenCalledWith(
+        'dom-web',
+        expect.objectContaining({ path: '/health' })
+      )
+      expect(mockClient.updateDomain).toHaveBeenLastCalledWith(
+        'dom-web',
+        expect.objectContaining({ path: '/' })
+      )
+      expect(mockClient.removeDomain).toHaveBeenCalledWith('dom-maint')
+      expect(mockClient.stopApplication.mock.calls.map(([id]) => id)).toEqual([
+        'app-web',
+        'app-maint'
+      ])
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('multiple applications', () => {
+    const applications = [
+      { name: 'api', dockerImage: 'ghcr.io/acme/api:v2' },
+      { name: 'worker', dockerImage: 'ghcr.io/acme/worker:v2' }
+    ]
+
+    const createApplicationsClient = () =>
+      createMockClient({
+        resolveServerId: jest.fn().mockResolvedValue('srv-001'),
+        getProject: jest.fn().mockResolvedValue({
+          environments: [
+            {
+              id: 'env-456',
+              applications: [
+                { id: 'app-api', name: 'api' },
+                { id: 'app-worker', name: 'worker' }
+              ]
+            }
+          ]
+        }),
+        deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'deploy-123' })
+      })
+
+    beforeEach(() => {
+      mockParseInputs.mockReturnValue({
+        ...mockInputs,
+        applicationId: undefined,
+        applications
+      } as any)
+    })
+
+    it('should resolve shared resources once and deploy every application', async () => {
+      const mockClient = createApplicationsClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockClient.resolveServerId).toHaveBeenCalledTimes(1)
+      expect(mockClient.deployApplication).toHaveBeenCalledWith(
+        'app-api',
+        'Deploy ghcr.io/acme/api:v2',
+        expect.any(String)
+      )
+      expect(mockClient.deployApplication).toHaveBeenCalledWith(
+        'app-worker',
+        'Deploy ghcr.io/acme/worker:v2',
+        expect.any(String)
+      )
+      const output = mockSetOutput.mock.calls.find(([name]) => name === 'applications-json')
+      expect(JSON.parse(output?.[1] as string)).toEqual([
+        expect.objectContaining({ name: 'api', status: 'success', applicationId: 'app-api' }),
+        expect.objectContaining({ name: 'worker', status: 'success', applicationId: 'app-worker' })
+      ])
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should set outputs once and log each application under its own prefix', async () => {
+      const mockClient = createApplicationsClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      const outputNames = mockSetOutput.mock.calls.map(([name]) => name)
+      expect(outputNames).not.toContain('application-id')
+      expect(outputNames).not.toContain('deployment-id')
+      expect(outputNames.filter(name => name === 'deployment-status')).toHaveLength(1)
+      expect(mockSetOutput).toHaveBeenCalledWith('deployment-status', 'success')
+      expect(mockStartGroup).not.toHaveBeenCalledWith('📦 Application Management')
+      expect(mockInfo).toHaveBeenCalledWith('[api] 📦 Application Management')
+      expect(mockInfo).toHaveBeenCalledWith('[worker] 📦 Application Management')
+    })
+
+    it('should fail the run when any application fails', async () => {
+      const mockClient = createApplicationsClient()
+      mockClient.deployApplication.mockImplementation(async (applicationId: string) => {
+        if (applicationId === 'app-worker') throw new Error('Build failed')
+        return { deploymentId: 'deploy-123' }
+      })
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await expect(run()).rejects.toThrow('1 of 2 applications failed: worker')
+      expect(mockClient.deployApplication).toHaveBeenCalledTimes(2)
+    })
+
+    it('should only warn with continue-on-app-failure', async () => {
+      mockParseInputs.mockReturnValue({
+        ...mockInputs,
+        applicationId: undefined,
+        applications,
+        continueOnAppFailure: true
+      } as any)
+      const mockClient = createApplicationsClient()
+      mockClient.deployApplication.mockRejectedValueOnce(new Error('Build failed'))
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('1 of 2 applications failed: api')
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should only warn when an application fails its health check with continue-on-app-failure', async () => {
+      mockParseInputs.mockReturnValue({
+        ...mockInputs,
+        applicationId: undefined,
+        applications: [{ ...applications[0], domainHost: 'api.example.com' }, applications[1]],
+        healthCheckEnabled: true,
+        failOnHealthCheckError: true,
+        continueOnAppFailure: true
+      } as any)
+      mockPerformHealthCheck.mockResolvedValue('unhealthy')
+      const mockClient = createApplicationsClient()
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await run()
+
+      expect(mockPerformHealthCheck).toHaveBeenCalledWith(
+        'https://api.example.com',
+        expect.anything(),
+        expect.anything(),
+        expect.anything()
+      )
+      expect(core.warning).toHaveBeenCalledWith(
+        expect.stringContaining('1 of 2 applications failed: api')
+      )
+      expect(mockSetFailed).not.toHaveBeenCalled()
+    })
+
+    it('should deploy dependents after their dependencies and skip them on failure', async () => {
+      mockParseInputs.mockReturnValue({
+        ...mockInputs,
+        applicationId: undefined,
+        applications: [
+          { name: 'worker', dockerImage: 'ghcr.io/acme/worker:v2', dependsOn: ['api'] },
+          { name: 'api', dockerImage: 'ghcr.io/acme/api:v2' }
+        ]
+      } as any)
+      const mockClient = createApplicationsClient()
+      mockClient.deployApplication.mockRejectedValueOnce(new Error('Build failed'))
+      ;(DokployClient as jest.Mock).mockImplementation(() => mockClient)
+
+      await expect(run()).rejects.toThrow('2 of 2 applications failed: worker (skipped), api')
+      expect(mockClient.deployApplication).toHaveBeenCalledTimes(1)
+      expect(mockClient.deployApplication).toHaveBeenCalledWith(
+        'app-api',
+        'Deploy ghcr.io/acme/api:v2',
+        expect.any(String)
+      )
+    })
+  })
+})
@@ -145,5 +145,37 @@ describe('parseInputs', () => {
     expect(result.cpuLimit).toBe(0.5)   // 500m = 0.5 CPU
     expect(result.cpuReservation).toBe(0.25) // 250m = 0.25 CPU
   })
-})
 
+  it('should read the deprecated cleanup-old-containers as report-old-containers', () => {
+    mockGetInput.mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'dokploy-url': 'https://dokploy.example.com',
+        'api-key': 'test-api-key',
+        'docker-image': 'nginx:latest',
+        'cleanup-old-containers': 'true'
+      }
+      return inputs[name] || ''
+    })
+
+    const result = parseInputs()
+
+    expect(result.reportOldContainers).toBe(true)
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('cleanup-old-containers is deprecated')
+    )
+  })
+
+  it('should parse a fractional canary error rate', () => {
+    mockGetInput.mockImplementation((name: string) => {
+      const inputs: Record<string, string> = {
+        'dokploy-url': 'https://dokploy.example.com',
+        'api-key': 'test-api-key',
+        'docker-image': 'nginx:latest',
+        'canary-max-error-rate': '0.5'
+      }
+      return inputs[name] || ''
+    })
+
+    expect(parseInputs().canaryMaxErrorRate).toBe(0.5)
+  })
+})
@@ -0,0 +1,27 @@
+/**
+ * Tests for deployment logs
+ */
+
+import * as core from '@actions/core'
+import { applicationLog } from '../src/log'
+
+jest.mock('@actions/core')
+
+describe('applicationLog', () => {
+  it('should prefix lines, turn groups into headings and leave outputs alone', () => {
+    const log = applicationLog('api')
+
+    log.startGroup('🚀 Deployment')
+    log.info('Deploying')
+    log.warning('Slow')
+    log.endGroup()
+    log.setOutput('application-id', 'app-1')
+
+    expect(core.info).toHaveBeenCalledWith('[api] 🚀 Deployment')
+    expect(core.info).toHaveBeenCalledWith('[api] Deploying')
+    expect(core.warning).toHaveBeenCalledWith('[api] Slow')
+    expect(core.startGroup).not.toHaveBeenCalled()
+    expect(core.endGroup).not.toHaveBeenCalled()
+    expect(core.setOutput).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Tests for the declarative config file
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { applyConfigFile, loadInputDefaults, parseManifest, resolveManifest } from '../src/manifest'
+import { ValidationError } from '../src/validators'
+
+jest.mock('@actions/core', () => ({
+  ...jest.requireActual('@actions/core'),
+  info: jest.fn(),
+  error: jest.fn()
+}))
+
+describe('config-file manifest', () => {
+  const knownInputs = new Set(['project-name', 'application-name', 'replicas', 'env', 'volumes'])
+
+  describe('loadInputDefaults', () => {
+    it('should read input names and defaults from action.yml', () => {
+      const defaults = loadInputDefaults()
+
+      expect(defaults['environment-name']).toBe('production')
+      expect(defaults['application-name']).toBe('')
+      expect(defaults['config-file']).toBe('')
+    })
+  })
+
+  describe('parseManifest', () => {
+    it('should convert values to input strings', () => {
+      const manifest = parseManifest(
+        [
+          'project-name: shop',
+          'replicas: 2',
+          'env:',
+          '  NODE_ENV: production',
+          '  PORT: 3000',
+          'volumes:',
+          '  - /data:/data',
+          '  - /logs:/logs'
+        ].join('\n'),
+        knownInputs
+      )
+
+      expect(manifest.values).toEqual({
+        'project-name': 'shop',
+        replicas: '2',
+        env: 'NODE_ENV=production\nPORT=3000',
+        volumes: '/data:/data\n/logs:/logs'
+      })
+    })
+
+    it('should accept JSON', () => {
+      const manifest = parseManifest(
+        '{"project-name": "shop", "environments": {"staging": {"replicas": 1}}}',
+        knownInputs
+      )
+
+      expect(manifest).toEqual({
+        values: { 'project-name': 'shop' },
+        environments: { staging: { replicas: '1' } }
+      })
+    })
+
+    it('should report unknown inputs, secrets and bad values as validation errors', () => {
+      expect(() =>
+        parseManifest(
+          [
+            'memory-limt: 512',
+            'api-key: hunter2',
+            'environments:',
+            '  staging:',
+            '    replicas: { min: 1 }'
+          ].join('\n'),
+          knownInputs
+        )
+      ).toThrow('config-file has 3 validation errors. See details above.')
+
+      const errors = (core.error as jest.Mock).mock.calls.map(call => call[0]).join('\n')
+      expect(errors).toContain('memory-limt is not a known input')
+      expect(errors).toContain('api-key must not be set in config-file')
+      expect(errors).toContain('environments.staging.replicas must be a string, number')
+      expect(errors).not.toContain('hunter2')
+    })
+
+    it('should reject a document that is not a mapping', () => {
+      expect(() => parseManifest('- shop', knownInputs)).toThrow(ValidationError)
+      expect(() => parseManifest('project-name: [', knownInputs)).toThrow(
+        'config-file is not valid YAML or JSON'
+      )
+    })
+  })
+
+  describe('resolveManifest', () => {
+    it('should apply the overrides of the selected environment', () => {
+      const manifest = {
+        values: { 'project-name': 'shop', replicas: '3' },
+        environments: { staging: { replicas: '1' } }
+      }
+
+      expect(resolveManifest(manifest, 'staging')).toEqual({
+        'project-name': 'shop',
+        replicas: '1'
+      })
+      expect(resolveManifest(manifest, 'production')).toEqual(manifest.values)
+    })
+  })
+
+  describe('applyConfigFile', () => {
+    const originalEnv = process.env
+    let workspace: string
+
+    beforeEach(() => {
+      workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-'))
+      process.env = { ...originalEnv, GITHUB_WORKSPACE: workspace }
+      fs.writeFileSync(
+        path.join(workspace, 'dokploy.yml'),
+        [
+          'project-name: shop',
+          'application-name: web',
+          'replicas: 3',
+          'health-check-retries: 20',
+          'environments:',
+          '  staging:',
+          '    replicas: 1',
+          '    memory-limit: 256'
+        ].join('\n')
+      )
+    })
+
+    afterEach(() => {
+      process.env = originalEnv
+      fs.rmSync(workspace, { recursive: true, force: true })
+    })
+
+    it('should fill in inputs that were not set explicitly', () => {
+      process.env['INPUT_CONFIG-FILE'] = 'dokploy.yml'
+      process.env['INPUT_ENVIRONMENT-NAME'] = 'staging'
+      process.env['INPUT_APPLICATION-NAME'] = 'api'
+      // Runner-provided default, not an explicit value
+      process.env['INPUT_HEALTH-CHECK-RETRIES'] = '10'
+
+      const applied = applyConfigFile()
+
+      expect(core.getInput('project-name')).toBe('shop')
+      expect(core.getInput('application-name')).toBe('api')
+      expect(core.getInput('replicas')).toBe('1')
+      expect(core.getInput('memory-limit')).toBe('256')
+      expect(core.getInput('health-check-retries')).toBe('20')
+      expect(applied).not.toContain('application-name')
+    })
+
+    it('should override an input set explicitly to its action.yml default', () => {
+      process.env['INPUT_CONFIG-FILE'] = 'dokploy.yml'
+      // replicas: 1 in the workflow is indistinguishable from the default
+      process.env['INPUT_REPLICAS'] = '1'
+
+      const applied = applyConfigFile()
+
+      expect(core.getInput('replicas')).toBe('3')
+      expect(applied).toContain('replicas')
+      expect(core.info).toHaveBeenCalledWith(
+        'ℹ️ replicas: using 3 from dokploy.yml instead of the action.yml default 1'
+      )
+    })
+
+    it('should do nothing without config-file', () => {
+      expect(applyConfigFile()).toEqual([])
+      expect(core.getInput('project-name')).toBe('')
+    })
+
+    it('should fail when the file does not exist', () => {
+      process.env['INPUT_CONFIG-FILE'] = 'missing.yml'
+
+      expect(() => applyConfigFile()).toThrow('config-file not found: missing.yml')
+    })
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Tests for the old container report
+ */
+
+import * as core from '@actions/core'
+import { reportOldContainers, selectStaleContainers } from '../src/old-containers'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { Container } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('selectStaleContainers', () => {
+  const containers: Container[] = [
+    { containerId: 'c1', name: 'myapp.1.aaa', state: 'running', createdAt: '2024-01-04T00:00:00Z' },
+    { containerId: 'c2', name: 'myapp.1.bbb', state: 'exited', createdAt: '2024-01-02T00:00:00Z' },
+    { containerId: 'c3', name: 'myapp.1.ccc', state: 'exited', createdAt: '2024-01-03T00:00:00Z' },
+    { containerId: 'c4', name: 'myapp.1.ddd', state: 'exited', createdAt: '2024-01-01T00:00:00Z' },
+    { containerId: 'c5', name: 'other.1.eee', state: 'exited', createdAt: '2024-01-01T00:00:00Z' }
+  ]
+
+  it('should keep newest stopped containers and never select running ones', () => {
+    const result = selectStaleContainers(containers, 'myapp', 1)
+
+    expect(result.map(c => c.containerId)).toEqual(['c2', 'c4'])
+  })
+
+  it('should filter by prefix', () => {
+    const result = selectStaleContainers(containers, 'other', 0)
+
+    expect(result.map(c => c.containerId)).toEqual(['c5'])
+  })
+
+  it('should keep everything when keep count exceeds matches', () => {
+    expect(selectStaleContainers(containers, 'myapp', 10)).toEqual([])
+  })
+
+  it('should preserve API order when timestamps are missing', () => {
+    const unordered: Container[] = [
+      { name: 'myapp.1.new', state: 'exited' },
+      { name: 'myapp.1.mid', state: 'exited' },
+      { name: 'myapp.1.old', state: 'exited' }
+    ]
+
+    const result = selectStaleContainers(unordered, 'myapp', 1)
+
+    expect(result.map(c => c.name)).toEqual(['myapp.1.mid', 'myapp.1.old'])
+  })
+})
+
+describe('reportOldContainers', () => {
+  it('should report stale containers without removing them', async () => {
+    const client = createMockClient({
+      getContainers: jest.fn().mockResolvedValue([
+        { name: 'myapp.1.new', state: 'exited' },
+        { name: 'myapp.1.old', state: 'exited' },
+        { name: 'myapp.1.older', state: 'exited' }
+      ])
+    })
+
+    const result = await reportOldContainers(client, {
+      appName: 'myapp',
+      serverId: 'srv-1',
+      keepCount: 1
+    })
+
+    expect(client.getContainers).toHaveBeenCalledWith('myapp', 'srv-1', undefined)
+    expect(result).toEqual({ found: 3, kept: 1, stale: ['myapp.1.old', 'myapp.1.older'] })
+    expect(core.warning).toHaveBeenCalledWith(expect.stringContaining('myapp.1.old, myapp.1.older'))
+  })
+})
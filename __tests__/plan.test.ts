@@ -0,0 +1,224 @@
+/**
+ * Tests for plan mode
+ */
+
+import { buildApplicationPlan, buildComposePlan, formatPlan } from '../src/plan'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('plan mode', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'ghcr.io/org/api:v2',
+    projectName: 'shop',
+    environmentName: 'production',
+    applicationName: 'api',
+    serverId: 'srv-1',
+    autoCreateResources: true
+  }
+
+  const existingProject = {
+    projectId: 'proj-1',
+    name: 'shop',
+    environments: [
+      {
+        environmentId: 'env-1',
+        name: 'production',
+        projectId: 'proj-1',
+        applications: [{ applicationId: 'app-1', name: 'api' }]
+      }
+    ]
+  }
+
+  const createClient = (overrides: Parameters<typeof createMockClient>[0] = {}) =>
+    createMockClient({
+      findProjectByName: jest.fn().mockResolvedValue(existingProject),
+      getProject: jest.fn().mockResolvedValue(existingProject),
+      resolveServerId: jest.fn().mockResolvedValue('srv-1'),
+      getApplication: jest.fn().mockResolvedValue({
+        applicationId: 'app-1',
+        name: 'api',
+        dockerImage: 'ghcr.io/org/api:v1',
+        replicas: 2,
+        env: 'LOG_LEVEL=info\nOLD_FLAG=1',
+        domains: [
+          {
+            domainId: 'dom-1',
+            host: 'api.example.com',
+            path: '/',
+            port: 8080,
+            https: true,
+            certificateType: 'letsencrypt'
+          }
+        ]
+      }),
+      ...overrides
+    })
+
+  it('should diff image, resources, env keys and domains of an existing application', async () => {
+    const client = createClient()
+
+    const plan = await buildApplicationPlan(client, {
+      ...mockInputs,
+      replicas: 3,
+      env: 'LOG_LEVEL=debug\nNEW_FLAG=1',
+      domainHost: 'api.example.com',
+      applicationPort: 8080
+    })
+
+    const byResource = Object.fromEntries(plan.changes.map(c => [c.resource, c]))
+    expect(byResource.project.action).toBe('no-op')
+    expect(byResource.environment.action).toBe('no-op')
+    expect(byResource.application.action).toBe('update')
+    expect(byResource.application.changes).toEqual([
+      { attribute: 'dockerImage', before: 'ghcr.io/org/api:v1', after: 'ghcr.io/org/api:v2' },
+      { attribute: 'replicas', before: '2', after: '3' }
+    ])
+    expect(byResource.env.changes).toEqual([
+      { attribute: 'LOG_LEVEL', before: '(sensitive)', after: '(sensitive)' },
+      { attribute: 'NEW_FLAG', after: '(sensitive)' },
+      { attribute: 'OLD_FLAG', before: '(sensitive)' }
+    ])
+    expect(byResource.domain.action).toBe('no-op')
+    expect(plan.summary).toEqual({ create: 0, update: 2, delete: 0, 'no-op': 3 })
+  })
+
+  it('should diff Swarm settings in their summary form', async () => {
+    const client = createClient({
+      getApplication: jest.fn().mockResolvedValue({
+        applicationId: 'app-1',
+        name: 'api',
+        dockerImage: 'ghcr.io/org/api:v2',
+        restartPolicySwarm: { Condition: 'any' },
+        placementSwarm: { Constraints: ['node.labels.region==eu'] }
+      })
+    })
+
+    const plan = await buildApplicationPlan(client, {
+      ...mockInputs,
+      restartPolicy: 'on-failure',
+      restartMaxAttempts: 3,
+      containerHealthCheck: 'curl -f http://localhost/health',
+      placementConstraints: ['node.labels.region==eu']
+    })
+
+    expect(plan.changes.find(c => c.resource === 'application')?.changes).toEqual([
+      { attribute: 'restartPolicySwarm', before: 'any', after: 'on-failure, up to 3 attempts' },
+      { attribute: 'healthCheckSwarm', before: undefined, after: 'curl -f http://localhost/health' }
+    ])
+  })
+
+  it('should plan creation of missing resources without mutating', async () => {
+    const client = createClient({
+      findProjectByName: jest.fn().mockResolvedValue(undefined),
+      createProject: jest.fn()
+    })
+
+    const plan = await buildApplicationPlan(client, {
+      ...mockInputs,
+      domainHost: 'api.example.com'
+    })
+
+    expect(plan.changes.map(c => `${c.action} ${c.resource}`)).toEqual([
+      'create project',
+      'create environment',
+      'create application',
+      'create domain'
+    ])
+    expect((client as unknown as { createProject: jest.Mock }).createProject).not.toHaveBeenCalled()
+  })
+
+  it('should fail like deploy when resources are missing and auto-create is disabled', async () => {
+    const client = createClient({ findProjectByName: jest.fn().mockResolvedValue(undefined) })
+
+    await expect(
+      buildApplicationPlan(client, { ...mockInputs, autoCreateResources: false })
+    ).rejects.toThrow('Project "shop" not found and auto-create is disabled')
+  })
+
+  it('should diff compose file and domains for compose deployments', async () => {
+    const client = createClient({
+      findComposeByName: jest.fn().mockResolvedValue({ composeId: 'cmp-1', name: 'stack' }),
+      getCompose: jest.fn().mockResolvedValue({
+        composeId: 'cmp-1',
+        name: 'stack',
+        composeFile: 'services: {}',
+        environmentId: 'env-1'
+      }),
+      getDomainsByComposeId: jest.fn().mockResolvedValue([])
+    })
+
+    const plan = await buildComposePlan(client, {
+      ...mockInputs,
+      deploymentType: 'compose',
+      composeName: 'stack',
+      composeRaw: 'services:\n  web:\n    image: nginx',
+      domainHost: 'stack.example.com'
+    })
+
+    expect(plan.changes.map(c => `${c.action} ${c.resource}`)).toEqual([
+      'no-op project',
+      'no-op environment',
+      'update compose',
+      'create domain'
+    ])
+  })
+
+  it('should diff every listed domain and plan removal of unlisted ones when pruning', async () => {
+    const client = createClient()
+
+    const plan = await buildApplicationPlan(client, {
+      ...mockInputs,
+      applicationPort: 8080,
+      domains: [{ host: 'www.example.com' }, { host: 'api.example.com', https: false }],
+      pruneDomains: true
+    })
+
+    const domains = plan.changes.filter(c => c.resource === 'domain')
+    expect(domains.map(c => `${c.action} ${c.name}`)).toEqual([
+      'create www.example.com',
+      'update api.example.com'
+    ])
+    expect(domains[1].changes).toEqual([{ attribute: 'https', before: 'true', after: 'false' }])
+
+    const pruned = await buildApplicationPlan(client, {
+      ...mockInputs,
+      domains: [{ host: 'www.example.com' }],
+      pruneDomains: true
+    })
+    expect(
+      pruned.changes.filter(c => c.resource === 'domain').map(c => `${c.action} ${c.name}`)
+    ).toEqual(['create www.example.com', 'delete api.example.com'])
+  })
+
+  it('should format a Terraform-style plan', () => {
+    const text = formatPlan({
+      deploymentType: 'application',
+      changes: [
+        { resource: 'project', name: 'shop', action: 'no-op', changes: [] },
+        {
+          resource: 'application',
+          name: 'api',
+          action: 'update',
+          changes: [{ attribute: 'dockerImage', before: 'v1', after: 'v2' }]
+        },
+        { resource: 'domain', name: 'api.example.com/', action: 'create', changes: [] }
+      ],
+      summary: { create: 1, update: 1, delete: 0, 'no-op': 1 }
+    })
+
+    expect(text).toBe(
+      [
+        '  project "shop" (no changes)',
+        '~ application "api"',
+        '    ~ dockerImage: v1 → v2',
+        '+ domain "api.example.com/"',
+        '',
+        'Plan: 1 to create, 1 to update, 0 to delete, 1 unchanged.'
+      ].join('\n')
+    )
+  })
+})
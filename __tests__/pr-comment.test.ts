@@ -0,0 +1,165 @@
+/**
+ * Tests for the sticky pull request comment
+ */
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { buildCommentBody, commentMarker, upsertPullRequestComment } from '../src/pr-comment'
+import { createDeploymentReport } from '../src/summary'
+import type { DeploymentReport } from '../src/summary'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+jest.mock('@actions/github', () => ({
+  getOctokit: jest.fn(),
+  context: {
+    repo: { owner: 'acme', repo: 'shop' },
+    sha: 'abc1234def',
+    runId: 42,
+    serverUrl: 'https://github.com',
+    payload: {}
+  }
+}))
+
+describe('pull request comment', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'ghcr.io/acme/shop:pr-12',
+    applicationName: 'shop',
+    environmentName: 'staging',
+    githubToken: 'gh-token'
+  }
+
+  const octokit = {
+    paginate: jest.fn(),
+    rest: {
+      issues: {
+        listComments: jest.fn(),
+        createComment: jest.fn(),
+        updateComment: jest.fn()
+      }
+    }
+  }
+
+  let report: DeploymentReport
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    github.context.payload = { pull_request: { number: 12 } }
+    ;(github.getOctokit as jest.Mock).mockReturnValue(octokit)
+    octokit.paginate.mockResolvedValue([])
+
+    report = createDeploymentReport(mockInputs)
+    Object.assign(report, {
+      status: 'success',
+      startedAt: 0,
+      finishedAt: 45_000,
+      deploymentUrl: 'https://pr-12.example.com',
+      healthStatus: 'healthy'
+    })
+  })
+
+  it('should identify the comment per environment and application', () => {
+    expect(commentMarker(mockInputs, report)).toBe('<!-- dokploy-deploy:staging/shop -->')
+    expect(commentMarker({ ...mockInputs, environmentName: 'preview' }, report)).toBe(
+      '<!-- dokploy-deploy:preview/shop -->'
+    )
+  })
+
+  it('should show image, URL, health and timing', () => {
+    const body = buildCommentBody(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(body).toContain('<!-- dokploy-deploy:staging/shop -->')
+    expect(body).toContain('| Status | ✅ Deployed |')
+    expect(body).toContain('| Image | `ghcr.io/acme/shop:pr-12` |')
+    expect(body).toContain('| URL | https://pr-12.example.com |')
+    expect(body).toContain('| Health | healthy |')
+    expect(body).toContain('| Duration | 45s |')
+    expect(body).toContain('| Commit | abc1234 |')
+    expect(body).toContain('[Workflow run](https://github.com/acme/shop/actions/runs/42)')
+  })
+
+  it('should keep the marker of the application and show the slot it went to', () => {
+    report.slot = 'green'
+
+    const body = buildCommentBody(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(body).toContain('<!-- dokploy-deploy:staging/shop -->')
+    expect(body).toContain('| Slot | `green` |')
+  })
+
+  it('should include the error of a failed deployment', () => {
+    Object.assign(report, { status: 'failed', error: 'Health check failed\nafter 3 attempts' })
+
+    const body = buildCommentBody(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(body).toContain('| Status | ❌ Failed |')
+    expect(body).toContain('**Error:** Health check failed after 3 attempts')
+  })
+
+  it('should escape HTML in the error', () => {
+    Object.assign(report, { status: 'failed', error: 'Unexpected <html> --> <img src=x>' })
+
+    const body = buildCommentBody(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(body).toContain('**Error:** Unexpected &lt;html&gt; --&gt; &lt;img src=x&gt;')
+    expect(body).not.toContain('<img')
+  })
+
+  it('should create the comment on the first deployment', async () => {
+    await upsertPullRequestComment(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(octokit.paginate).toHaveBeenCalledWith(octokit.rest.issues.listComments, {
+      owner: 'acme',
+      repo: 'shop',
+      issue_number: 12,
+      per_page: 100
+    })
+    expect(octokit.rest.issues.createComment).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'shop',
+      issue_number: 12,
+      body: expect.stringContaining('<!-- dokploy-deploy:staging/shop -->')
+    })
+    expect(octokit.rest.issues.updateComment).not.toHaveBeenCalled()
+  })
+
+  it('should update the existing comment in place', async () => {
+    octokit.paginate.mockResolvedValue([
+      { id: 1, body: 'Looks good' },
+      { id: 2, body: '<!-- dokploy-deploy:production/shop -->\nold' },
+      { id: 3, body: '<!-- dokploy-deploy:staging/shop -->\nold' }
+    ])
+
+    await upsertPullRequestComment(mockInputs, report, 'https://dokploy.example.com')
+
+    expect(octokit.rest.issues.updateComment).toHaveBeenCalledWith({
+      owner: 'acme',
+      repo: 'shop',
+      comment_id: 3,
+      body: expect.stringContaining('| Health | healthy |')
+    })
+    expect(octokit.rest.issues.createComment).not.toHaveBeenCalled()
+  })
+
+  it('should skip outside pull requests, when disabled or without a token', async () => {
+    await upsertPullRequestComment({ ...mockInputs, prComment: false }, report, '')
+    await upsertPullRequestComment({ ...mockInputs, githubToken: undefined }, report, '')
+    github.context.payload = {}
+    await upsertPullRequestComment(mockInputs, report, '')
+
+    expect(github.getOctokit).not.toHaveBeenCalled()
+  })
+
+  it('should warn instead of failing when GitHub rejects the comment', async () => {
+    octokit.rest.issues.createComment.mockRejectedValue(new Error('Resource not accessible'))
+
+    await expect(
+      upsertPullRequestComment(mockInputs, report, 'https://dokploy.example.com')
+    ).resolves.toBeUndefined()
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('Could not update pull request comment: Resource not accessible')
+    )
+  })
+})
@@ -0,0 +1,121 @@
+/**
+ * Tests for ephemeral preview environments
+ */
+
+import * as github from '@actions/github'
+import { destroyPreviewEnvironment, previewDomainHost, resolvePreviewInputs } from '../src/preview'
+import { ValidationError } from '../src/validators'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+jest.mock('@actions/github', () => ({
+  context: { payload: {} }
+}))
+
+describe('preview environments', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'ghcr.io/acme/shop:pr-123',
+    mode: 'preview',
+    projectName: 'shop',
+    environmentName: 'production',
+    applicationName: 'web',
+    autoCreateResources: false,
+    previewDomainTemplate: '{environment}.preview.example.com'
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    github.context.payload = { pull_request: { number: 123 } }
+  })
+
+  describe('previewDomainHost', () => {
+    it('should fill the number and environment placeholders', () => {
+      expect(previewDomainHost('{environment}.preview.example.com', 123)).toBe(
+        'pr-123.preview.example.com'
+      )
+      expect(previewDomainHost('shop-{number}.example.com', 7)).toBe('shop-7.example.com')
+    })
+  })
+
+  describe('resolvePreviewInputs', () => {
+    it('should derive environment and host from the pull request', () => {
+      const inputs = resolvePreviewInputs({ ...mockInputs, environmentId: 'env-prod' })
+
+      expect(inputs).toMatchObject({
+        environmentName: 'pr-123',
+        environmentId: undefined,
+        domainHost: 'pr-123.preview.example.com',
+        autoCreateResources: true,
+        applicationName: 'web'
+      })
+    })
+
+    it('should prefer preview-pr-number over the event payload', () => {
+      const inputs = resolvePreviewInputs({ ...mockInputs, previewPrNumber: 45 })
+
+      expect(inputs.environmentName).toBe('pr-45')
+    })
+
+    it('should keep domain-host without a template', () => {
+      const inputs = resolvePreviewInputs({
+        ...mockInputs,
+        previewDomainTemplate: undefined,
+        domainHost: 'shared.example.com'
+      })
+
+      expect(inputs.domainHost).toBe('shared.example.com')
+    })
+
+    it('should fail outside pull requests without preview-pr-number', () => {
+      github.context.payload = {}
+
+      expect(() => resolvePreviewInputs(mockInputs)).toThrow(ValidationError)
+    })
+  })
+
+  describe('destroyPreviewEnvironment', () => {
+    const createPreviewClient = () =>
+      createMockClient({
+        findProjectByName: jest.fn().mockResolvedValue({ projectId: 'proj-1', name: 'shop' }),
+        findEnvironmentInProject: jest
+          .fn()
+          .mockResolvedValue({ environmentId: 'env-123', name: 'pr-123', projectId: 'proj-1' })
+      })
+
+    it('should remove the environment of the pull request', async () => {
+      const client = createPreviewClient()
+
+      const result = await destroyPreviewEnvironment(client, {
+        ...mockInputs,
+        mode: 'destroy-preview'
+      })
+
+      expect(client.findEnvironmentInProject).toHaveBeenCalledWith('proj-1', 'pr-123')
+      expect(client.removeEnvironment).toHaveBeenCalledWith('env-123')
+      expect(result).toEqual({ environmentName: 'pr-123', environmentId: 'env-123' })
+    })
+
+    it('should do nothing when the environment is already gone', async () => {
+      const client = createPreviewClient()
+      client.findEnvironmentInProject.mockResolvedValue(undefined)
+
+      const result = await destroyPreviewEnvironment(client, mockInputs)
+
+      expect(client.removeEnvironment).not.toHaveBeenCalled()
+      expect(result).toEqual({ environmentName: 'pr-123' })
+    })
+
+    it('should do nothing when the project does not exist', async () => {
+      const client = createPreviewClient()
+      client.findProjectByName.mockResolvedValue(undefined)
+
+      const result = await destroyPreviewEnvironment(client, mockInputs)
+
+      expect(client.findEnvironmentInProject).not.toHaveBeenCalled()
+      expect(result).toEqual({ environmentName: 'pr-123' })
+    })
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * Tests for the recreate strategy's maintenance page
+ */
+
+import {
+  endMaintenance,
+  healthCheckRoute,
+  maintenanceApplicationName,
+  startMaintenance
+} from '../src/recreate'
+import { createMockClient, projectWithApplications } from './fixtures/dokploy-client'
+import type { ActionInputs, Domain } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('recreate', () => {
+  const scope = { projectId: 'proj-1', environmentId: 'env-1', serverId: 'srv-1' }
+  const production: Partial<Domain> = {
+    host: 'app.example.com',
+    port: 3000,
+    path: '/',
+    https: true
+  }
+  const inputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'key',
+    dockerImage: 'nginx:latest',
+    applicationName: 'web',
+    healthCheckPath: '/healthz',
+    maintenanceImage: 'ghcr.io/acme/maintenance:1'
+  } as ActionInputs
+
+  const createRecreateClient = (applications: { applicationId: string; name: string }[] = []) =>
+    createMockClient({
+      getProject: jest.fn().mockResolvedValue(projectWithApplications(applications)),
+      getDomains: jest.fn(async (applicationId: string) =>
+        applicationId === 'app-1' ? [{ domainId: 'dom-app', host: 'app.example.com' }] : []
+      ),
+      createApplication: jest.fn().mockResolvedValue('app-maint'),
+      deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'dep-1' }),
+      waitForDeployment: jest.fn().mockResolvedValue({ status: 'done' }),
+      createDomain: jest.fn().mockResolvedValue({ domainId: 'dom-maint' }),
+      updateDomain: jest.fn().mockResolvedValue({})
+    })
+
+  it('should derive the maintenance application name and health check route', () => {
+    expect(maintenanceApplicationName('web')).toBe('web-maintenance')
+    expect(healthCheckRoute(production, inputs)).toEqual({ ...production, path: '/healthz' })
+    expect(healthCheckRoute(production, { ...inputs, healthCheckPath: undefined }).path).toBe(
+      '/health'
+    )
+  })
+
+  describe('startMaintenance', () => {
+    it('should serve the host from the maintenance application', async () => {
+      const client = createRecreateClient()
+
+      const window = await startMaintenance(client, scope, inputs, 'app-1', production)
+
+      expect(window).toEqual({
+        maintenanceId: 'app-maint',
+        maintenanceDomainId: 'dom-maint',
+        applicationDomainId: 'dom-app'
+      })
+      expect(client.createApplication).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'web-maintenance', environmentId: 'env-1' })
+      )
+      expect(client.saveDockerProvider).toHaveBeenCalledWith(
+        'app-maint',
+        'ghcr.io/acme/maintenance:1',
+        undefined,
+        undefined,
+        undefined
+      )
+      expect(client.waitForDeployment).toHaveBeenCalledWith('dep-1', 300)
+      expect(client.createDomain).toHaveBeenCalledWith('app-maint', { ...production, port: 80 })
+      expect(client.updateDomain).toHaveBeenCalledWith('dom-app', {
+        ...production,
+        path: '/healthz'
+      })
+    })
+
+    it('should reuse an existing maintenance application', async () => {
+      const client = createRecreateClient([{ applicationId: 'app-old', name: 'web-maintenance' }])
+
+      const window = await startMaintenance(
+        client,
+        scope,
+        { ...inputs, maintenancePort: 8080 },
+        'app-1',
+        production
+      )
+
+      expect(window?.maintenanceId).toBe('app-old')
+      expect(client.createApplication).not.toHaveBeenCalled()
+      expect(client.createDomain).toHaveBeenCalledWith('app-old', { ...production, port: 8080 })
+    })
+
+    it('should reuse the maintenance domain a failed run left behind', async () => {
+      const client = createRecreateClient([{ applicationId: 'app-old', name: 'web-maintenance' }])
+      client.getDomains.mockImplementation(async (applicationId: string) => [
+        { domainId: applicationId === 'app-1' ? 'dom-app' : 'dom-left', host: 'app.example.com' }
+      ])
+
+      const window = await startMaintenance(client, scope, inputs, 'app-1', production)
+
+      expect(window?.maintenanceDomainId).toBe('dom-left')
+      expect(client.createDomain).not.toHaveBeenCalled()
+      expect(client.updateDomain).toHaveBeenCalledWith('dom-left', { ...production, port: 80 })
+    })
+
+    it('should skip the maintenance page when the host is not served yet', async () => {
+      const client = createRecreateClient()
+      client.getDomains.mockResolvedValue([])
+
+      await expect(
+        startMaintenance(client, scope, inputs, 'app-1', production)
+      ).resolves.toBeUndefined()
+      expect(client.createApplication).not.toHaveBeenCalled()
+      expect(client.updateDomain).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('endMaintenance', () => {
+    it('should hand the host back before stopping the maintenance application', async () => {
+      const client = createRecreateClient()
+      const window = {
+        maintenanceId: 'app-maint',
+        maintenanceDomainId: 'dom-maint',
+        applicationDomainId: 'dom-app'
+      }
+
+      await endMaintenance(client, window, production)
+
+      expect(client.updateDomain).toHaveBeenCalledWith('dom-app', production)
+      expect(client.removeDomain).toHaveBeenCalledWith('dom-maint')
+      expect(client.stopApplication).toHaveBeenCalledWith('app-maint')
+      expect(client.updateDomain.mock.invocationCallOrder[0]).toBeLessThan(
+        client.removeDomain.mock.invocationCallOrder[0]
+      )
+    })
+  })
+})
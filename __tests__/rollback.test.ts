@@ -0,0 +1,226 @@
+/**
+ * Tests for rollback on deployment failure
+ */
+
+import { captureRollbackSnapshot, findRollbackDeployment, performRollback } from '../src/rollback'
+import { performHealthCheck } from '../src/health-check'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+jest.mock('../src/health-check')
+
+describe('rollback', () => {
+  const mockPerformHealthCheck = performHealthCheck as jest.MockedFunction<
+    typeof performHealthCheck
+  >
+
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'ghcr.io/org/app:v2',
+    waitForDeployment: true,
+    healthCheckEnabled: true
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPerformHealthCheck.mockResolvedValue('healthy')
+  })
+
+  describe('captureRollbackSnapshot', () => {
+    it('should record previous image and rollback ID of last successful deployment', async () => {
+      const client = createMockClient({
+        getApplication: jest.fn().mockResolvedValue({
+          dockerImage: 'ghcr.io/org/app:v1',
+          registryUrl: 'ghcr.io',
+          username: 'bot'
+        }),
+        getDeployments: jest.fn().mockResolvedValue([
+          {
+            deploymentId: 'd-old',
+            status: 'completed',
+            createdAt: '2024-01-01',
+            rollbackId: 'rb-old'
+          },
+          { deploymentId: 'd-failed', status: 'failed', createdAt: '2024-01-03' },
+          {
+            deploymentId: 'd-good',
+            status: 'completed',
+            createdAt: '2024-01-02',
+            rollbackId: 'rb-good'
+          }
+        ])
+      })
+
+      const snapshot = await captureRollbackSnapshot(client, 'app-1')
+
+      expect(snapshot).toEqual({
+        applicationId: 'app-1',
+        dockerImage: 'ghcr.io/org/app:v1',
+        registryUrl: 'ghcr.io',
+        username: 'bot',
+        password: undefined,
+        deploymentId: 'd-good',
+        rollbackId: 'rb-good'
+      })
+    })
+
+    it('should return null when application has no image yet', async () => {
+      const client = createMockClient({
+        getApplication: jest.fn().mockResolvedValue({ name: 'app' }),
+        getDeployments: jest.fn()
+      })
+
+      const snapshot = await captureRollbackSnapshot(client, 'app-1')
+
+      expect(snapshot).toBeNull()
+      expect(client.getDeployments).not.toHaveBeenCalled()
+    })
+
+    it('should return null instead of throwing when lookup fails', async () => {
+      const client = createMockClient({
+        getApplication: jest.fn().mockRejectedValue(new Error('API Error'))
+      })
+
+      const snapshot = await captureRollbackSnapshot(client, 'app-1')
+
+      expect(snapshot).toBeNull()
+    })
+  })
+
+  describe('findRollbackDeployment', () => {
+    // Newest first, the way deployment.all returns them
+    const deployments = [
+      {
+        applicationId: 'app-1',
+        deploymentId: 'd-later',
+        status: 'completed' as const,
+        createdAt: '2024-01-05T00:00:00Z'
+      },
+      {
+        applicationId: 'app-1',
+        deploymentId: 'd-rollback',
+        status: 'deploying' as const,
+        createdAt: '2024-01-04T00:00:00Z'
+      },
+      {
+        applicationId: 'app-1',
+        deploymentId: 'd-failed',
+        status: 'failed' as const,
+        createdAt: '2024-01-03T00:00:00Z'
+      },
+      {
+        applicationId: 'app-1',
+        deploymentId: 'd-good',
+        status: 'completed' as const,
+        createdAt: '2024-01-02T00:00:00Z'
+      }
+    ]
+
+    it('should pick the first deployment after the failed one, not the newest', () => {
+      expect(findRollbackDeployment(deployments, 'd-failed', ['d-good'])?.deploymentId).toBe(
+        'd-rollback'
+      )
+    })
+
+    it('should never pick the failed deployment or one that existed before it', () => {
+      expect(findRollbackDeployment(deployments.slice(2), 'd-failed', [])).toBeUndefined()
+    })
+  })
+
+  describe('performRollback', () => {
+    it('should use rollback API when a rollback ID was recorded', async () => {
+      const client = createMockClient({
+        rollbackDeployment: jest.fn().mockResolvedValue(undefined),
+        getDeployments: jest.fn().mockResolvedValue([
+          { deploymentId: 'd-later', status: 'completed', createdAt: '2024-01-04' },
+          { deploymentId: 'd-rollback', createdAt: '2024-01-03' },
+          { deploymentId: 'd-failed', createdAt: '2024-01-02' }
+        ]),
+        waitForDeployment: jest.fn().mockResolvedValue({ status: 'completed' }),
+        saveDockerProvider: jest.fn()
+      })
+
+      const result = await performRollback(
+        client,
+        { applicationId: 'app-1', dockerImage: 'ghcr.io/org/app:v1', rollbackId: 'rb-1' },
+        mockInputs,
+        'https://app.example.com',
+        'd-failed'
+      )
+
+      expect(result).toEqual({ status: 'success', rolledBackTo: 'ghcr.io/org/app:v1' })
+      expect(client.rollbackDeployment).toHaveBeenCalledWith('rb-1')
+      expect(client.saveDockerProvider).not.toHaveBeenCalled()
+      expect(client.waitForDeployment).toHaveBeenCalledWith(
+        'd-rollback',
+        300,
+        undefined,
+        undefined,
+        expect.anything()
+      )
+      expect(mockPerformHealthCheck).toHaveBeenCalledWith(
+        'https://app.example.com',
+        mockInputs,
+        undefined,
+        expect.anything()
+      )
+    })
+
+    it('should re-save previous image and redeploy without a rollback ID', async () => {
+      const client = createMockClient({
+        saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+        deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'd-redeploy' }),
+        waitForDeployment: jest.fn().mockResolvedValue({ status: 'completed' })
+      })
+
+      const result = await performRollback(
+        client,
+        {
+          applicationId: 'app-1',
+          dockerImage: 'ghcr.io/org/app:v1',
+          registryUrl: 'ghcr.io',
+          username: 'bot',
+          password: 'secret'
+        },
+        { ...mockInputs, deploymentTimeout: 120 }
+      )
+
+      expect(result.status).toBe('success')
+      expect(client.saveDockerProvider).toHaveBeenCalledWith(
+        'app-1',
+        'ghcr.io/org/app:v1',
+        'ghcr.io',
+        'bot',
+        'secret'
+      )
+      expect(client.waitForDeployment).toHaveBeenCalledWith(
+        'd-redeploy',
+        120,
+        undefined,
+        undefined,
+        expect.anything()
+      )
+      expect(mockPerformHealthCheck).not.toHaveBeenCalled()
+    })
+
+    it('should report failure when rolled back version is unhealthy', async () => {
+      mockPerformHealthCheck.mockResolvedValue('unhealthy')
+      const client = createMockClient({
+        saveDockerProvider: jest.fn().mockResolvedValue(undefined),
+        deployApplication: jest.fn().mockResolvedValue({ deploymentId: 'd-redeploy' }),
+        waitForDeployment: jest.fn().mockResolvedValue({ status: 'completed' })
+      })
+
+      const result = await performRollback(
+        client,
+        { applicationId: 'app-1', dockerImage: 'ghcr.io/org/app:v1' },
+        mockInputs,
+        'https://app.example.com'
+      )
+
+      expect(result).toEqual({ status: 'failed', rolledBackTo: 'ghcr.io/org/app:v1' })
+    })
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Tests for status mode
+ */
+
+import { formatServiceStatus, latestDeployments, queryServiceStatus } from '../src/status'
+import { createMockClient } from './fixtures/dokploy-client'
+import type { ActionInputs, Deployment } from '../src/types/dokploy'
+
+jest.mock('@actions/core')
+
+describe('status mode', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: '',
+    mode: 'status',
+    projectName: 'shop',
+    environmentName: 'production',
+    applicationName: 'web'
+  }
+
+  const deployments: Deployment[] = [
+    {
+      deploymentId: 'dep-1',
+      applicationId: 'app-1',
+      title: 'v1',
+      status: 'completed',
+      createdAt: '2024-11-01T10:00:00.000Z'
+    },
+    {
+      deploymentId: 'dep-3',
+      applicationId: 'app-1',
+      title: 'v3',
+      status: 'failed',
+      createdAt: '2024-11-03T10:00:00.000Z'
+    },
+    {
+      deploymentId: 'dep-2',
+      applicationId: 'app-1',
+      title: 'v2',
+      status: 'completed',
+      createdAt: '2024-11-02T10:00:00.000Z'
+    }
+  ]
+
+  const createStatusClient = () =>
+    createMockClient({
+      findProjectByName: jest.fn().mockResolvedValue({ projectId: 'proj-1', name: 'shop' }),
+      findEnvironmentInProject: jest
+        .fn()
+        .mockResolvedValue({ environmentId: 'env-1', name: 'production', projectId: 'proj-1' }),
+      getEnvironment: jest.fn().mockResolvedValue({
+        environmentId: 'env-1',
+        name: 'production',
+        projectId: 'proj-1',
+        applications: [{ applicationId: 'app-1', name: 'web' }]
+      }),
+      getApplication: jest.fn().mockResolvedValue({
+        applicationId: 'app-1',
+        name: 'web',
+        dockerImage: 'ghcr.io/acme/web:v3',
+        applicationStatus: 'done',
+        replicas: 2,
+        domains: [{ host: 'web.example.com' }]
+      }),
+      getDeployments: jest.fn().mockResolvedValue(deployments)
+    })
+
+  describe('latestDeployments', () => {
+    it('should return the newest deployments first', () => {
+      expect(latestDeployments(deployments, 2).map(d => d.deploymentId)).toEqual(['dep-3', 'dep-2'])
+    })
+  })
+
+  describe('queryServiceStatus', () => {
+    it('should report image, status, replicas, domains and recent deployments', async () => {
+      const client = createStatusClient()
+
+      const status = await queryServiceStatus(client, { ...mockInputs, historyCount: 2 })
+
+      expect(client.getDeployments).toHaveBeenCalledWith('app-1')
+      expect(status).toEqual({
+        type: 'application',
+        id: 'app-1',
+        name: 'web',
+        image: 'ghcr.io/acme/web:v3',
+        status: 'done',
+        replicas: 2,
+        domains: ['web.example.com'],
+        deployments: [
+          {
+            deploymentId: 'dep-3',
+            title: 'v3',
+            status: 'failed',
+            createdAt: '2024-11-03T10:00:00.000Z',
+            completedAt: undefined
+          },
+          {
+            deploymentId: 'dep-2',
+            title: 'v2',
+            status: 'completed',
+            createdAt: '2024-11-02T10:00:00.000Z',
+            completedAt: undefined
+          }
+        ]
+      })
+    })
+
+    it('should use the compose deployment history for compose services', async () => {
+      const client = createStatusClient()
+      client.findComposeByName.mockResolvedValue({
+        composeId: 'compose-1',
+        name: 'stack',
+        environmentId: 'env-1'
+      })
+      client.getCompose.mockResolvedValue({
+        composeId: 'compose-1',
+        name: 'stack',
+        composeStatus: 'running'
+      })
+
+      const status = await queryServiceStatus(client, {
+        ...mockInputs,
+        deploymentType: 'compose',
+        composeName: 'stack'
+      })
+
+      expect(client.getComposeDeployments).toHaveBeenCalledWith('compose-1')
+      expect(status).toMatchObject({ type: 'compose', status: 'running', deployments: [] })
+      expect(status.image).toBeUndefined()
+    })
+
+    it('should fail when the service does not exist', async () => {
+      const client = createStatusClient()
+      client.findEnvironmentInProject.mockResolvedValue(undefined)
+
+      await expect(queryServiceStatus(client, mockInputs)).rejects.toThrow(
+        'application "web" not found'
+      )
+    })
+  })
+
+  describe('formatServiceStatus', () => {
+    it('should list the service state and its deployments', async () => {
+      const status = await queryServiceStatus(createStatusClient(), mockInputs)
+
+      const output = formatServiceStatus(status)
+
+      expect(output).toContain('Application: web (app-1)')
+      expect(output).toContain('Image:    ghcr.io/acme/web:v3')
+      expect(output).toContain('Domains:  web.example.com')
+      expect(output).toContain('dep-3  failed     2024-11-03T10:00:00.000Z  v3')
+    })
+  })
+})
@@ -0,0 +1,162 @@
+/**
+ * Tests for the job summary report
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { createDeploymentReport, dokployServiceUrl, writeDeploymentSummary } from '../src/summary'
+import type { ActionInputs } from '../src/types/dokploy'
+
+describe('job summary', () => {
+  const mockInputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'ghcr.io/acme/api:v2',
+    applicationName: 'api',
+    memoryLimit: 512,
+    replicas: 2
+  }
+
+  // core.summary caches the summary file path, so one file serves every test
+  const originalSummary = process.env.GITHUB_STEP_SUMMARY
+  const summaryDir = fs.mkdtempSync(path.join(os.tmpdir(), 'summary-'))
+  const summaryFile = path.join(summaryDir, 'summary.md')
+
+  beforeEach(() => {
+    fs.writeFileSync(summaryFile, '')
+    process.env.GITHUB_STEP_SUMMARY = summaryFile
+    core.summary.emptyBuffer()
+  })
+
+  afterAll(() => {
+    fs.rmSync(summaryDir, { recursive: true, force: true })
+    process.env.GITHUB_STEP_SUMMARY = originalSummary
+  })
+
+  it('should start a report with the requested resources and image', () => {
+    const report = createDeploymentReport(mockInputs)
+
+    expect(report).toMatchObject({
+      deploymentType: 'application',
+      name: 'api',
+      imageAfter: 'ghcr.io/acme/api:v2',
+      resources: [
+        ['Memory limit', '512MB'],
+        ['Replicas', '2']
+      ]
+    })
+  })
+
+  it('should list the rolling update config with the resources', () => {
+    const report = createDeploymentReport({ ...mockInputs, updateOrder: 'start-first' })
+
+    expect(report.resources).toContainEqual(['Update config', '1 at a time, start-first'])
+  })
+
+  it('should list the Swarm restart policy, container health check and placement', () => {
+    const report = createDeploymentReport({
+      ...mockInputs,
+      restartPolicy: 'unless-stopped',
+      restartDelay: 5,
+      containerHealthCheck: 'curl -f http://localhost/health',
+      containerHealthCheckInterval: 30,
+      placementConstraints: ['node.labels.region==eu'],
+      placementPreferences: ['spread=node.labels.zone']
+    })
+
+    expect(report.resources).toEqual(
+      expect.arrayContaining([
+        ['Restart policy', 'any, delay 5s'],
+        ['Container health check', 'curl -f http://localhost/health, every 30s'],
+        ['Placement', 'node.labels.region==eu, spread node.labels.zone']
+      ])
+    )
+  })
+
+  it('should link to the service in the Dokploy dashboard once IDs are known', () => {
+    const report = createDeploymentReport(mockInputs)
+    expect(dokployServiceUrl('https://dokploy.example.com/', report)).toBeUndefined()
+
+    Object.assign(report, { projectId: 'p1', environmentId: 'e1', serviceId: 'a1' })
+
+    expect(dokployServiceUrl('https://dokploy.example.com/', report)).toBe(
+      'https://dokploy.example.com/dashboard/project/p1/environment/e1/services/application/a1'
+    )
+  })
+
+  it('should write IDs, images, domains, health attempts and old containers', async () => {
+    const report = createDeploymentReport(mockInputs)
+    Object.assign(report, {
+      status: 'success',
+      startedAt: 0,
+      finishedAt: 83_000,
+      projectId: 'p1',
+      environmentId: 'e1',
+      serverId: 's1',
+      serviceId: 'a1',
+      deploymentId: 'd1',
+      imageBefore: 'ghcr.io/acme/api:v1',
+      deploymentUrl: 'https://api.example.com',
+      healthStatus: 'healthy',
+      oldContainers: { found: 3, kept: 1, stale: ['web.1.old', 'web.1.older'] }
+    })
+    report.domains.push({ host: 'api.example.com', change: 'created' })
+    report.healthAttempts.push(
+      { attempt: 1, latencyMs: 12, error: 'Connection refused' },
+      { attempt: 2, statusCode: 200, latencyMs: 35 }
+    )
+
+    await writeDeploymentSummary(report, 'https://dokploy.example.com')
+    const markdown = fs.readFileSync(summaryFile, 'utf-8')
+
+    expect(markdown).toContain('✅ Dokploy deployment succeeded')
+    expect(markdown).toContain('<td>Application (api)</td><td><code>a1</code></td>')
+    expect(markdown).toContain('<td>Duration</td><td>1m 23s</td>')
+    expect(markdown).toContain('<td>Image before</td><td><code>ghcr.io/acme/api:v1</code></td>')
+    expect(markdown).toContain('<td>Memory limit</td><td>512MB</td>')
+    expect(markdown).toContain('<li>api.example.com (created)</li>')
+    expect(markdown).toContain('Health check: healthy')
+    expect(markdown).toContain('<td>2</td><td>HTTP 200</td><td>35ms</td>')
+    expect(markdown).toContain('3 containers found, 1 kept, 2 old stopped containers to remove on the server')
+    expect(markdown).toContain(
+      'href="https://dokploy.example.com/dashboard/project/p1/environment/e1/services/application/a1"'
+    )
+  })
+
+  it('should report failures with the escaped error message', async () => {
+    const report = createDeploymentReport(mockInputs)
+    Object.assign(report, { status: 'failed', error: 'Expected <200> got 500' })
+
+    await writeDeploymentSummary(report, 'https://dokploy.example.com')
+    const markdown = fs.readFileSync(summaryFile, 'utf-8')
+
+    expect(markdown).toContain('❌ Dokploy deployment failed')
+    expect(markdown).toContain('Expected &lt;200&gt; got 500')
+    expect(markdown).toContain('<td>Deployment</td><td>—</td>')
+    expect(markdown).not.toContain('Open application in Dokploy')
+  })
+
+  it('should escape markup in images, URLs and health check errors', async () => {
+    const report = createDeploymentReport(mockInputs)
+    Object.assign(report, {
+      status: 'success',
+      imageBefore: 'app:<none>',
+      deploymentUrl: 'https://api.example.com/?a=1&b="2"'
+    })
+    report.healthAttempts.push({
+      attempt: 1,
+      latencyMs: 12,
+      error: 'Body: <html>Bad & gone</html>'
+    })
+
+    await writeDeploymentSummary(report, 'https://dokploy.example.com')
+    const markdown = fs.readFileSync(summaryFile, 'utf-8')
+
+    expect(markdown).toContain('<code>app:&lt;none&gt;</code>')
+    expect(markdown).toContain('href="https://api.example.com/?a=1&amp;b=&quot;2&quot;"')
+    expect(markdown).toContain('Error: Body: &lt;html&gt;Bad &amp; gone&lt;/html&gt;')
+    expect(markdown).not.toContain('<html>')
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Tests for the Docker Swarm service settings
+ */
+
+import {
+  buildHealthCheckSwarm,
+  buildPlacementSwarm,
+  buildRestartPolicySwarm,
+  buildRollbackConfigSwarm,
+  buildUpdateConfigSwarm,
+  formatHealthCheck,
+  formatUpdateConfig
+} from '../src/swarm'
+import type { ActionInputs } from '../src/types/dokploy'
+
+describe('swarm', () => {
+  const inputs: ActionInputs = {
+    dokployUrl: 'https://dokploy.example.com',
+    apiKey: 'test-key',
+    dockerImage: 'nginx:latest'
+  }
+
+  describe('buildUpdateConfigSwarm', () => {
+    it('should leave the update config alone when no update-* input is set', () => {
+      expect(buildUpdateConfigSwarm(inputs)).toBeUndefined()
+    })
+
+    it('should convert seconds to nanoseconds', () => {
+      expect(
+        buildUpdateConfigSwarm({
+          ...inputs,
+          updateParallelism: 2,
+          updateDelay: 10,
+          updateFailureAction: 'rollback',
+          updateMonitor: 30,
+          updateMaxFailureRatio: 0.2,
+          updateOrder: 'start-first'
+        })
+      ).toEqual({
+        Parallelism: 2,
+        Delay: 10_000_000_000,
+        FailureAction: 'rollback',
+        Monitor: 30_000_000_000,
+        MaxFailureRatio: 0.2,
+        Order: 'start-first'
+      })
+    })
+
+    it('should fill in the required fields with the Swarm defaults', () => {
+      expect(buildUpdateConfigSwarm({ ...inputs, updateDelay: 5 })).toEqual({
+        Parallelism: 1,
+        Delay: 5_000_000_000,
+        Order: 'stop-first'
+      })
+      expect(buildUpdateConfigSwarm({ ...inputs, updateParallelism: 0 })?.Parallelism).toBe(0)
+    })
+  })
+
+  it('should pause a failed rollback instead of rolling it back', () => {
+    const update = buildUpdateConfigSwarm({
+      ...inputs,
+      updateFailureAction: 'rollback',
+      updateOrder: 'start-first'
+    })
+
+    expect(buildRollbackConfigSwarm(update!)).toEqual({
+      Parallelism: 1,
+      FailureAction: 'pause',
+      Order: 'start-first'
+    })
+  })
+
+  it('should describe the update config in one line', () => {
+    const update = buildUpdateConfigSwarm({
+      ...inputs,
+      updateParallelism: 2,
+      updateDelay: 10,
+      updateFailureAction: 'rollback',
+      updateOrder: 'start-first'
+    })
+
+    expect(formatUpdateConfig(update!)).toBe(
+      '2 at a time, start-first, every 10s, on failure rollback'
+    )
+  })
+
+  describe('buildRestartPolicySwarm', () => {
+    it('should send the whole policy with durations in nanoseconds', () => {
+      expect(
+        buildRestartPolicySwarm({
+          ...inputs,
+          restartPolicy: 'on-failure',
+          restartDelay: 5,
+          restartMaxAttempts: 3,
+          restartWindow: 60
+        })
+      ).toEqual({
+        Condition: 'on-failure',
+        Delay: 5_000_000_000,
+        MaxAttempts: 3,
+        Window: 60_000_000_000
+      })
+    })
+
+    it('should restart unless-stopped services on any exit', () => {
+      expect(buildRestartPolicySwarm({ ...inputs, restartPolicy: 'unless-stopped' })).toEqual({
+        Condition: 'any'
+      })
+      expect(buildRestartPolicySwarm({ ...inputs, restartPolicy: 'no' })?.Condition).toBe('none')
+      expect(buildRestartPolicySwarm(inputs)).toBeUndefined()
+    })
+  })
+
+  describe('buildHealthCheckSwarm', () => {
+    it('should run the command through the shell', () => {
+      expect(
+        buildHealthCheckSwarm({
+          ...inputs,
+          containerHealthCheck: 'curl -f http://localhost/health || exit 1',
+          containerHealthCheckInterval: 30,
+          containerHealthCheckTimeout: 5,
+          containerHealthCheckStartPeriod: 10,
+          containerHealthCheckRetries: 3
+        })
+      ).toEqual({
+        Test: ['CMD-SHELL', 'curl -f http://localhost/health || exit 1'],
+        Interval: 30_000_000_000,
+        Timeout: 5_000_000_000,
+        StartPeriod: 10_000_000_000,
+        Retries: 3
+      })
+    })
+
+    it('should keep the image command when only timings are set, and disable it with NONE', () => {
+      const timings = buildHealthCheckSwarm({ ...inputs, containerHealthCheckInterval: 10 })
+      expect(timings).toEqual({ Interval: 10_000_000_000 })
+      expect(formatHealthCheck(timings!)).toBe('image default, every 10s')
+
+      const disabled = buildHealthCheckSwarm({ ...inputs, containerHealthCheck: 'NONE' })
+      expect(disabled?.Test).toEqual(['NONE'])
+      expect(formatHealthCheck(disabled!)).toBe('disabled')
+    })
+  })
+
+  it('should build constraints, spread preferences and platforms', () => {
+    expect(
+      buildPlacementSwarm({
+        ...inputs,
+        placementConstraints: ['node.labels.region==eu'],
+        placementPreferences: ['spread=node.labels.zone', 'node.labels.rack'],
+        placementMaxReplicas: 2,
+        placementPlatforms: ['linux/arm64']
+      })
+    ).toEqual({
+      Constraints: ['node.labels.region==eu'],
+      Preferences: [
+        { Spread: { SpreadDescriptor: 'node.labels.zone' } },
+        { Spread: { SpreadDescriptor: 'node.labels.rack' } }
+      ],
+      MaxReplicas: 2,
+      Platforms: [{ Architecture: 'arm64', OS: 'linux' }]
+    })
+    expect(buildPlacementSwarm(inputs)).toBeUndefined()
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Tests for the Traefik dynamic config builder
+ */
+
+import * as yaml from 'js-yaml'
+import { buildWeightedTraefikConfig, serviceUrl } from '../src/traefik'
+
+describe('buildWeightedTraefikConfig', () => {
+  const backends = [
+    { name: 'web-abc-stable', url: serviceUrl('web-abc', 3000), weight: 90 },
+    { name: 'web-abc-canary', url: serviceUrl('web-canary-def', 3000), weight: 10 }
+  ]
+
+  it('should route the host to weighted services over HTTPS', () => {
+    const config = yaml.load(
+      buildWeightedTraefikConfig(
+        { name: 'web-abc', host: 'app.example.com', https: true, certificateType: 'letsencrypt' },
+        backends
+      )
+    )
+
+    expect(config).toEqual({
+      http: {
+        routers: {
+          'web-abc-router-web': {
+            rule: 'Host(`app.example.com`)',
+            service: 'web-abc-weighted',
+            middlewares: ['redirect-to-https'],
+            entryPoints: ['web']
+          },
+          'web-abc-router-websecure': {
+            rule: 'Host(`app.example.com`)',
+            service: 'web-abc-weighted',
+            middlewares: [],
+            entryPoints: ['websecure'],
+            tls: { certResolver: 'letsencrypt' }
+          }
+        },
+        services: {
+          'web-abc-weighted': {
+            weighted: {
+              services: [
+                { name: 'web-abc-stable', weight: 90 },
+                { name: 'web-abc-canary', weight: 10 }
+              ]
+            }
+          },
+          'web-abc-stable': {
+            loadBalancer: { servers: [{ url: 'http://web-abc:3000' }], passHostHeader: true }
+          },
+          'web-abc-canary': {
+            loadBalancer: {
+              servers: [{ url: 'http://web-canary-def:3000' }],
+              passHostHeader: true
+            }
+          }
+        }
+      }
+    })
+  })
+
+  it('should add a path prefix and skip the TLS router for plain HTTP', () => {
+    const config = yaml.load(
+      buildWeightedTraefikConfig(
+        { name: 'web-abc', host: 'app.example.com', path: '/api', https: false },
+        backends
+      )
+    ) as { http: { routers: Record<string, { rule: string }> } }
+
+    expect(Object.keys(config.http.routers)).toEqual(['web-abc-router-web'])
+    expect(config.http.routers['web-abc-router-web'].rule).toBe(
+      'Host(`app.example.com`) && PathPrefix(`/api`)'
+    )
+  })
+
+  it('should leave out backends without a share of the traffic', () => {
+    const config = yaml.load(
+      buildWeightedTraefikConfig({ name: 'web-abc', host: 'app.example.com' }, [
+        { ...backends[0], weight: 0 },
+        { ...backends[1], weight: 100 }
+      ])
+    ) as { http: { services: Record<string, unknown> } }
+
+    expect(Object.keys(config.http.services)).toEqual(['web-abc-weighted', 'web-abc-canary'])
+  })
+
+  it('should require at least one backend with traffic', () => {
+    expect(() =>
+      buildWeightedTraefikConfig({ name: 'web-abc', host: 'app.example.com' }, [
+        { ...backends[0], weight: 0 }
+      ])
+    ).toThrow('At least one backend needs a weight above 0')
+  })
+})
@@ -20,5 +20,6 @@ module.exports = {
     '**/*.spec.ts',
     '**/*.test.ts'
   ],
+  testPathIgnorePatterns: ['/node_modules/', '/__tests__/fixtures/'],
   moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json', 'node']
 }
@@ -3,7 +3,11 @@
  * Tests API client methods and response parsing
  */
 
-import { DokployClient } from '../client/dokploy-client'
+import * as fs from 'fs'
+import * as path from 'path'
+import { DokployClient, DokployApiError, computeRetryDelay } from '../client/dokploy-client'
+import { ActionDeadline } from '../deadline'
+import { actionLog } from '../log'
 import type { DokployConfig, Project, Environment, Application } from '../types/dokploy'
 
 // Mock @actions/core
@@ -202,6 +206,83 @@ describe('DokployClient', () => {
     })
   })
 
+  describe('Teardown', () => {
+    beforeEach(() => {
+      jest.spyOn(client as any, 'post').mockResolvedValue({})
+    })
+
+    it('should delete applications and compose services', async () => {
+      await client.deleteApplication('app-1')
+      await client.deleteCompose('compose-1', true)
+
+      expect((client as any).post).toHaveBeenCalledWith('/api/application.delete', {
+        applicationId: 'app-1'
+      })
+      expect((client as any).post).toHaveBeenCalledWith('/api/compose.delete', {
+        composeId: 'compose-1',
+        deleteVolumes: true
+      })
+    })
+
+    it('should keep compose volumes by default', async () => {
+      await client.deleteCompose('compose-1')
+
+      expect((client as any).post).toHaveBeenCalledWith('/api/compose.delete', {
+        composeId: 'compose-1',
+        deleteVolumes: false
+      })
+    })
+
+    it('should remove mounts, environments and projects', async () => {
+      await client.removeMount('mount-1')
+      await client.removeEnvironment('env-1')
+      await client.removeProject('proj-1')
+
+      expect((client as any).post).toHaveBeenCalledWith('/api/mounts.remove', {
+        mountId: 'mount-1'
+      })
+      expect((client as any).post).toHaveBeenCalledWith('/api/environment.remove', {
+        environmentId: 'env-1'
+      })
+      expect((client as any).post).toHaveBeenCalledWith('/api/project.remove', {
+        projectId: 'proj-1'
+      })
+    })
+  })
+
+  describe('Containers', () => {
+    it('should list containers through an endpoint of the Dokploy API', async () => {
+      const spec = JSON.parse(
+        fs.readFileSync(path.join(__dirname, '../../swagger/dokploy-swagger.json'), 'utf-8')
+      ) as { paths: Record<string, unknown> }
+      jest.spyOn(client as any, 'get').mockResolvedValue([])
+
+      await client.getContainers('myapp', 'srv-1')
+
+      const [url] = (client as any).get.mock.calls[0] as [string]
+      expect(url).toBe('/api/docker.getContainersByAppNameMatch?appName=myapp&serverId=srv-1')
+      expect(Object.keys(spec.paths)).toContain(url.replace(/^\/api/, '').split('?')[0])
+    })
+  })
+
+  describe('Traefik Configuration', () => {
+    it('should read and replace the Traefik config of an application', async () => {
+      jest.spyOn(client as any, 'get').mockResolvedValue('http: {}\n')
+      jest.spyOn(client as any, 'post').mockResolvedValue(undefined)
+
+      await expect(client.readTraefikConfig('app-1')).resolves.toBe('http: {}\n')
+      await client.updateTraefikConfig('app-1', 'http:\n  routers: {}\n')
+
+      expect((client as any).get).toHaveBeenCalledWith(
+        '/api/application.readTraefikConfig?applicationId=app-1'
+      )
+      expect((client as any).post).toHaveBeenCalledWith('/api/application.updateTraefikConfig', {
+        applicationId: 'app-1',
+        traefikConfig: 'http:\n  routers: {}\n'
+      })
+    })
+  })
+
   describe('createApplication', () => {
     it('should create application and return applicationId', async () => {
       const mockApplication: Application = {
@@ -300,4 +381,180 @@ describe('DokployClient', () => {
       expect(result.defaultEnvironmentId).toBe('env-123')
     })
   })
+
+  describe('Retries and errors', () => {
+    const httpResponse = (
+      statusCode: number,
+      body: unknown,
+      headers: Record<string, string> = {}
+    ) => ({
+      message: { statusCode, headers },
+      readBody: jest.fn().mockResolvedValue(body === undefined ? '' : JSON.stringify(body))
+    })
+
+    let http: { get: jest.Mock; post: jest.Mock }
+
+    beforeEach(() => {
+      client = new DokployClient({ ...mockConfig, maxRetries: 2, retryDelay: 0 })
+      http = (client as any).client
+    })
+
+    it('should retry GET requests on 5xx and return the result', async () => {
+      http.get
+        .mockResolvedValueOnce(httpResponse(502, { message: 'Bad gateway' }))
+        .mockResolvedValueOnce(httpResponse(200, [{ projectId: 'proj-1' }]))
+
+      const projects = await client.getAllProjects()
+
+      expect(projects).toEqual([{ projectId: 'proj-1' }])
+      expect(http.get).toHaveBeenCalledTimes(2)
+    })
+
+    it('should retry network errors and give up after max retries', async () => {
+      const networkError = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+      http.get.mockRejectedValue(networkError)
+
+      await expect(client.getAllProjects()).rejects.toMatchObject({
+        name: 'DokployApiError',
+        statusCode: 0,
+        code: 'ECONNRESET'
+      })
+      expect(http.get).toHaveBeenCalledTimes(3)
+    })
+
+    it('should not retry non-idempotent calls after a server error', async () => {
+      http.post.mockResolvedValue(httpResponse(500, { message: 'Internal error' }))
+
+      await expect(client.deployApplication('app-1')).rejects.toThrow(
+        'POST /api/application.deploy failed with status 500: Internal error'
+      )
+      expect(http.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry non-idempotent calls that were rate limited', async () => {
+      http.post
+        .mockResolvedValueOnce(
+          httpResponse(429, { message: 'Too many requests' }, { 'retry-after': '0' })
+        )
+        .mockResolvedValueOnce(httpResponse(200, { deploymentId: 'dep-1' }))
+
+      const result = await client.deployApplication('app-1')
+
+      expect(result).toEqual({ deploymentId: 'dep-1' })
+      expect(http.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should retry idempotent POST calls on server errors', async () => {
+      http.post
+        .mockResolvedValueOnce(httpResponse(503, { message: 'Unavailable' }))
+        .mockResolvedValueOnce(httpResponse(200, undefined))
+
+      await client.saveEnvironment('app-1', 'KEY=value')
+
+      expect(http.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry client errors and expose structured error data', async () => {
+      const body = { message: 'invalid memory value 1: Must be at least 4', code: 'BAD_REQUEST' }
+      http.post.mockResolvedValue(httpResponse(400, body))
+
+      const error = (await client
+        .updateApplication('app-1', { memoryLimit: 1 })
+        .catch((e: unknown) => e)) as DokployApiError
+
+      expect(error).toBeInstanceOf(DokployApiError)
+      expect(error).toMatchObject({
+        statusCode: 400,
+        endpoint: '/api/application.update',
+        method: 'POST',
+        code: 'BAD_REQUEST',
+        body
+      })
+      expect(error.apiMessage).toBe('invalid memory value 1: Must be at least 4')
+      expect(error.retryable).toBe(false)
+      expect(http.post).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('Timeouts', () => {
+    it('should report socket timeouts as retryable ETIMEDOUT errors', async () => {
+      client = new DokployClient({ ...mockConfig, maxRetries: 0, requestTimeout: 5 })
+      const http = (client as any).client
+      http.get.mockRejectedValue(new Error('Request timeout: /api/project.all'))
+
+      await expect(client.getAllProjects()).rejects.toMatchObject({
+        statusCode: 0,
+        code: 'ETIMEDOUT',
+        retryable: true
+      })
+    })
+
+    it('should stop making requests once the action deadline is exhausted', async () => {
+      const deadline = new ActionDeadline(60)
+      deadline.enter('resource resolution')
+      jest.spyOn(deadline, 'expired').mockReturnValue(true)
+      client = new DokployClient({ ...mockConfig, deadline })
+      const http = (client as any).client
+
+      await expect(client.getAllProjects()).rejects.toThrow(
+        'action-timeout of 60s exhausted during resource resolution'
+      )
+      expect(http.get).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('waitForDeployment', () => {
+    it('should pass only new log output to the callback on each poll', async () => {
+      const poll = (status: 'deploying' | 'completed', logs: string) => ({
+        deploymentId: 'dep-1',
+        applicationId: 'app-1',
+        status,
+        logs
+      })
+      jest
+        .spyOn(client, 'getDeployment')
+        .mockResolvedValueOnce(poll('deploying', 'step 1\n'))
+        .mockResolvedValueOnce(poll('deploying', 'step 1\nstep 2\n'))
+        .mockResolvedValueOnce(poll('completed', 'step 1\nstep 2\ndone'))
+      const chunks: string[] = []
+
+      await client.waitForDeployment('dep-1', 60, 0, chunk => chunks.push(chunk))
+
+      expect(chunks).toEqual(['step 1\n', 'step 2\n', 'done'])
+    })
+
+    it('should report progress through the given log', async () => {
+      jest
+        .spyOn(client, 'getDeployment')
+        .mockResolvedValue({ applicationId: 'app-1', status: 'completed' })
+      const log = { ...actionLog, info: jest.fn() }
+
+      await client.waitForDeployment('dep-1', 60, 0, undefined, log)
+
+      expect(log.info).toHaveBeenCalledWith('✅ Deployment completed successfully')
+    })
+
+    it('should throw DeploymentTimeoutError when the deployment outlives the timeout', async () => {
+      jest
+        .spyOn(client, 'getDeployment')
+        .mockResolvedValue({ applicationId: 'app-1', status: 'deploying' })
+
+      await expect(client.waitForDeployment('dep-1', 0, 0)).rejects.toThrow(
+        'Deployment timeout after 0s (status: deploying)'
+      )
+    })
+  })
+
+  describe('computeRetryDelay', () => {
+    it('should honour Retry-After seconds', () => {
+      expect(computeRetryDelay(0, 1000, '5')).toBe(5000)
+    })
+
+    it('should cap exponential backoff with jitter', () => {
+      const random = jest.spyOn(Math, 'random').mockReturnValue(0.999)
+      expect(computeRetryDelay(2, 1000)).toBe(3996)
+      expect(computeRetryDelay(10, 1000)).toBe(29970)
+      random.mockRestore()
+    })
+  })
 })
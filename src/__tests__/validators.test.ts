@@ -10,6 +10,15 @@ import {
   validateReplicas,
   validateDomainHost,
   validateDockerImage,
+  validateOneOf,
+  validateExpectedStatusCode,
+  validateJsonPathAssertion,
+  validateBodyMatch,
+  validateApplications,
+  validateDeploymentStrategy,
+  validateSwarmUpdateConfig,
+  validateSwarmServiceSettings,
+  validateDomains,
   validateAllInputs,
   ValidationError
 } from '../validators'
@@ -147,6 +156,326 @@ describe('validators', () => {
     })
   })
 
+  describe('validateOneOf', () => {
+    it('should accept allowed values and undefined', () => {
+      expect(() => validateOneOf('strict', ['replace', 'strict'], 'env-merge-mode')).not.toThrow()
+      expect(() => validateOneOf(undefined, ['replace', 'strict'], 'env-merge-mode')).not.toThrow()
+    })
+
+    it('should reject other values', () => {
+      expect(() => validateOneOf('merge', ['replace', 'strict'], 'env-merge-mode')).toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  describe('validateExpectedStatusCode', () => {
+    it('should accept codes, classes and ranges', () => {
+      expect(() => validateExpectedStatusCode('200', 'expected-status-code')).not.toThrow()
+      expect(() => validateExpectedStatusCode('200,204', 'expected-status-code')).not.toThrow()
+      expect(() => validateExpectedStatusCode('2xx', 'expected-status-code')).not.toThrow()
+      expect(() => validateExpectedStatusCode('200-299', 'expected-status-code')).not.toThrow()
+    })
+
+    it('should reject invalid codes', () => {
+      expect(() => validateExpectedStatusCode('abc', 'expected-status-code')).toThrow(
+        ValidationError
+      )
+      expect(() => validateExpectedStatusCode('299-200', 'expected-status-code')).toThrow(
+        ValidationError
+      )
+      expect(() => validateExpectedStatusCode('999', 'expected-status-code')).toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  describe('validateJsonPathAssertion', () => {
+    it('should accept valid assertions', () => {
+      expect(() =>
+        validateJsonPathAssertion('$.status == "UP"', 'health-check-json-path')
+      ).not.toThrow()
+      expect(() => validateJsonPathAssertion('$.ready', 'health-check-json-path')).not.toThrow()
+    })
+
+    it('should reject invalid assertions', () => {
+      expect(() => validateJsonPathAssertion('status == "UP"', 'health-check-json-path')).toThrow(
+        ValidationError
+      )
+      expect(() => validateJsonPathAssertion('$.status == UP', 'health-check-json-path')).toThrow(
+        ValidationError
+      )
+    })
+  })
+
+  describe('validateBodyMatch', () => {
+    it('should accept substrings and valid regexes', () => {
+      expect(() => validateBodyMatch('"status":"UP"', 'health-check-body-match')).not.toThrow()
+      expect(() =>
+        validateBodyMatch('/"status":\\s*"UP"/i', 'health-check-body-match')
+      ).not.toThrow()
+    })
+
+    it('should reject invalid patterns and flags', () => {
+      expect(() => validateBodyMatch('/(unclosed/', 'health-check-body-match')).toThrow(
+        'health-check-body-match is not a valid regex'
+      )
+      expect(() => validateBodyMatch('/UP/q', 'health-check-body-match')).toThrow(ValidationError)
+    })
+  })
+
+  describe('validateApplications', () => {
+    it('should accept valid entries', () => {
+      const errors = validateApplications(
+        [
+          { name: 'api', dockerImage: 'ghcr.io/acme/api:v1', domainHost: 'api.example.com' },
+          { name: 'worker', replicas: 2 }
+        ],
+        { dockerImage: 'ghcr.io/acme/app:v1' }
+      )
+
+      expect(errors).toEqual([])
+    })
+
+    it('should reject duplicate names and entries without an image', () => {
+      const errors = validateApplications([{ name: 'api' }, { name: 'api', memoryLimit: 2 }], {
+        dockerImage: ''
+      })
+
+      expect(errors.map(error => error.field)).toEqual([
+        'applications[0].image',
+        'applications[1].name',
+        'applications[1].image',
+        'applications[1].memory-limit'
+      ])
+    })
+
+    it('should reject unknown dependencies', () => {
+      const errors = validateApplications([{ name: 'worker', dependsOn: ['api'] }], {
+        dockerImage: 'nginx:latest'
+      })
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0].message).toContain('unknown application "api"')
+    })
+
+    it('should detect dependency cycles', () => {
+      const errors = validateApplications(
+        [
+          { name: 'api', dependsOn: ['web'] },
+          { name: 'worker', dependsOn: ['api'] },
+          { name: 'web', dependsOn: ['worker'] }
+        ],
+        { dockerImage: 'nginx:latest' }
+      )
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0].message).toBe(
+        'applications have a dependency cycle: api → web → worker → api'
+      )
+    })
+
+    it('should only allow application deployments in deploy mode', () => {
+      const errors = validateApplications([{ name: 'api' }], {
+        dockerImage: 'nginx:latest',
+        deploymentType: 'compose'
+      })
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0].field).toBe('applications')
+    })
+  })
+
+  describe('validateDomains', () => {
+    it('should accept valid entries', () => {
+      const errors = validateDomains(
+        [{ host: 'www.example.com' }, { host: 'www.example.com', path: '/api', port: 8080 }],
+        {}
+      )
+
+      expect(errors).toEqual([])
+    })
+
+    it('should reject invalid and duplicate entries', () => {
+      const errors = validateDomains(
+        [
+          { host: 'not a host', port: 70000 },
+          { host: 'api.example.com', certificateType: 'self-signed', serviceName: 'api' },
+          { host: 'api.example.com', path: '/' }
+        ],
+        { deploymentType: 'application' }
+      )
+
+      expect(errors.map(error => error.field)).toEqual([
+        'domains[0].host',
+        'domains[0].port',
+        'domains[1].certificate-type',
+        'domains[1].service-name',
+        'domains[2]'
+      ])
+    })
+
+    it('should not combine with domain-host or applications', () => {
+      const errors = validateDomains([{ host: 'www.example.com' }], {
+        domainHost: 'app.example.com',
+        applications: [{ name: 'api' }]
+      })
+
+      expect(errors.map(error => error.field)).toEqual(['domains', 'domains'])
+    })
+  })
+
+  describe('validateDeploymentStrategy', () => {
+    it('should accept a complete blue-green configuration', () => {
+      const errors = validateDeploymentStrategy({
+        deploymentStrategy: 'blue-green',
+        applicationName: 'web',
+        domainHost: 'app.example.com',
+        blueGreenDomainTemplate: '{color}.internal.example.com'
+      })
+
+      expect(errors).toEqual([])
+    })
+
+    it('should require a name, a production host and a color template for blue-green', () => {
+      const errors = validateDeploymentStrategy({
+        deploymentStrategy: 'blue-green',
+        blueGreenDomainTemplate: 'internal.example.com'
+      })
+
+      expect(errors.map(error => error.field)).toEqual([
+        'application-name',
+        'domain-host',
+        'blue-green-domain-template'
+      ])
+    })
+
+    it('should require canary steps that end at 100%', () => {
+      const canary = {
+        deploymentStrategy: 'canary',
+        applicationName: 'web',
+        domainHost: 'app.example.com'
+      }
+
+      expect(validateDeploymentStrategy({ ...canary, canarySteps: [10, 50, 100] })).toEqual([])
+      expect(validateDeploymentStrategy({ ...canary, canarySteps: [50, 10, 100] })).toHaveLength(1)
+      expect(validateDeploymentStrategy({ ...canary, canarySteps: [10, 50] })).toHaveLength(1)
+      expect(validateDeploymentStrategy({ ...canary, canaryMaxErrorRate: 0.5 })).toEqual([])
+      expect(validateDeploymentStrategy({ ...canary, canaryMaxErrorRate: 150 })[0].field).toBe(
+        'canary-max-error-rate'
+      )
+      expect(validateDeploymentStrategy({ ...canary, canaryMaxErrorRate: -0.1 })).toHaveLength(1)
+    })
+
+    it('should only allow a maintenance page for recreate deployments with a host', () => {
+      const recreate = {
+        deploymentStrategy: 'recreate',
+        domainHost: 'app.example.com',
+        maintenanceImage: 'ghcr.io/acme/maintenance:1'
+      }
+
+      expect(validateDeploymentStrategy(recreate)).toEqual([])
+      expect(
+        validateDeploymentStrategy({ ...recreate, deploymentStrategy: 'rolling' })[0].field
+      ).toBe('maintenance-image')
+      expect(validateDeploymentStrategy({ ...recreate, domainHost: undefined })[0].field).toBe(
+        'domain-host'
+      )
+      expect(validateDeploymentStrategy({ ...recreate, maintenancePort: 70000 })[0].field).toBe(
+        'maintenance-port'
+      )
+    })
+
+    it('should only allow recreate for a single application', () => {
+      const errors = validateDeploymentStrategy({
+        deploymentStrategy: 'recreate',
+        applications: [{ name: 'api' }, { name: 'worker' }]
+      })
+
+      expect(errors).toHaveLength(1)
+      expect(errors[0].message).toBe(
+        'deployment-strategy recreate only supports a single application'
+      )
+      expect(
+        validateDeploymentStrategy({ deploymentStrategy: 'recreate', deploymentType: 'compose' })
+      ).toHaveLength(1)
+    })
+
+    it('should reject unknown strategies', () => {
+      expect(validateDeploymentStrategy({ deploymentStrategy: 'big-bang' })).toHaveLength(1)
+    })
+  })
+
+  describe('validateSwarmUpdateConfig', () => {
+    it('should accept a complete update config', () => {
+      expect(
+        validateSwarmUpdateConfig({
+          updateParallelism: 0,
+          updateDelay: 10,
+          updateFailureAction: 'rollback',
+          updateMonitor: 30,
+          updateMaxFailureRatio: 0.2,
+          updateOrder: 'start-first'
+        })
+      ).toEqual([])
+    })
+
+    it('should report every invalid update-* input', () => {
+      const errors = validateSwarmUpdateConfig({
+        updateParallelism: -1,
+        updateDelay: -5,
+        updateFailureAction: 'retry',
+        updateMaxFailureRatio: 1.5,
+        updateOrder: 'first'
+      })
+
+      expect(errors.map(error => error.field)).toEqual([
+        'update-parallelism',
+        'update-delay',
+        'update-max-failure-ratio',
+        'update-failure-action',
+        'update-order'
+      ])
+    })
+  })
+
+  describe('validateSwarmServiceSettings', () => {
+    it('should accept valid restart, health check and placement settings', () => {
+      expect(
+        validateSwarmServiceSettings({
+          restartPolicy: 'on-failure',
+          restartDelay: 5,
+          restartMaxAttempts: 3,
+          containerHealthCheckInterval: 30,
+          containerHealthCheckRetries: 3,
+          placementConstraints: ['node.labels.region==eu', 'node.role != manager'],
+          placementPreferences: ['spread=node.labels.zone'],
+          placementPlatforms: ['linux/amd64']
+        })
+      ).toEqual([])
+    })
+
+    it('should report every invalid setting', () => {
+      const errors = validateSwarmServiceSettings({
+        restartPolicy: 'sometimes',
+        restartWindow: -1,
+        containerHealthCheckTimeout: -2,
+        placementConstraints: ['region=eu'],
+        placementPreferences: ['zone'],
+        placementPlatforms: ['amd64']
+      })
+
+      expect(errors.map(error => error.field)).toEqual([
+        'restart-policy',
+        'restart-window',
+        'container-health-check-timeout',
+        'placement-constraints',
+        'placement-preferences',
+        'placement-platforms'
+      ])
+    })
+  })
+
   describe('validateAllInputs', () => {
     it('should validate all inputs successfully', () => {
       const validInputs = {
@@ -0,0 +1,256 @@
+/**
+ * Multi-application deploys (applications input)
+ *
+ * Several applications share one project, environment and server, which are
+ * resolved once. Each entry then runs through the regular application
+ * deployment with its own name, image, env, domain and resources.
+ *
+ * Entries may list other entries under depends-on. They are deployed in
+ * layers: a layer starts once every application it depends on has deployed
+ * and passed its health check.
+ */
+
+import * as core from '@actions/core'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+import { ValidationError, formatValidationError } from './validators'
+import type { DeploymentReport } from './summary'
+import type { ActionInputs, ApplicationSpec } from './types/dokploy'
+
+export interface ApplicationScope {
+  projectId: string
+  environmentId: string
+  serverId: string
+}
+
+export interface ApplicationResult {
+  name: string
+  status: 'success' | 'failed' | 'skipped'
+  applicationId?: string
+  deploymentId?: string
+  deploymentUrl?: string
+  healthStatus?: string
+  durationSeconds: number
+  error?: string
+}
+
+const NUMBER_FIELDS: Record<string, keyof ApplicationSpec> = {
+  port: 'applicationPort',
+  'memory-limit': 'memoryLimit',
+  'memory-reservation': 'memoryReservation',
+  'cpu-limit': 'cpuLimit',
+  'cpu-reservation': 'cpuReservation',
+  replicas: 'replicas'
+}
+
+const STRING_FIELDS: Record<string, keyof ApplicationSpec> = {
+  name: 'name',
+  image: 'dockerImage',
+  domain: 'domainHost',
+  'health-check-path': 'healthCheckPath'
+}
+
+function isNameList(value: unknown): boolean {
+  const names = Array.isArray(value) ? value : [value]
+  return names.every(name => typeof name === 'string' && name !== '')
+}
+
+function parseEntry(entry: unknown, field: string, errors: ValidationError[]): ApplicationSpec {
+  const spec: Partial<Record<keyof ApplicationSpec, unknown>> = {}
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    errors.push(
+      new ValidationError(`${field} must be a mapping`, field, entry, 'Example: - name: api')
+    )
+    return spec as ApplicationSpec
+  }
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (STRING_FIELDS[key] && (typeof value === 'string' || typeof value === 'number')) {
+      spec[STRING_FIELDS[key]] = String(value)
+    } else if (NUMBER_FIELDS[key] && !isNaN(Number(value))) {
+      spec[NUMBER_FIELDS[key]] = Number(value)
+    } else if (key === 'depends-on' && isNameList(value)) {
+      spec.dependsOn = (Array.isArray(value) ? value : [value]).map(name => String(name))
+    } else if (key === 'env' && typeof value === 'string') {
+      spec.env = value
+    } else if (key === 'env' && typeof value === 'object' && !Array.isArray(value)) {
+      spec.env = Object.entries(value as Record<string, unknown>)
+        .map(([name, variable]) => `${name}=${String(variable ?? '')}`)
+        .join('\n')
+    } else {
+      const known = [
+        ...Object.keys(STRING_FIELDS),
+        ...Object.keys(NUMBER_FIELDS),
+        'env',
+        'depends-on'
+      ]
+      errors.push(
+        new ValidationError(
+          known.includes(key)
+            ? `${field}.${key} has an invalid value`
+            : `${field}.${key} is unknown`,
+          `${field}.${key}`,
+          value,
+          `Supported keys: ${known.join(', ')}`
+        )
+      )
+    }
+  }
+  return spec as ApplicationSpec
+}
+
+/**
+ * Parse the applications input, a YAML (or JSON) list of application entries
+ */
+export function parseApplications(raw: string | undefined): ApplicationSpec[] | undefined {
+  if (!raw) {
+    return undefined
+  }
+
+  const errors: ValidationError[] = []
+  let applications: ApplicationSpec[] = []
+  try {
+    const document: unknown = yaml.load(raw)
+    if (Array.isArray(document) && document.length > 0) {
+      applications = document.map((entry, index) =>
+        parseEntry(entry, `applications[${index}]`, errors)
+      )
+    } else {
+      errors.push(
+        new ValidationError(
+          'applications must be a non-empty list',
+          'applications',
+          document,
+          'Example: applications: [{ name: api, image: ghcr.io/org/api:v1 }]'
+        )
+      )
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    errors.push(
+      new ValidationError(`applications is not valid YAML: ${message}`, 'applications', '')
+    )
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => core.error(formatValidationError(error)))
+    throw new Error(
+      `applications has ${errors.length} validation error${errors.length > 1 ? 's' : ''}. See details above.`
+    )
+  }
+  return applications
+}
+
+function perApplicationFile(file: string | undefined, name: string): string | undefined {
+  if (!file) {
+    return undefined
+  }
+  const { dir, name: base, ext } = path.parse(file)
+  return path.join(dir, `${base}-${name}${ext}`)
+}
+
+/**
+ * Inputs for deploying one entry: shared inputs, with the entry's own settings on top.
+ * The entry's env is appended to the shared env, so its variables win.
+ */
+export function applicationInputs(inputs: ActionInputs, spec: ApplicationSpec): ActionInputs {
+  return {
+    ...inputs,
+    applications: undefined,
+    applicationId: undefined,
+    applicationName: spec.name,
+    dockerImage: spec.dockerImage || inputs.dockerImage,
+    env: [inputs.env, spec.env].filter(Boolean).join('\n') || undefined,
+    // Hosts, container names and log files must not be shared between applications
+    domainHost: spec.domainHost,
+    containerPrefix: undefined,
+    deploymentLogFile: perApplicationFile(inputs.deploymentLogFile, spec.name),
+    applicationPort: spec.applicationPort ?? inputs.applicationPort,
+    memoryLimit: spec.memoryLimit ?? inputs.memoryLimit,
+    memoryReservation: spec.memoryReservation ?? inputs.memoryReservation,
+    cpuLimit: spec.cpuLimit ?? inputs.cpuLimit,
+    cpuReservation: spec.cpuReservation ?? inputs.cpuReservation,
+    replicas: spec.replicas ?? inputs.replicas,
+    healthCheckPath: spec.healthCheckPath ?? inputs.healthCheckPath
+  }
+}
+
+/**
+ * Group entries into deploy layers; each entry comes after everything it depends on.
+ * Cycles and unknown names are rejected by validateApplications beforehand.
+ */
+export function dependencyLayers(applications: ApplicationSpec[]): ApplicationSpec[][] {
+  const layers: ApplicationSpec[][] = []
+  const placed = new Set<string>()
+  let remaining = applications
+  while (remaining.length > 0) {
+    const layer = remaining.filter(app => (app.dependsOn || []).every(name => placed.has(name)))
+    if (layer.length === 0) {
+      throw new Error(
+        `applications have unresolvable dependencies: ${remaining.map(app => app.name).join(', ')}`
+      )
+    }
+    layer.forEach(app => placed.add(app.name))
+    remaining = remaining.filter(app => !layer.includes(app))
+    layers.push(layer)
+  }
+  return layers
+}
+
+/**
+ * Whether dependents of an application may deploy: it deployed and was not found unhealthy
+ */
+export function isDeployedHealthy(result: ApplicationResult | undefined): boolean {
+  return result?.status === 'success' && result.healthStatus !== 'unhealthy'
+}
+
+/**
+ * Result for an entry that was not deployed because a dependency did not deploy healthy
+ */
+export function skippedApplication(spec: ApplicationSpec, blockedBy: string[]): ApplicationResult {
+  return {
+    name: spec.name,
+    status: 'skipped',
+    durationSeconds: 0,
+    error: `Not deployed: ${blockedBy.join(', ')} did not deploy healthy`
+  }
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight; results keep the input order
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let next = 0
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await worker(items[index])
+    }
+  })
+  await Promise.all(runners)
+  return results
+}
+
+/**
+ * Per-application entry of the applications-json output
+ */
+export function applicationResult(report: DeploymentReport): ApplicationResult {
+  return {
+    name: report.name || '',
+    status: report.status === 'success' ? 'success' : 'failed',
+    applicationId: report.serviceId,
+    deploymentId: report.deploymentId,
+    deploymentUrl: report.deploymentUrl,
+    healthStatus: report.healthStatus,
+    durationSeconds: Math.round(((report.finishedAt || Date.now()) - report.startedAt) / 1000),
+    error: report.error
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Blue-green deployments (deployment-strategy: blue-green)
+ *
+ * The service runs as two Dokploy applications, `<app>-blue` and `<app>-green`.
+ * The color that owns the production domain is live. A deploy goes to the
+ * idle color and is health checked on its own host from
+ * blue-green-domain-template; only then is the production domain moved over.
+ * The previous color keeps running its old image, so switching back is a
+ * matter of moving the domain again.
+ */
+
+import * as core from '@actions/core'
+import type { DokployClient } from './client/dokploy-client'
+import type { ApplicationScope } from './applications'
+import type { DomainChange } from './summary'
+import type { Domain } from './types/dokploy'
+
+export type Color = 'blue' | 'green'
+
+export interface ColorState {
+  live?: Color
+  idle: Color
+  applicationIds: Partial<Record<Color, string>>
+}
+
+const COLORS: Color[] = ['blue', 'green']
+
+export function colorApplicationName(name: string, color: Color): string {
+  return `${name}-${color}`
+}
+
+/**
+ * Fill `{color}` in the template, e.g. `{color}.internal.example.com` → `green.internal.example.com`
+ */
+export function colorDomainHost(template: string, color: Color): string {
+  return template.replace(/\{color\}/g, color)
+}
+
+function otherColor(color: Color): Color {
+  return color === 'blue' ? 'green' : 'blue'
+}
+
+/**
+ * Find both color applications and the one serving the production host.
+ * Without a live color, the first deploy goes to blue.
+ */
+export async function resolveColors(
+  client: DokployClient,
+  scope: ApplicationScope,
+  applicationName: string,
+  productionHost: string
+): Promise<ColorState> {
+  const project = await client.getProject(scope.projectId)
+  const environment = project.environments?.find(
+    env => (env.environmentId || env.id) === scope.environmentId
+  )
+
+  const applicationIds: Partial<Record<Color, string>> = {}
+  let live: Color | undefined
+  for (const color of COLORS) {
+    const application = environment?.applications?.find(
+      app => app.name === colorApplicationName(applicationName, color)
+    )
+    const applicationId = application?.applicationId || application?.id
+    if (!applicationId) {
+      continue
+    }
+    applicationIds[color] = applicationId
+    if (!live) {
+      const domains = await client.getDomains(applicationId)
+      if (domains.some(domain => domain.host === productionHost)) {
+        live = color
+      }
+    }
+  }
+
+  return { live, idle: live ? otherColor(live) : 'blue', applicationIds }
+}
+
+/**
+ * Point the production host at `targetId`: update the target's own entry for
+ * the host or create one, then remove the host from the other applications
+ */
+export async function switchProductionDomain(
+  client: DokployClient,
+  targetId: string,
+  otherIds: string[],
+  domainConfig: Partial<Domain>
+): Promise<DomainChange> {
+  const existing = (await client.getDomains(targetId)).find(
+    domain => domain.host === domainConfig.host
+  )
+
+  let change: DomainChange
+  if (existing) {
+    await client.updateDomain(existing.domainId || existing.id || '', domainConfig)
+    change = 'updated'
+  } else {
+    await client.createDomain(targetId, domainConfig)
+    change = 'created'
+  }
+  core.info(`✅ ${domainConfig.host} now routes to application ${targetId}`)
+
+  // The new route is in place before the old one goes away
+  for (const otherId of otherIds) {
+    const domains = await client.getDomains(otherId)
+    for (const domain of domains.filter(entry => entry.host === domainConfig.host)) {
+      await client.removeDomain(domain.domainId || domain.id || '')
+      core.info(`➖ Removed ${domainConfig.host} from application ${otherId}`)
+    }
+  }
+  return change
+}
@@ -0,0 +1,132 @@
+/**
+ * Canary releases (deployment-strategy: canary)
+ *
+ * The new image is deployed to a sibling application, `<app>-canary`. Traffic
+ * for domain-host is then shifted to it step by step through a weighted
+ * Traefik config written onto the stable application; every step has to pass
+ * the health check and the error-rate probe. After the last step the stable
+ * application is updated to the new image and its own routing is restored.
+ * A failed step restores that routing at once, sending all traffic back to
+ * the stable application.
+ */
+
+import * as core from '@actions/core'
+import { findApplicationInScope } from './resolve'
+import { buildWeightedTraefikConfig, serviceUrl } from './traefik'
+import type { DokployClient } from './client/dokploy-client'
+import type { ApplicationScope } from './applications'
+import type { TraefikRoute } from './traefik'
+import type { Application, Domain } from './types/dokploy'
+
+export const DEFAULT_CANARY_STEPS = [10, 50, 100]
+
+// Requests per error-rate probe
+export const CANARY_PROBE_REQUESTS = 20
+
+export interface CanaryRouting {
+  stableId: string
+  originalConfig: string
+  route: TraefikRoute
+  stableUrl: string
+  canaryUrl: string
+}
+
+export function canaryApplicationName(name: string): string {
+  return `${name}-canary`
+}
+
+/**
+ * Parse canary-steps, a comma separated list of traffic percentages such as `10,50,100`
+ */
+export function parseCanarySteps(raw: string | undefined): number[] | undefined {
+  if (!raw) {
+    return undefined
+  }
+  return raw
+    .split(',')
+    .map(step => step.trim().replace(/%$/, ''))
+    .filter(step => step.length > 0)
+    .map(step => Number(step))
+}
+
+/**
+ * Find the stable application; a canary is always measured against a running one
+ */
+export async function findStableApplication(
+  client: DokployClient,
+  scope: ApplicationScope,
+  applicationName: string
+): Promise<Application> {
+  const stable = await findApplicationInScope(client, scope, applicationName)
+  if (!stable) {
+    throw new Error(
+      `Canary needs a running application "${applicationName}"; deploy it with the rolling strategy first`
+    )
+  }
+  return stable
+}
+
+/**
+ * Collect what the weighted config needs, including the stable application's
+ * current Traefik config so it can be restored afterwards
+ */
+export async function resolveCanaryRouting(
+  client: DokployClient,
+  stableId: string,
+  canaryId: string,
+  domainConfig: Partial<Domain>
+): Promise<CanaryRouting> {
+  const [stable, canary] = await Promise.all([
+    client.getApplication(stableId),
+    client.getApplication(canaryId)
+  ])
+  const stableAppName = stable.appName || stable.name
+  const port = domainConfig.port || 8080
+
+  return {
+    stableId,
+    originalConfig: await client.readTraefikConfig(stableId),
+    route: {
+      name: stableAppName,
+      host: domainConfig.host || '',
+      path: domainConfig.path,
+      https: domainConfig.https,
+      certificateType: domainConfig.certificateType
+    },
+    stableUrl: serviceUrl(stableAppName, port),
+    canaryUrl: serviceUrl(canary.appName || canary.name, port)
+  }
+}
+
+/**
+ * Weighted config sending `percent` of the traffic to the canary
+ */
+export function canaryTraefikConfig(routing: CanaryRouting, percent: number): string {
+  return buildWeightedTraefikConfig(routing.route, [
+    { name: `${routing.route.name}-stable`, url: routing.stableUrl, weight: 100 - percent },
+    { name: `${routing.route.name}-canary`, url: routing.canaryUrl, weight: percent }
+  ])
+}
+
+export async function shiftCanaryTraffic(
+  client: DokployClient,
+  routing: CanaryRouting,
+  percent: number
+): Promise<void> {
+  await client.updateTraefikConfig(routing.stableId, canaryTraefikConfig(routing, percent))
+  core.info(`🐤 ${percent}% of ${routing.route.host} traffic goes to the canary`)
+}
+
+/**
+ * Put the stable application's own routing back, i.e. 0% canary traffic
+ */
+export async function restoreStableRouting(
+  client: DokployClient,
+  routing: CanaryRouting
+): Promise<void> {
+  await client.updateTraefikConfig(
+    routing.stableId,
+    routing.originalConfig || canaryTraefikConfig(routing, 0)
+  )
+  core.info(`↩️ All ${routing.route.host} traffic goes to the stable application`)
+}
@@ -0,0 +1,114 @@
+/**
+ * Stop Dokploy builds the action gave up on
+ *
+ * A deployment that outlives the wait timeout, or a workflow run that is
+ * cancelled, would otherwise keep building on Dokploy and could later switch
+ * the application to an image we already considered failed.
+ */
+
+import * as core from '@actions/core'
+import type { DokployClient } from './client/dokploy-client'
+
+export interface BuildTarget {
+  type: 'application' | 'compose'
+  id: string
+}
+
+/**
+ * Cancel the running deployment, then kill its build process.
+ * Never throws; returns true when at least one call succeeded.
+ */
+export async function cancelBuild(client: DokployClient, target: BuildTarget): Promise<boolean> {
+  const calls: [string, () => Promise<void>][] =
+    target.type === 'compose'
+      ? [
+          ['cancel deployment', () => client.cancelComposeDeployment(target.id)],
+          ['kill build', () => client.killComposeBuild(target.id)]
+        ]
+      : [
+          ['cancel deployment', () => client.cancelDeployment(target.id)],
+          ['kill build', () => client.killBuild(target.id)]
+        ]
+
+  let stopped = false
+  for (const [name, call] of calls) {
+    try {
+      await call()
+      stopped = true
+    } catch (error) {
+      core.warning(
+        `⚠️ Failed to ${name} for ${target.type} ${target.id}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  }
+
+  return stopped
+}
+
+/**
+ * Remove queued deployments so stale builds don't race the one we are about to start
+ */
+export async function cleanBuildQueue(client: DokployClient, target: BuildTarget): Promise<void> {
+  try {
+    if (target.type === 'compose') {
+      await client.cleanComposeQueues(target.id)
+    } else {
+      await client.cleanQueues(target.id)
+    }
+  } catch (error) {
+    core.warning(
+      `⚠️ Failed to clean deployment queue: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+type CancellationHandler = (signal: NodeJS.Signals) => Promise<void>
+
+const activeHandlers = new Set<CancellationHandler>()
+let listenersInstalled = false
+let cancelling = false
+
+async function handleSignal(signal: NodeJS.Signals): Promise<void> {
+  // The runner follows SIGINT with SIGTERM; let the first cleanup finish
+  if (cancelling) {
+    return
+  }
+  cancelling = true
+
+  core.warning(`⚠️ Received ${signal}, the workflow run was cancelled`)
+  const handlers = [...activeHandlers]
+  activeHandlers.clear()
+
+  // Deployments of several applications may be in flight at once
+  await Promise.all(
+    handlers.map(async handler => {
+      try {
+        await handler(signal)
+      } catch (error) {
+        core.warning(
+          `⚠️ Cancellation cleanup failed: ${error instanceof Error ? error.message : String(error)}`
+        )
+      }
+    })
+  )
+
+  core.setFailed(`❌ Deployment cancelled (${signal})`)
+  process.exit(1)
+}
+
+/**
+ * Run `handler` when the runner sends SIGINT/SIGTERM for a cancelled workflow.
+ * Every registered handler runs; returns a function that unregisters this one.
+ */
+export function onCancellation(handler: CancellationHandler): () => void {
+  if (!listenersInstalled) {
+    process.on('SIGINT', signal => void handleSignal(signal))
+    process.on('SIGTERM', signal => void handleSignal(signal))
+    listenersInstalled = true
+  }
+
+  activeHandlers.add(handler)
+  return () => {
+    activeHandlers.delete(handler)
+  }
+}
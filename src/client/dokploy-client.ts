@@ -17,6 +17,103 @@ import type {
   Compose
 } from '../types/dokploy'
 import { debugLog, logApiRequest, logApiResponse, sleep } from '../utils/helpers'
+import { actionLog } from '../log'
+import type { DeploymentLog } from '../log'
+
+/**
+ * Raised by waitForDeployment when the deployment is still running after its timeout
+ */
+export class DeploymentTimeoutError extends Error {
+  constructor(
+    public deploymentId: string,
+    public timeoutSeconds: number,
+    public status?: string
+  ) {
+    super(`Deployment timeout after ${timeoutSeconds}s (status: ${status})`)
+    this.name = 'DeploymentTimeoutError'
+  }
+}
+
+const DEFAULT_MAX_RETRIES = 3
+const DEFAULT_RETRY_DELAY_SECONDS = 1
+const MAX_RETRY_DELAY_MS = 30000
+
+// Network errors raised before the request reached Dokploy, safe to retry for any call
+const CONNECTION_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']
+
+// Network errors where the request may already have been processed
+const TRANSIENT_ERROR_CODES = [...CONNECTION_ERROR_CODES, 'ECONNRESET', 'ETIMEDOUT', 'EPIPE']
+
+/**
+ * Error returned by the Dokploy API, or a network failure reaching it.
+ * `statusCode` is 0 when no HTTP response was received; `code` is then the
+ * network error code (e.g. ECONNRESET) instead of Dokploy's error code (e.g. BAD_REQUEST).
+ */
+export class DokployApiError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public endpoint: string,
+    public method: 'GET' | 'POST',
+    public code?: string,
+    public body?: unknown,
+    public retryAfter?: string
+  ) {
+    super(message)
+    this.name = 'DokployApiError'
+  }
+
+  /**
+   * Message reported by Dokploy in the response body, without the request prefix
+   */
+  get apiMessage(): string | undefined {
+    if (typeof this.body === 'string') return this.body
+    const body = this.body as { message?: unknown; error?: unknown } | undefined
+    if (typeof body?.message === 'string') return body.message
+    if (typeof body?.error === 'string') return body.error
+    return undefined
+  }
+
+  /**
+   * Rate limits, server errors and network failures are worth retrying
+   */
+  get retryable(): boolean {
+    if (this.statusCode === 0) {
+      return this.code !== undefined && TRANSIENT_ERROR_CODES.includes(this.code)
+    }
+    return this.statusCode === 429 || this.statusCode >= 500
+  }
+}
+
+/**
+ * POST procedures that can be repeated without side effects (updates and saves
+ * overwrite state). Creates, deletes, deploys and rollbacks are never retried
+ * after the request may have reached Dokploy.
+ */
+function isIdempotentPost(endpoint: string): boolean {
+  return /\.(update\w*|save\w*|stop|start)$/.test(endpoint)
+}
+
+/**
+ * Delay before the next retry: Retry-After when Dokploy sends one,
+ * otherwise exponential backoff with full jitter
+ */
+export function computeRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  retryAfter?: string
+): number {
+  if (retryAfter) {
+    const seconds = Number(retryAfter)
+    const delayMs = isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000
+    if (!isNaN(delayMs)) {
+      return Math.min(Math.max(delayMs, 0), MAX_RETRY_DELAY_MS)
+    }
+  }
+
+  const exponential = Math.min(baseDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS)
+  return Math.round(Math.random() * exponential)
+}
 
 export class DokployClient {
   private baseUrl: string
@@ -33,7 +130,8 @@ export class DokployClient {
         accept: 'application/json',
         'content-type': 'application/json',
         'x-api-key': config.apiKey
-      }
+      },
+      socketTimeout: config.requestTimeout ? config.requestTimeout * 1000 : undefined
     })
   }
 
@@ -41,50 +139,120 @@ export class DokployClient {
    * Make a GET request to Dokploy API
    */
   async get<T>(endpoint: string): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`
-    logApiRequest('GET', url)
+    return await this.request<T>('GET', endpoint)
+  }
 
-    try {
-      const response = await this.client.getJson<T>(url)
-      logApiResponse(response.statusCode ?? 0, response.result)
+  /**
+   * Make a POST request to Dokploy API
+   */
+  async post<T, B = unknown>(endpoint: string, body: B = {} as B): Promise<T> {
+    return await this.request<T>('POST', endpoint, body)
+  }
 
-      if (response.statusCode !== 200) {
-        throw new Error(`GET ${endpoint} failed with status ${response.statusCode}`)
-      }
+  /**
+   * Send a request, retrying transient failures with backoff.
+   * GETs and idempotent POSTs retry on network errors, 429 and 5xx;
+   * other POSTs only retry when Dokploy cannot have processed them.
+   */
+  private async request<T>(method: 'GET' | 'POST', endpoint: string, body?: unknown): Promise<T> {
+    const maxRetries = this.config.maxRetries ?? DEFAULT_MAX_RETRIES
+    const baseDelayMs = (this.config.retryDelay ?? DEFAULT_RETRY_DELAY_SECONDS) * 1000
+    const idempotent = method === 'GET' || isIdempotentPost(endpoint)
+
+    for (let attempt = 0; ; attempt++) {
+      this.config.deadline?.check()
+      try {
+        return await this.send<T>(method, endpoint, body)
+      } catch (error) {
+        const apiError = error instanceof DokployApiError ? error : undefined
+        const safeToRetry =
+          apiError !== undefined &&
+          apiError.retryable &&
+          (idempotent ||
+            apiError.statusCode === 429 ||
+            (apiError.code !== undefined && CONNECTION_ERROR_CODES.includes(apiError.code)))
+
+        if (!safeToRetry || attempt >= maxRetries) {
+          core.error(`❌ ${method} request failed: ${endpoint}`)
+          throw error
+        }
 
-      return response.result as T
-    } catch (error) {
-      core.error(`❌ GET request failed: ${endpoint}`)
-      throw error
+        const remaining = this.config.deadline?.remainingSeconds()
+        const delayMs = Math.min(
+          computeRetryDelay(attempt, baseDelayMs, apiError.retryAfter),
+          remaining === undefined ? Infinity : remaining * 1000
+        )
+        core.warning(
+          `⚠️ ${apiError.message} - retrying in ${(delayMs / 1000).toFixed(1)}s (attempt ${attempt + 1}/${maxRetries})`
+        )
+        await sleep(delayMs)
+      }
     }
   }
 
   /**
-   * Make a POST request to Dokploy API
+   * Perform a single request, converting failures into DokployApiError
    */
-  async post<T, B = unknown>(endpoint: string, body: B = {} as B): Promise<T> {
+  private async send<T>(method: 'GET' | 'POST', endpoint: string, body?: unknown): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`
-    logApiRequest('POST', url, body)
+    logApiRequest(method, url, body)
 
+    let response: httpm.HttpClientResponse
+    let text: string
     try {
-      const response = await this.client.postJson<T>(url, body)
-      logApiResponse(response.statusCode ?? 0, response.result)
-
-      if (response.statusCode !== 200 && response.statusCode !== 201) {
-        const errorMessage =
-          (response.result as { message?: string })?.message ||
-          (response.result as { error?: string })?.error ||
-          'Unknown error'
-        throw new Error(
-          `POST ${endpoint} failed with status ${response.statusCode}: ${errorMessage}`
-        )
+      response =
+        method === 'GET'
+          ? await this.client.get(url)
+          : await this.client.post(url, JSON.stringify(body ?? {}))
+      text = await response.readBody()
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      // @actions/http-client reports socket timeouts without an error code
+      const code =
+        (error as NodeJS.ErrnoException).code ||
+        (message.startsWith('Request timeout') ? 'ETIMEDOUT' : undefined)
+      throw new DokployApiError(
+        `${method} ${endpoint} failed: ${message}`,
+        0,
+        endpoint,
+        method,
+        code,
+        undefined
+      )
+    }
+
+    const statusCode = response.message.statusCode ?? 0
+    let result: unknown = null
+    if (text) {
+      try {
+        result = JSON.parse(text)
+      } catch (error) {
+        result = text
       }
+    }
+    logApiResponse(statusCode, result)
 
-      return response.result as T
-    } catch (error) {
-      core.error(`❌ POST request failed: ${endpoint}`)
-      throw error
+    if (statusCode === 200 || (method === 'POST' && statusCode === 201)) {
+      return result as T
     }
+
+    const parsed = (typeof result === 'object' ? result : null) as {
+      message?: string
+      error?: string
+      code?: string
+    } | null
+    const errorMessage =
+      (typeof result === 'string' && result) || parsed?.message || parsed?.error || 'Unknown error'
+    const retryAfter = response.message.headers['retry-after']
+    throw new DokployApiError(
+      `${method} ${endpoint} failed with status ${statusCode}: ${errorMessage}`,
+      statusCode,
+      endpoint,
+      method,
+      typeof parsed?.code === 'string' ? parsed.code : undefined,
+      result,
+      Array.isArray(retryAfter) ? retryAfter[0] : retryAfter
+    )
   }
 
   // ========================================================================
@@ -152,6 +320,12 @@ export class DokployClient {
     return { projectId, defaultEnvironmentId }
   }
 
+  async removeProject(projectId: string): Promise<void> {
+    core.info(`🗑️ Removing project: ${projectId}`)
+    await this.post('/api/project.remove', { projectId })
+    core.info('✅ Project removed')
+  }
+
   // ========================================================================
   // Environment Management
   // ========================================================================
@@ -183,6 +357,17 @@ export class DokployClient {
     return environmentId
   }
 
+  async getEnvironment(environmentId: string): Promise<Environment> {
+    debugLog(`Fetching environment: ${environmentId}`)
+    return await this.get<Environment>(`/api/environment.one?environmentId=${environmentId}`)
+  }
+
+  async removeEnvironment(environmentId: string): Promise<void> {
+    core.info(`🗑️ Removing environment: ${environmentId}`)
+    await this.post('/api/environment.remove', { environmentId })
+    core.info('✅ Environment removed')
+  }
+
   async findEnvironmentInProject(
     projectId: string,
     environmentName: string
@@ -274,6 +459,12 @@ export class DokployClient {
     core.info(`✅ Updated application: ${applicationId}`)
   }
 
+  async deleteApplication(applicationId: string): Promise<void> {
+    core.info(`🗑️ Deleting application: ${applicationId}`)
+    await this.post('/api/application.delete', { applicationId })
+    core.info(`✅ Application deleted: ${applicationId}`)
+  }
+
   async saveApplicationResources(
     applicationId: string,
     memoryLimit?: number,
@@ -469,6 +660,35 @@ export class DokployClient {
     return app.domains || []
   }
 
+  // ========================================================================
+  // Traefik Configuration
+  // ========================================================================
+
+  async readTraefikConfig(applicationId: string): Promise<string> {
+    debugLog('Reading Traefik config', { applicationId })
+    const result = await this.get<string | null>(
+      `/api/application.readTraefikConfig?applicationId=${applicationId}`
+    )
+    return result || ''
+  }
+
+  async updateTraefikConfig(applicationId: string, traefikConfig: string): Promise<void> {
+    core.info(`🔀 Updating Traefik config: ${applicationId}`)
+    debugLog('Traefik config', { applicationId, traefikConfig })
+    await this.post('/api/application.updateTraefikConfig', { applicationId, traefikConfig })
+    core.info(`✅ Traefik config updated: ${applicationId}`)
+  }
+
+  // ========================================================================
+  // Mount Management
+  // ========================================================================
+
+  async removeMount(mountId: string): Promise<void> {
+    core.info(`🗑️ Removing mount: ${mountId}`)
+    await this.post('/api/mounts.remove', { mountId })
+    core.info(`✅ Mount removed: ${mountId}`)
+  }
+
   // ========================================================================
   // Deployment
   // ========================================================================
@@ -499,54 +719,111 @@ export class DokployClient {
     return result
   }
 
+  async cancelDeployment(applicationId: string): Promise<void> {
+    core.info(`🛑 Cancelling deployment for application: ${applicationId}`)
+    await this.post('/api/application.cancelDeployment', { applicationId })
+    core.info(`✅ Deployment cancelled: ${applicationId}`)
+  }
+
+  async killBuild(applicationId: string): Promise<void> {
+    core.info(`🛑 Killing build for application: ${applicationId}`)
+    await this.post('/api/application.killBuild', { applicationId })
+    core.info(`✅ Build killed: ${applicationId}`)
+  }
+
+  async cleanQueues(applicationId: string): Promise<void> {
+    core.info(`🧹 Cleaning deployment queue for application: ${applicationId}`)
+    await this.post('/api/application.cleanQueues', { applicationId })
+    core.info(`✅ Deployment queue cleaned: ${applicationId}`)
+  }
+
   async getDeployment(deploymentId: string): Promise<Deployment> {
     debugLog(`Fetching deployment: ${deploymentId}`)
     return await this.get<Deployment>(`/api/deployment.one?deploymentId=${deploymentId}`)
   }
 
+  async getDeployments(applicationId: string): Promise<Deployment[]> {
+    debugLog(`Fetching deployments for application: ${applicationId}`)
+    const result = await this.get<Deployment[]>(
+      `/api/deployment.all?applicationId=${applicationId}`
+    )
+    return result || []
+  }
+
+  async getComposeDeployments(composeId: string): Promise<Deployment[]> {
+    debugLog(`Fetching deployments for compose service: ${composeId}`)
+    const result = await this.get<Deployment[]>(
+      `/api/deployment.allByCompose?composeId=${composeId}`
+    )
+    return result || []
+  }
+
+  async rollbackDeployment(rollbackId: string): Promise<void> {
+    core.info(`⏪ Rolling back to previous deployment (rollback ID: ${rollbackId})`)
+    await this.post('/api/rollback.rollback', { rollbackId })
+    core.info(`✅ Rollback triggered: ${rollbackId}`)
+  }
+
   async getDeploymentLogs(deploymentId: string): Promise<string> {
     debugLog(`Fetching deployment logs: ${deploymentId}`)
     const deployment = await this.getDeployment(deploymentId)
     return deployment.logs || ''
   }
 
+  /**
+   * Poll a deployment until it completes, fails or times out.
+   * When `onLogs` is given it receives only the log text added since the previous poll.
+   * Progress goes to `log`, so concurrent deployments keep their own prefix.
+   */
   async waitForDeployment(
     deploymentId: string,
     timeoutSeconds: number = 300,
-    pollIntervalSeconds: number = 5
+    pollIntervalSeconds: number = 5,
+    onLogs?: (chunk: string) => void,
+    log: DeploymentLog = actionLog
   ): Promise<Deployment> {
-    core.info(`⏳ Waiting for deployment to complete (timeout: ${timeoutSeconds}s)`)
+    log.info(`⏳ Waiting for deployment to complete (timeout: ${timeoutSeconds}s)`)
     const startTime = Date.now()
     const timeoutMs = timeoutSeconds * 1000
     const pollIntervalMs = pollIntervalSeconds * 1000
+    let logOffset = 0
 
     // eslint-disable-next-line no-constant-condition
     while (true) {
       const deployment = await this.getDeployment(deploymentId)
       const status = deployment.status
 
+      if (onLogs && deployment.logs) {
+        // Start over if Dokploy truncated or replaced the log
+        if (deployment.logs.length < logOffset) {
+          logOffset = 0
+        }
+        if (deployment.logs.length > logOffset) {
+          onLogs(deployment.logs.slice(logOffset))
+          logOffset = deployment.logs.length
+        }
+      }
+
       if (status === 'completed') {
-        core.info(`✅ Deployment completed successfully`)
+        log.info(`✅ Deployment completed successfully`)
         return deployment
       }
 
       if (status === 'failed') {
-        core.error(`❌ Deployment failed`)
-        if (deployment.logs) {
-          core.error('Deployment logs:')
-          core.error(deployment.logs)
+        log.error(`❌ Deployment failed`)
+        if (deployment.logs && !onLogs) {
+          log.error('Deployment logs:')
+          log.error(deployment.logs)
         }
         throw new Error('Deployment failed - check logs above for details')
       }
 
       const elapsed = Date.now() - startTime
       if (elapsed >= timeoutMs) {
-        throw new Error(
-          `Deployment timeout after ${timeoutSeconds}s (status: ${status})`
-        )
+        throw new DeploymentTimeoutError(deploymentId, timeoutSeconds, status)
       }
 
-      core.info(`  Status: ${status} (${Math.round(elapsed / 1000)}s elapsed)`)
+      log.info(`  Status: ${status} (${Math.round(elapsed / 1000)}s elapsed)`)
       await sleep(pollIntervalMs)
     }
   }
@@ -555,15 +832,19 @@ export class DokployClient {
   // Container Operations
   // ========================================================================
 
-  async getContainers(applicationId: string): Promise<Container[]> {
-    debugLog(`Fetching containers for application: ${applicationId}`)
-    return await this.get<Container[]>(`/api/container.all?applicationId=${applicationId}`)
-  }
-
-  async removeContainer(containerName: string): Promise<void> {
-    core.info(`🗑️ Removing container: ${containerName}`)
-    await this.post('/api/container.remove', { containerName })
-    core.info(`✅ Container removed: ${containerName}`)
+  async getContainers(
+    appName: string,
+    serverId?: string,
+    appType?: 'stack' | 'docker-compose'
+  ): Promise<Container[]> {
+    debugLog(`Fetching containers matching app name: ${appName}`)
+    const params = new URLSearchParams({ appName })
+    if (appType) params.set('appType', appType)
+    if (serverId) params.set('serverId', serverId)
+    const result = await this.get<Container[]>(
+      `/api/docker.getContainersByAppNameMatch?${params.toString()}`
+    )
+    return result || []
   }
 
   // ========================================================================
@@ -646,6 +927,15 @@ export class DokployClient {
     core.info(`✅ Updated compose service: ${composeId}`)
   }
 
+  /**
+   * Delete a compose service, optionally with its named volumes
+   */
+  async deleteCompose(composeId: string, deleteVolumes = false): Promise<void> {
+    core.info(`🗑️ Deleting compose service: ${composeId}`)
+    await this.post('/api/compose.delete', { composeId, deleteVolumes })
+    core.info(`✅ Compose service deleted: ${composeId}`)
+  }
+
   /**
    * Deploy a compose service
    */
@@ -673,6 +963,24 @@ export class DokployClient {
     return response
   }
 
+  async cancelComposeDeployment(composeId: string): Promise<void> {
+    core.info(`🛑 Cancelling deployment for compose service: ${composeId}`)
+    await this.post('/api/compose.cancelDeployment', { composeId })
+    core.info(`✅ Deployment cancelled: ${composeId}`)
+  }
+
+  async killComposeBuild(composeId: string): Promise<void> {
+    core.info(`🛑 Killing build for compose service: ${composeId}`)
+    await this.post('/api/compose.killBuild', { composeId })
+    core.info(`✅ Build killed: ${composeId}`)
+  }
+
+  async cleanComposeQueues(composeId: string): Promise<void> {
+    core.info(`🧹 Cleaning deployment queue for compose service: ${composeId}`)
+    await this.post('/api/compose.cleanQueues', { composeId })
+    core.info(`✅ Deployment queue cleaned: ${composeId}`)
+  }
+
   /**
    * Save compose file content and environment variables
    * Uses compose.update to set both composeFile and env
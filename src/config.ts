@@ -2,7 +2,9 @@
  * Configuration builders for applications and domains
  */
 
+import * as core from '@actions/core'
 import type { ActionInputs, Application, Domain } from './types/dokploy'
+import { loadEnvFile, parseDotenv, formatEnvVariables } from './env-file'
 
 export function buildApplicationConfig(
   name: string,
@@ -98,6 +100,13 @@ export function buildApplicationConfig(
   return config
 }
 
+/**
+ * Certificate type of a domain that does not set one, shared by domain-host and domains
+ */
+export function defaultCertificateType(inputs: ActionInputs): Domain['certificateType'] {
+  return (inputs.sslCertificateType as Domain['certificateType']) || 'letsencrypt'
+}
+
 export function buildDomainConfig(inputs: ActionInputs): Partial<Domain> | null {
   if (!inputs.domainHost) {
     return null
@@ -110,23 +119,32 @@ export function buildDomainConfig(inputs: ActionInputs): Partial<Domain> | null
     path: inputs.domainPath || '/',
     port: applicationPort,
     https: inputs.domainHttps !== false,
-    certificateType:
-      (inputs.sslCertificateType as 'letsencrypt' | 'custom' | 'none') || 'letsencrypt',
+    certificateType: defaultCertificateType(inputs),
     domainType: 'application',
     stripPath: inputs.domainStripPath || false
   }
 }
 
-export function parseEnvironmentVariables(inputs: ActionInputs): string {
-  // Priority: env-from-json > env-file > env
+type EnvLayer = 'env-file' | 'env-from-json' | 'env' | 'existing'
+
+/**
+ * Collect variables from each source in merge order: env-file → env-from-json → env
+ */
+function readEnvironmentLayers(inputs: ActionInputs): [EnvLayer, Record<string, string>][] {
+  const layers: [EnvLayer, Record<string, string>][] = []
+
+  if (inputs.envFile) {
+    layers.push(['env-file', loadEnvFile(inputs.envFile)])
+  }
 
-  // Try JSON format first
   if (inputs.envFromJson) {
     try {
-      const obj = JSON.parse(inputs.envFromJson)
-      return Object.entries(obj)
-        .map(([key, value]) => `${key}=${value}`)
-        .join('\n')
+      const obj = JSON.parse(inputs.envFromJson) as Record<string, unknown>
+      const variables: Record<string, string> = {}
+      Object.entries(obj).forEach(([key, value]) => {
+        variables[key] = String(value)
+      })
+      layers.push(['env-from-json', variables])
     } catch (error) {
       throw new Error(
         `Failed to parse env-from-json: ${error instanceof Error ? error.message : String(error)}`
@@ -134,10 +152,122 @@ export function parseEnvironmentVariables(inputs: ActionInputs): string {
     }
   }
 
-  // Use direct string format
   if (inputs.env) {
+    layers.push(['env', parseDotenv(inputs.env, 'env', { strict: false })])
+  }
+
+  return layers
+}
+
+/**
+ * Build the environment string to save in Dokploy.
+ *
+ * Sources are layered env-file → env-from-json → env, later layers win.
+ * env-merge-mode controls how the result is applied:
+ * - replace: the merged set replaces the application's environment
+ * - merge-with-existing: only supplied keys overwrite `existingEnv`
+ * - strict: a key defined in more than one source is an error
+ *
+ * Without env-file, env-from-json or existing variables to merge, the env
+ * input is passed through unchanged.
+ */
+export function parseEnvironmentVariables(
+  inputs: ActionInputs,
+  existingEnv?: Record<string, string> | string
+): string {
+  const mode = inputs.envMergeMode || 'replace'
+  const layers = readEnvironmentLayers(inputs)
+
+  const variables: Record<string, string> = {}
+  const sources: Record<string, EnvLayer> = {}
+  const duplicates: string[] = []
+
+  if (mode === 'merge-with-existing' && existingEnv) {
+    const existing =
+      typeof existingEnv === 'string'
+        ? parseDotenv(existingEnv, 'existing environment', { strict: false })
+        : existingEnv
+    Object.entries(existing).forEach(([key, value]) => {
+      variables[key] = value
+      sources[key] = 'existing'
+    })
+  }
+
+  for (const [layer, layerVariables] of layers) {
+    Object.entries(layerVariables).forEach(([key, value]) => {
+      if (sources[key] && sources[key] !== 'existing') {
+        duplicates.push(`${key} (${sources[key]}, ${layer})`)
+      }
+      variables[key] = value
+      sources[key] = layer
+    })
+  }
+
+  if (mode === 'strict' && duplicates.length > 0) {
+    throw new Error(
+      `Duplicate environment variables in strict env-merge-mode: ${duplicates.join(', ')}`
+    )
+  }
+
+  if (layers.every(([, layerVariables]) => Object.keys(layerVariables).length === 0)) {
+    return ''
+  }
+
+  // Log where each key came from, never the values
+  const bySource: Partial<Record<EnvLayer, string[]>> = {}
+  Object.entries(sources).forEach(([key, source]) => {
+    bySource[source] = [...(bySource[source] || []), key]
+  })
+  core.info(`Environment variables (merge mode: ${mode}):`)
+  ;(['existing', 'env-file', 'env-from-json', 'env'] as EnvLayer[]).forEach(source => {
+    const keys = bySource[source]
+    if (keys && keys.length > 0) {
+      core.info(`  ${source}: ${keys.join(', ')}`)
+    }
+  })
+  duplicates.forEach(duplicate => core.info(`  overridden: ${duplicate}`))
+
+  // The env input alone is stored exactly as written, for Dokploy to read
+  if (inputs.env && layers.length === 1 && !Object.values(sources).includes('existing')) {
     return inputs.env
   }
 
-  return ''
+  return formatEnvVariables(variables)
+}
+
+/**
+ * Load compose content from the first configured source:
+ * dokploy-template-base64 > compose-raw > compose-file
+ */
+export async function loadComposeContent(inputs: ActionInputs): Promise<string> {
+  let composeContent = ''
+
+  if (inputs.dokployTemplateBase64) {
+    // Decode Base64 template
+    core.info('📥 Loading Dokploy template from Base64...')
+    composeContent = Buffer.from(inputs.dokployTemplateBase64, 'base64').toString('utf-8')
+    core.info(`✅ Template decoded (${composeContent.split('\n').length} lines)`)
+  } else if (inputs.composeRaw) {
+    // Use raw compose content
+    core.info('📥 Using raw compose content...')
+    composeContent = inputs.composeRaw
+    core.info(`✅ Compose content loaded (${composeContent.split('\n').length} lines)`)
+  } else if (inputs.composeFile) {
+    // Read compose file from filesystem
+    const fs = await import('fs/promises')
+    const path = await import('path')
+
+    core.info(`📥 Reading compose file: ${inputs.composeFile}`)
+    const fullPath = path.resolve(process.cwd(), inputs.composeFile)
+
+    try {
+      composeContent = await fs.readFile(fullPath, 'utf-8')
+      core.info(`✅ Compose file loaded (${composeContent.split('\n').length} lines)`)
+    } catch (error) {
+      core.error(`❌ Failed to read compose file: ${inputs.composeFile}`)
+      throw error
+    }
+  }
+
+  return composeContent
 }
@@ -0,0 +1,95 @@
+/**
+ * Overall time budget for the action (action-timeout)
+ *
+ * Every phase draws from the same budget. Long-running work checks the
+ * deadline cooperatively: API requests before each attempt, health checks
+ * through a capped timeout, so a hanging Dokploy instance fails fast with
+ * the name of the phase that ran out of time.
+ */
+
+export class DeadlineExceededError extends Error {
+  constructor(
+    public phase: string,
+    public budgetSeconds: number
+  ) {
+    super(`action-timeout of ${budgetSeconds}s exhausted during ${phase}`)
+    this.name = 'DeadlineExceededError'
+  }
+}
+
+export class ActionDeadline {
+  private expiresAt?: number
+  private phase = 'startup'
+  private name?: string
+
+  constructor(private readonly budgetSeconds?: number) {
+    if (budgetSeconds && budgetSeconds > 0) {
+      this.expiresAt = Date.now() + budgetSeconds * 1000
+    }
+  }
+
+  /**
+   * Name the phase that subsequent work belongs to, failing if the budget is already spent
+   */
+  enter(phase: string): void {
+    this.phase = this.name ? `${this.name}: ${phase}` : phase
+    this.check()
+  }
+
+  /**
+   * A deadline drawing from the same budget with its own phase, named
+   * `<name>: <phase>`, for work that runs alongside other work
+   */
+  scoped(name: string): ActionDeadline {
+    const scoped = new ActionDeadline(this.budgetSeconds)
+    scoped.expiresAt = this.expiresAt
+    scoped.name = name
+    scoped.phase = `${name}: ${this.phase}`
+    return scoped
+  }
+
+  get currentPhase(): string {
+    return this.phase
+  }
+
+  /**
+   * Seconds left in the budget, or undefined when no action-timeout is set
+   */
+  remainingSeconds(): number | undefined {
+    if (this.expiresAt === undefined) {
+      return undefined
+    }
+    return Math.max(0, (this.expiresAt - Date.now()) / 1000)
+  }
+
+  expired(): boolean {
+    return this.remainingSeconds() === 0
+  }
+
+  /**
+   * Throw DeadlineExceededError naming the current phase once the budget is spent
+   */
+  check(): void {
+    if (this.expired()) {
+      throw new DeadlineExceededError(this.phase, this.budgetSeconds || 0)
+    }
+  }
+
+  /**
+   * Allow a short grace period past the deadline for work that must still run,
+   * such as cancelling a build that outlived the budget
+   */
+  grace(seconds: number): void {
+    if (this.expiresAt !== undefined) {
+      this.expiresAt = Math.max(this.expiresAt, Date.now() + seconds * 1000)
+    }
+  }
+
+  /**
+   * Limit a phase-specific timeout to what is left of the budget
+   */
+  cap(seconds: number): number {
+    const remaining = this.remainingSeconds()
+    return remaining === undefined ? seconds : Math.max(1, Math.min(seconds, Math.floor(remaining)))
+  }
+}
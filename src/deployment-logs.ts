@@ -0,0 +1,69 @@
+/**
+ * Live deployment log output while waiting for a deployment
+ *
+ * waitForDeployment hands over only the part of the log that is new since
+ * the previous poll; this prints it line by line and optionally keeps the
+ * full log in a file that workflows can upload as an artifact.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { actionLog } from './log'
+import type { DeploymentLog } from './log'
+
+export class DeploymentLogStream {
+  readonly filePath?: string
+  private pending = ''
+  private lines = 0
+
+  constructor(
+    logFile?: string,
+    private readonly log: DeploymentLog = actionLog
+  ) {
+    if (logFile) {
+      const workspace = process.env.GITHUB_WORKSPACE || process.cwd()
+      this.filePath = path.resolve(workspace, logFile)
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true })
+      fs.writeFileSync(this.filePath, '')
+    }
+  }
+
+  /**
+   * Number of log lines printed so far
+   */
+  get lineCount(): number {
+    return this.lines
+  }
+
+  /**
+   * Print complete lines from a new chunk, holding back a trailing partial line
+   */
+  write(chunk: string): void {
+    if (!chunk) {
+      return
+    }
+
+    if (this.filePath) {
+      fs.appendFileSync(this.filePath, chunk)
+    }
+
+    const parts = (this.pending + chunk).split(/\r?\n/)
+    this.pending = parts.pop() || ''
+    parts.forEach(line => this.print(line))
+  }
+
+  /**
+   * Print any trailing partial line once the deployment has finished
+   */
+  flush(): void {
+    if (this.pending) {
+      this.print(this.pending)
+      this.pending = ''
+    }
+  }
+
+  private print(line: string): void {
+    this.log.info(`  │ ${line}`)
+    this.lines++
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Teardown of applications and compose stacks (mode: destroy)
+ *
+ * Resources are resolved by name the same way the deploy path does. The
+ * service's domains and mounts are removed first, then the service itself,
+ * and optionally its environment and project once nothing else lives there.
+ */
+
+import * as core from '@actions/core'
+import { resolveExistingService, serviceName } from './resolve'
+import { escapeHtml } from './summary'
+import { ValidationError } from './validators'
+import type { DokployClient } from './client/dokploy-client'
+import type { ActionInputs, Domain, Environment, Mount } from './types/dokploy'
+
+export type DestroyedResourceType =
+  | 'domain'
+  | 'mount'
+  | 'application'
+  | 'compose'
+  | 'environment'
+  | 'project'
+
+export interface DestroyedResource {
+  type: DestroyedResourceType
+  name: string
+  id: string
+}
+
+/**
+ * Refuse to destroy anything unless confirm-destroy repeats the service name
+ * (or its ID when no name is given)
+ */
+export function assertDestroyConfirmed(inputs: ActionInputs): void {
+  const target = serviceName(inputs)
+  if (!target) {
+    throw new ValidationError(
+      'mode "destroy" requires the application or compose service to remove',
+      'confirm-destroy',
+      undefined,
+      'Set application-name or application-id (compose-name for compose deployments)'
+    )
+  }
+  if (inputs.confirmDestroy !== target) {
+    throw new ValidationError(
+      `confirm-destroy must be "${target}" to destroy it`,
+      'confirm-destroy',
+      inputs.confirmDestroy,
+      `Set confirm-destroy: ${target}`
+    )
+  }
+}
+
+function hasServices(environment: Environment): boolean {
+  return [
+    environment.applications,
+    environment.compose,
+    environment.postgres,
+    environment.mysql,
+    environment.mariadb,
+    environment.mongo,
+    environment.redis
+  ].some(services => (services?.length || 0) > 0)
+}
+
+/**
+ * Remove the service with its domains and mounts, then empty parents when requested.
+ * Returns everything that was deleted; an already removed service yields an empty list.
+ */
+export async function destroyResources(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<DestroyedResource[]> {
+  const destroyed: DestroyedResource[] = []
+
+  const target = await resolveExistingService(client, inputs)
+  if (!target) {
+    core.info(`ℹ️ ${serviceName(inputs)} not found, nothing to destroy`)
+    return destroyed
+  }
+  core.info(`🎯 Destroying ${target.type} ${target.name} (ID: ${target.id})`)
+
+  let domains: Domain[]
+  let mounts: Mount[]
+  if (target.type === 'compose') {
+    domains = await client.getDomainsByComposeId(target.id)
+    mounts = (await client.getCompose(target.id)).mounts || []
+  } else {
+    const application = await client.getApplication(target.id)
+    domains = application.domains || []
+    mounts = application.mounts || []
+  }
+
+  for (const domain of domains) {
+    const domainId = domain.domainId || domain.id
+    if (domainId) {
+      await client.removeDomain(domainId)
+      destroyed.push({ type: 'domain', name: domain.host, id: domainId })
+    }
+  }
+
+  for (const mount of mounts) {
+    if (mount.mountId) {
+      await client.removeMount(mount.mountId)
+      destroyed.push({ type: 'mount', name: mount.mountPath, id: mount.mountId })
+    }
+  }
+
+  if (target.type === 'compose') {
+    await client.deleteCompose(target.id, inputs.deleteVolumes ?? false)
+  } else {
+    await client.deleteApplication(target.id)
+  }
+  destroyed.push({ type: target.type, name: target.name, id: target.id })
+
+  if (!inputs.destroyEmptyEnvironment && !inputs.destroyEmptyProject) {
+    return destroyed
+  }
+
+  const environment = await client.getEnvironment(target.environmentId)
+  if (hasServices(environment)) {
+    core.info(`ℹ️ Environment ${environment.name} still has services, keeping it`)
+    return destroyed
+  }
+
+  const project = inputs.destroyEmptyProject
+    ? await client.getProject(environment.projectId)
+    : undefined
+  if (project && !(project.environments || []).some(hasServices)) {
+    await client.removeProject(environment.projectId)
+    destroyed.push(
+      { type: 'environment', name: environment.name, id: target.environmentId },
+      { type: 'project', name: project.name, id: environment.projectId }
+    )
+    return destroyed
+  }
+
+  if (inputs.destroyEmptyEnvironment) {
+    await client.removeEnvironment(target.environmentId)
+    destroyed.push({ type: 'environment', name: environment.name, id: target.environmentId })
+  }
+
+  return destroyed
+}
+
+/**
+ * One line per deleted resource, for the log
+ */
+export function formatDestroyed(destroyed: DestroyedResource[]): string {
+  if (destroyed.length === 0) {
+    return 'Nothing to destroy'
+  }
+  return destroyed
+    .map(resource => `- ${resource.type} ${resource.name} (${resource.id})`)
+    .join('\n')
+}
+
+export async function writeDestroySummary(destroyed: DestroyedResource[]): Promise<void> {
+  core.summary.addHeading('🗑️ Dokploy resources destroyed', 2)
+  if (destroyed.length === 0) {
+    core.summary.addRaw('<p>Nothing to destroy</p>', true)
+  } else {
+    core.summary.addTable([
+      [
+        { data: 'Resource', header: true },
+        { data: 'Name', header: true },
+        { data: 'ID', header: true }
+      ],
+      ...destroyed.map(resource => [
+        resource.type,
+        escapeHtml(resource.name),
+        `<code>${escapeHtml(resource.id)}</code>`
+      ])
+    ])
+  }
+  await core.summary.write()
+}
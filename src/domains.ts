@@ -0,0 +1,248 @@
+/**
+ * Multiple domains per service (domains input)
+ *
+ * A YAML list of domains takes the place of domain-host. The list is
+ * reconciled against the domains Dokploy has for the application or compose
+ * service: missing entries are created, changed ones updated and matching
+ * ones left alone. A domain is identified by its host and path. With
+ * prune-domains, domains that are not in the list are removed.
+ */
+
+import * as core from '@actions/core'
+import * as yaml from 'js-yaml'
+import { defaultCertificateType } from './config'
+import { ValidationError, formatValidationError } from './validators'
+import type { DokployClient } from './client/dokploy-client'
+import type { DomainChange } from './summary'
+import type { ActionInputs, Domain, DomainSpec } from './types/dokploy'
+
+export interface DomainTarget {
+  type: 'application' | 'compose'
+  id: string
+}
+
+export interface DomainResult {
+  host: string
+  change: DomainChange
+}
+
+// Attributes updated in place; host and path identify the domain
+export const DOMAIN_ATTRIBUTES = [
+  'port',
+  'https',
+  'certificateType',
+  'stripPath',
+  'serviceName'
+] as const
+
+const STRING_FIELDS: Record<string, keyof DomainSpec> = {
+  host: 'host',
+  path: 'path',
+  'certificate-type': 'certificateType',
+  'service-name': 'serviceName'
+}
+
+const BOOLEAN_FIELDS: Record<string, keyof DomainSpec> = {
+  https: 'https',
+  'strip-path': 'stripPath'
+}
+
+function parseEntry(entry: unknown, field: string, errors: ValidationError[]): DomainSpec {
+  const spec: Partial<Record<keyof DomainSpec, unknown>> = {}
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    errors.push(
+      new ValidationError(
+        `${field} must be a mapping`,
+        field,
+        entry,
+        'Example: - host: api.example.com'
+      )
+    )
+    return spec as DomainSpec
+  }
+
+  for (const [key, value] of Object.entries(entry)) {
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (STRING_FIELDS[key] && (typeof value === 'string' || typeof value === 'number')) {
+      spec[STRING_FIELDS[key]] = String(value)
+    } else if (BOOLEAN_FIELDS[key] && typeof value === 'boolean') {
+      spec[BOOLEAN_FIELDS[key]] = value
+    } else if (key === 'port' && !isNaN(Number(value))) {
+      spec.port = Number(value)
+    } else {
+      const known = [...Object.keys(STRING_FIELDS), ...Object.keys(BOOLEAN_FIELDS), 'port']
+      errors.push(
+        new ValidationError(
+          known.includes(key)
+            ? `${field}.${key} has an invalid value`
+            : `${field}.${key} is unknown`,
+          `${field}.${key}`,
+          value,
+          `Supported keys: ${known.join(', ')}`
+        )
+      )
+    }
+  }
+  if (!spec.host) {
+    errors.push(
+      new ValidationError(
+        `${field}.host is required`,
+        `${field}.host`,
+        spec.host,
+        'Example: - host: api.example.com'
+      )
+    )
+  }
+  return spec as DomainSpec
+}
+
+/**
+ * Parse the domains input, a YAML (or JSON) list of domain entries
+ */
+export function parseDomains(raw: string | undefined): DomainSpec[] | undefined {
+  if (!raw) {
+    return undefined
+  }
+
+  const errors: ValidationError[] = []
+  let domains: DomainSpec[] = []
+  try {
+    const document: unknown = yaml.load(raw)
+    if (Array.isArray(document) && document.length > 0) {
+      domains = document.map((entry, index) => parseEntry(entry, `domains[${index}]`, errors))
+    } else {
+      errors.push(
+        new ValidationError(
+          'domains must be a non-empty list',
+          'domains',
+          document,
+          'Example: domains: [{ host: api.example.com }, { host: www.example.com }]'
+        )
+      )
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    errors.push(new ValidationError(`domains is not valid YAML: ${message}`, 'domains', ''))
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => core.error(formatValidationError(error)))
+    throw new Error(
+      `domains has ${errors.length} validation error${errors.length > 1 ? 's' : ''}. See details above.`
+    )
+  }
+  return domains
+}
+
+/**
+ * Domain configs for the domains input; what an entry leaves out comes from
+ * the shared domain inputs, as with domain-host
+ */
+export function buildDomainConfigs(
+  inputs: ActionInputs,
+  type: DomainTarget['type'] = 'application'
+): Partial<Domain>[] {
+  return (inputs.domains || []).map(spec => {
+    const https = spec.https ?? inputs.domainHttps !== false
+    return {
+      host: spec.host,
+      path: spec.path || '/',
+      port: spec.port || inputs.applicationPort || inputs.targetPort || 8080,
+      https,
+      certificateType:
+        (spec.certificateType as Domain['certificateType']) || defaultCertificateType(inputs),
+      stripPath: spec.stripPath ?? inputs.domainStripPath ?? false,
+      domainType: type,
+      serviceName:
+        type === 'compose'
+          ? spec.serviceName || inputs.composeServiceName || inputs.composeName || 'app'
+          : undefined
+    }
+  })
+}
+
+/**
+ * Host and path, e.g. `example.com/api`, the way a domain is listed in the summary
+ */
+export function domainLabel(domain: Partial<Domain>): string {
+  return domain.path && domain.path !== '/' ? `${domain.host}${domain.path}` : domain.host || ''
+}
+
+export function domainUrl(domain: Partial<Domain>): string {
+  return `${domain.https ? 'https' : 'http'}://${domain.host}`
+}
+
+function sameRoute(existing: Domain, desired: Partial<Domain>): boolean {
+  return existing.host === desired.host && (existing.path || '/') === (desired.path || '/')
+}
+
+export function findDomain(existing: Domain[], desired: Partial<Domain>): Domain | undefined {
+  return existing.find(domain => sameRoute(domain, desired))
+}
+
+/**
+ * Domains of the target that match no entry of the list
+ */
+export function unlistedDomains(existing: Domain[], desired: Partial<Domain>[]): Domain[] {
+  return existing.filter(domain => !desired.some(entry => sameRoute(domain, entry)))
+}
+
+function needsUpdate(existing: Domain, desired: Partial<Domain>): boolean {
+  return DOMAIN_ATTRIBUTES.some(
+    attribute =>
+      desired[attribute] !== undefined && (existing[attribute] ?? false) !== desired[attribute]
+  )
+}
+
+/**
+ * Create, update or leave alone each desired domain, then remove unlisted
+ * domains when `prune` is set
+ */
+export async function reconcileDomains(
+  client: DokployClient,
+  target: DomainTarget,
+  desired: Partial<Domain>[],
+  prune: boolean
+): Promise<DomainResult[]> {
+  const existing =
+    target.type === 'compose'
+      ? await client.getDomainsByComposeId(target.id)
+      : await client.getDomains(target.id)
+
+  const results: DomainResult[] = []
+  for (const domain of desired) {
+    const match = findDomain(existing, domain)
+    let change: DomainChange
+    if (!match) {
+      if (target.type === 'compose') {
+        await client.createComposeDomain(target.id, domain.serviceName || 'app', domain)
+      } else {
+        await client.createDomain(target.id, domain)
+      }
+      change = 'created'
+    } else if (needsUpdate(match, domain)) {
+      await client.updateDomain(match.domainId || match.id || '', domain)
+      change = 'updated'
+    } else {
+      change = 'unchanged'
+    }
+    core.info(`${change === 'unchanged' ? '✅' : '🌐'} ${domainLabel(domain)}: ${change}`)
+    results.push({ host: domainLabel(domain), change })
+  }
+
+  const unlisted = unlistedDomains(existing, desired)
+  if (prune) {
+    for (const domain of unlisted) {
+      await client.removeDomain(domain.domainId || domain.id || '')
+      core.info(`➖ ${domainLabel(domain)}: removed`)
+      results.push({ host: domainLabel(domain), change: 'removed' })
+    }
+  } else if (unlisted.length > 0) {
+    core.info(
+      `ℹ️ Keeping ${unlisted.length} domain${unlisted.length === 1 ? '' : 's'} not in domains (set prune-domains to remove them)`
+    )
+  }
+  return results
+}
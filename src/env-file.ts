@@ -0,0 +1,182 @@
+/**
+ * Dotenv file parsing for the env-file input
+ *
+ * Supported syntax:
+ * - Comments (# ...) and blank lines
+ * - Optional `export` prefix
+ * - Unquoted values with trailing inline comments
+ * - Single-quoted and backtick-quoted values (literal, no escapes)
+ * - Double-quoted values with escapes (\n, \r, \t, \", \\)
+ * - Quoted values spanning multiple lines
+ *
+ * Dokploy reads the stored environment with dotenv, which only unescapes \n
+ * and \r in double-quoted values, ends unquoted values at `#` and skips lines
+ * it cannot read. The env input and the stored environment are parsed the same
+ * way (`strict: false`), so values reach the container exactly as written.
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+
+const KEY_REGEX = /^([A-Za-z_][A-Za-z0-9_.-]*)\s*=\s*([\s\S]*)$/
+
+export interface DotenvOptions {
+  strict?: boolean
+}
+
+function unescapeDotenv(value: string): string {
+  return value.replace(/\\n/g, '\n').replace(/\\r/g, '\r')
+}
+
+function unescapeDoubleQuoted(value: string): string {
+  return value.replace(/\\([nrt"\\$])/g, (_match, char: string) => {
+    switch (char) {
+      case 'n':
+        return '\n'
+      case 'r':
+        return '\r'
+      case 't':
+        return '\t'
+      default:
+        return char
+    }
+  })
+}
+
+/**
+ * Find the index of the closing quote, skipping escaped quotes in double-quoted values
+ */
+function findClosingQuote(value: string, quote: string, start: number): number {
+  for (let i = start; i < value.length; i++) {
+    if (quote === '"' && value[i] === '\\') {
+      i++
+      continue
+    }
+    if (value[i] === quote) {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * Parse dotenv content into an ordered key/value map.
+ * Throws with the source name and line number for malformed entries, unless
+ * `strict` is false: then they are read the way Dokploy reads them.
+ */
+export function parseDotenv(
+  content: string,
+  source = '.env',
+  { strict = true }: DotenvOptions = {}
+): Record<string, string> {
+  const result: Record<string, string> = {}
+  const lines = content.replace(/\r\n?/g, '\n').split('\n')
+
+  for (let index = 0; index < lines.length; index++) {
+    const lineNumber = index + 1
+    const line = lines[index].trim()
+
+    if (line === '' || line.startsWith('#')) {
+      continue
+    }
+
+    const entry = line.replace(/^export\s+/, '')
+    const match = entry.match(KEY_REGEX)
+    if (!match) {
+      if (!strict) continue
+      throw new Error(`${source}:${lineNumber}: expected KEY=VALUE, got: ${line}`)
+    }
+
+    const key = match[1]
+    let rawValue = match[2]
+    const quote = rawValue[0]
+
+    if (quote === '"' || quote === "'" || quote === '`') {
+      // Collect following lines until the closing quote for multi-line values
+      const start = index
+      let closing = findClosingQuote(rawValue, quote, 1)
+      while (closing === -1 && index + 1 < lines.length) {
+        index++
+        rawValue += `\n${lines[index]}`
+        closing = findClosingQuote(rawValue, quote, 1)
+      }
+
+      if (closing === -1) {
+        if (strict) {
+          throw new Error(`${source}:${lineNumber}: unterminated ${quote} quoted value for ${key}`)
+        }
+        // Unterminated quotes are part of the value
+        index = start
+        result[key] = match[2].trim()
+        continue
+      }
+
+      const trailing = rawValue.slice(closing + 1).trim()
+      if (strict && trailing !== '' && !trailing.startsWith('#')) {
+        throw new Error(
+          `${source}:${lineNumber}: unexpected characters after quoted value for ${key}: ${trailing}`
+        )
+      }
+
+      const inner = rawValue.slice(1, closing)
+      if (quote !== '"') {
+        result[key] = inner
+      } else {
+        result[key] = strict ? unescapeDoubleQuoted(inner) : unescapeDotenv(inner)
+      }
+    } else {
+      // Unquoted: strip inline comments, which dotenv starts at any #
+      result[key] = rawValue.replace(strict ? /\s+#.*$/ : /#.*$/, '').trim()
+    }
+  }
+
+  return result
+}
+
+/**
+ * Read and parse an env file relative to the GitHub workspace
+ */
+export function loadEnvFile(filePath: string): Record<string, string> {
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd()
+  const fullPath = path.resolve(workspace, filePath)
+
+  let content: string
+  try {
+    content = fs.readFileSync(fullPath, 'utf-8')
+  } catch (error) {
+    throw new Error(
+      `Failed to read env-file ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+
+  return parseDotenv(content, filePath)
+}
+
+/**
+ * Quote a value so dotenv reads it back unchanged. Single-line values go in
+ * single quotes or backticks, which dotenv takes literally. Multi-line values
+ * need double quotes with \n and \r escaped, the only escapes dotenv undoes;
+ * a " in them can only be written as \", which dotenv keeps as is.
+ */
+function quoteEnvValue(value: string): string {
+  if (!/[\n\r#'"`]/.test(value) && value === value.trim()) {
+    return value
+  }
+  if (!/[\n\r]/.test(value)) {
+    const quote = ["'", '`'].find(candidate => !value.includes(candidate))
+    if (quote) {
+      return `${quote}${value}${quote}`
+    }
+  }
+  return `"${value.replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r')}"`
+}
+
+/**
+ * Serialize variables to the KEY=VALUE format Dokploy stores, quoting values
+ * that contain line breaks, #, quotes or surrounding whitespace
+ */
+export function formatEnvVariables(variables: Record<string, string>): string {
+  return Object.entries(variables)
+    .map(([key, value]) => `${key}=${quoteEnvValue(value)}`)
+    .join('\n')
+}
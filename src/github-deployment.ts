@@ -0,0 +1,99 @@
+/**
+ * GitHub Deployments API integration
+ *
+ * Records each Dokploy deployment as a GitHub Deployment so the repository's
+ * Environments page shows deploy history, status and the deployment URL.
+ * Failures here never fail the action; they are reported as warnings.
+ */
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import type { ActionInputs } from './types/dokploy'
+
+export type GitHubDeploymentState = 'in_progress' | 'success' | 'failure' | 'inactive'
+
+export interface GitHubDeployment {
+  id: number
+  environment: string
+  octokit: ReturnType<typeof github.getOctokit>
+}
+
+function runUrl(): string {
+  const { serverUrl, runId } = github.context
+  const { owner, repo } = github.context.repo
+  return `${serverUrl}/${owner}/${repo}/actions/runs/${runId}`
+}
+
+/**
+ * Create a GitHub Deployment for the target environment.
+ * Returns null when disabled, without a token, or when GitHub rejects the request.
+ */
+export async function createGitHubDeployment(
+  inputs: ActionInputs,
+  description: string
+): Promise<GitHubDeployment | null> {
+  if (inputs.githubDeployment === false || !inputs.githubToken) {
+    return null
+  }
+
+  const environment = inputs.githubEnvironment || inputs.environmentName || 'production'
+
+  try {
+    const octokit = github.getOctokit(inputs.githubToken)
+    const response = await octokit.rest.repos.createDeployment({
+      ...github.context.repo,
+      ref: github.context.sha,
+      environment,
+      description: description.slice(0, 140),
+      auto_merge: false,
+      required_contexts: [],
+      // Preview environments are removed when the pull request closes
+      ...(inputs.mode === 'preview' && { transient_environment: true })
+    })
+
+    if (!('id' in response.data)) {
+      core.warning(`⚠️ GitHub did not create a deployment: ${response.data.message}`)
+      return null
+    }
+
+    core.info(`🐙 GitHub deployment created: ${response.data.id} (environment: ${environment})`)
+    return { id: response.data.id, environment, octokit }
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not create GitHub deployment: ${error instanceof Error ? error.message : String(error)}`
+    )
+    return null
+  }
+}
+
+/**
+ * Post a deployment status; `environmentUrl` becomes the environment's link on GitHub
+ */
+export async function setGitHubDeploymentStatus(
+  deployment: GitHubDeployment | null,
+  state: GitHubDeploymentState,
+  environmentUrl?: string,
+  description?: string
+): Promise<void> {
+  if (!deployment) {
+    return
+  }
+
+  try {
+    await deployment.octokit.rest.repos.createDeploymentStatus({
+      ...github.context.repo,
+      deployment_id: deployment.id,
+      state,
+      environment: deployment.environment,
+      environment_url: environmentUrl,
+      log_url: runUrl(),
+      // GitHub limits status descriptions to 140 characters
+      description: description?.slice(0, 140)
+    })
+    core.info(`🐙 GitHub deployment ${deployment.id} marked ${state}`)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not update GitHub deployment status: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
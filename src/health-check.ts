@@ -4,20 +4,165 @@
 
 import * as core from '@actions/core'
 import * as httpm from '@actions/http-client'
+import { actionLog } from './log'
+import type { DeploymentLog } from './log'
 import type { ActionInputs } from './types/dokploy'
 import { sleep } from './utils/helpers'
 
+export interface HealthCheckAttempt {
+  attempt: number
+  statusCode?: number
+  latencyMs: number
+  error?: string
+}
+
+/**
+ * Check a status code against a policy such as "200", "200,204", "2xx" or "200-299"
+ */
+export function matchesStatusCode(statusCode: number, policy: string): boolean {
+  return policy
+    .split(',')
+    .map(part => part.trim().toLowerCase())
+    .filter(part => part.length > 0)
+    .some(part => {
+      if (/^\dxx$/.test(part)) {
+        return Math.floor(statusCode / 100) === parseInt(part[0], 10)
+      }
+      const range = part.match(/^(\d{3})-(\d{3})$/)
+      if (range) {
+        return statusCode >= parseInt(range[1], 10) && statusCode <= parseInt(range[2], 10)
+      }
+      return statusCode === parseInt(part, 10)
+    })
+}
+
+/**
+ * Match a response body against a substring, or a regex written as /pattern/flags
+ */
+export function matchesBody(body: string, pattern: string): boolean {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regex) {
+    return new RegExp(regex[1], regex[2]).test(body)
+  }
+  return body.includes(pattern)
+}
+
+interface JsonPathAssertion {
+  path: (string | number)[]
+  operator?: '==' | '!='
+  expected?: unknown
+}
+
+/**
+ * Parse an assertion such as `$.status == "UP"`, `$.checks[0].healthy != false` or `$.ready`
+ */
+export function parseJsonPathAssertion(expression: string): JsonPathAssertion {
+  const match = expression
+    .trim()
+    .match(/^\$((?:\.[A-Za-z_$][\w$-]*|\[\d+\]|\['[^']*'\]|\["[^"]*"\])*)\s*(?:(==|!=)\s*(.+))?$/)
+  if (!match) {
+    throw new Error(`Invalid JSON path assertion: ${expression}`)
+  }
+
+  const path: (string | number)[] = []
+  const segmentRegex = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g
+  let segment: RegExpExecArray | null
+  while ((segment = segmentRegex.exec(match[1])) !== null) {
+    if (segment[2] !== undefined) {
+      path.push(parseInt(segment[2], 10))
+    } else {
+      path.push(segment[1] ?? segment[3] ?? segment[4])
+    }
+  }
+
+  if (!match[2]) {
+    return { path }
+  }
+
+  let expected: unknown
+  try {
+    expected = JSON.parse(match[3].trim())
+  } catch (error) {
+    throw new Error(
+      `Invalid expected value in JSON path assertion: ${match[3].trim()} (use JSON, e.g. "UP", 1, true)`
+    )
+  }
+
+  return { path, operator: match[2] as '==' | '!=', expected }
+}
+
+/**
+ * Evaluate a JSON path assertion against a response body.
+ * Without an operator the value at the path must exist and be truthy.
+ */
+export function evaluateJsonPathAssertion(body: string, expression: string): boolean {
+  const assertion = parseJsonPathAssertion(expression)
+
+  let value: unknown
+  try {
+    value = JSON.parse(body)
+  } catch (error) {
+    return false
+  }
+
+  for (const key of assertion.path) {
+    if (value === null || typeof value !== 'object') {
+      value = undefined
+      break
+    }
+    value = (value as Record<string | number, unknown>)[key]
+  }
+
+  if (!assertion.operator) {
+    return !!value
+  }
+
+  const equal = JSON.stringify(value) === JSON.stringify(assertion.expected)
+  return assertion.operator === '==' ? equal : !equal
+}
+
+/**
+ * Apply the configured success policy to a response.
+ * Returns the reason the check failed, or null when the response is healthy.
+ */
+export function evaluateHealthResponse(
+  statusCode: number,
+  body: string,
+  inputs: ActionInputs
+): string | null {
+  const expectedStatus = inputs.expectedStatusCode || '200'
+  if (!matchesStatusCode(statusCode, expectedStatus)) {
+    return `returned HTTP ${statusCode} (expected ${expectedStatus})`
+  }
+
+  if (inputs.healthCheckBodyMatch && !matchesBody(body, inputs.healthCheckBodyMatch)) {
+    return `response body does not match: ${inputs.healthCheckBodyMatch}`
+  }
+
+  if (inputs.healthCheckJsonPath && !evaluateJsonPathAssertion(body, inputs.healthCheckJsonPath)) {
+    return `JSON assertion failed: ${inputs.healthCheckJsonPath}`
+  }
+
+  return null
+}
+
+/**
+ * Poll the health endpoint until it passes the configured policy.
+ * Each request is appended to `attempts` when given, for reporting.
+ */
 export async function performHealthCheck(
   deploymentUrl: string,
-  inputs: ActionInputs
+  inputs: ActionInputs,
+  attempts?: HealthCheckAttempt[],
+  log: DeploymentLog = actionLog
 ): Promise<string> {
   if (inputs.healthCheckEnabled === false) {
-    core.info('ℹ️ Health check disabled')
+    log.info('ℹ️ Health check disabled')
     return 'skipped'
   }
 
   if (!deploymentUrl) {
-    core.warning('⚠️ No deployment URL available, skipping health check')
+    log.warning('⚠️ No deployment URL available, skipping health check')
     return 'skipped'
   }
 
@@ -25,39 +170,49 @@ export async function performHealthCheck(
   const timeout = inputs.healthCheckTimeout || 60
   const retries = inputs.healthCheckRetries || 3
   const interval = inputs.healthCheckInterval || 10
+  const needsBody = !!(inputs.healthCheckBodyMatch || inputs.healthCheckJsonPath)
 
   const fullUrl = `${deploymentUrl}${healthCheckPath}`
-  core.info(`🏥 Performing health check: ${fullUrl}`)
-  core.info(`   Timeout: ${timeout}s, Retries: ${retries}, Interval: ${interval}s`)
+  log.info(`🏥 Performing health check: ${fullUrl}`)
+  log.info(`   Timeout: ${timeout}s, Retries: ${retries}, Interval: ${interval}s`)
+  log.info(`   Expected status: ${inputs.expectedStatusCode || '200'}`)
+  if (inputs.healthCheckBodyMatch) log.info(`   Body match: ${inputs.healthCheckBodyMatch}`)
+  if (inputs.healthCheckJsonPath) log.info(`   JSON assertion: ${inputs.healthCheckJsonPath}`)
 
-  const client = new httpm.HttpClient('dokploy-health-check')
+  const client = new httpm.HttpClient('dokploy-health-check', undefined, {
+    socketTimeout: inputs.requestTimeout ? inputs.requestTimeout * 1000 : undefined
+  })
   const startTime = Date.now()
 
   for (let attempt = 1; attempt <= retries; attempt++) {
+    const requestStart = Date.now()
     try {
-      core.info(`🔍 Health check attempt ${attempt}/${retries}...`)
+      log.info(`🔍 Health check attempt ${attempt}/${retries}...`)
 
       const response = await client.get(fullUrl)
       const statusCode = response.message.statusCode || 0
+      const body = needsBody ? await response.readBody() : ''
+      attempts?.push({ attempt, statusCode, latencyMs: Date.now() - requestStart })
 
-      if (statusCode === 200) {
-        core.info(`✅ Health check passed! (HTTP ${statusCode})`)
+      const failure = evaluateHealthResponse(statusCode, body, inputs)
+      if (!failure) {
+        log.info(`✅ Health check passed! (HTTP ${statusCode})`)
         return 'healthy'
       }
 
-      core.warning(`⚠️ Health check returned HTTP ${statusCode}`)
+      log.warning(`⚠️ Health check ${failure}`)
 
       if (attempt < retries) {
-        core.info(`⏳ Waiting ${interval}s before retry...`)
+        log.info(`⏳ Waiting ${interval}s before retry...`)
         await sleep(interval * 1000)
       }
     } catch (error) {
-      core.warning(
-        `⚠️ Health check failed: ${error instanceof Error ? error.message : String(error)}`
-      )
+      const message = error instanceof Error ? error.message : String(error)
+      attempts?.push({ attempt, latencyMs: Date.now() - requestStart, error: message })
+      log.warning(`⚠️ Health check failed: ${message}`)
 
       if (attempt < retries) {
-        core.info(`⏳ Waiting ${interval}s before retry...`)
+        log.info(`⏳ Waiting ${interval}s before retry...`)
         await sleep(interval * 1000)
       }
     }
@@ -65,11 +220,47 @@ export async function performHealthCheck(
     // Check timeout
     const elapsed = (Date.now() - startTime) / 1000
     if (elapsed >= timeout) {
-      core.error(`❌ Health check timeout after ${elapsed}s`)
+      log.error(`❌ Health check timeout after ${elapsed}s`)
       return 'unhealthy'
     }
   }
 
-  core.error(`❌ Health check failed after ${retries} attempts`)
+  log.error(`❌ Health check failed after ${retries} attempts`)
   return 'unhealthy'
 }
+
+export interface ErrorRateProbe {
+  requests: number
+  errors: number
+  errorRate: number
+}
+
+/**
+ * Send `requests` requests to the health endpoint and measure the share that
+ * fail with a network error or a 5xx response, as a percentage
+ */
+export async function probeErrorRate(
+  deploymentUrl: string,
+  inputs: ActionInputs,
+  requests: number
+): Promise<ErrorRateProbe> {
+  const fullUrl = `${deploymentUrl}${inputs.healthCheckPath || '/health'}`
+  const client = new httpm.HttpClient('dokploy-health-check', undefined, {
+    socketTimeout: inputs.requestTimeout ? inputs.requestTimeout * 1000 : undefined
+  })
+
+  let errors = 0
+  for (let request = 0; request < requests; request++) {
+    try {
+      const response = await client.get(fullUrl)
+      await response.readBody()
+      if ((response.message.statusCode || 0) >= 500) errors++
+    } catch (error) {
+      errors++
+    }
+  }
+
+  const errorRate = requests > 0 ? (errors / requests) * 100 : 0
+  core.info(`📊 Error rate on ${fullUrl}: ${errors}/${requests} (${errorRate.toFixed(1)}%)`)
+  return { requests, errors, errorRate }
+}
@@ -19,15 +19,89 @@
  */
 
 import * as core from '@actions/core'
-import { DokployClient } from './client/dokploy-client'
+import { DokployClient, DokployApiError, DeploymentTimeoutError } from './client/dokploy-client'
 import { parseInputs } from './inputs'
-import { performHealthCheck } from './health-check'
-import { buildApplicationConfig, buildDomainConfig, parseEnvironmentVariables } from './config'
+import { performHealthCheck, probeErrorRate } from './health-check'
+import {
+  buildApplicationConfig,
+  buildDomainConfig,
+  loadComposeContent,
+  parseEnvironmentVariables
+} from './config'
 import { sleep } from './utils/helpers'
 import { validateAllInputs, ValidationError, formatValidationError } from './validators'
-import type { Domain } from './types/dokploy'
+import { captureRollbackSnapshot, performRollback } from './rollback'
+import { reportOldContainers } from './old-containers'
+import { buildApplicationPlan, buildComposePlan, formatPlan, writePlanSummary } from './plan'
+import { ActionDeadline, DeadlineExceededError } from './deadline'
+import { cancelBuild, cleanBuildQueue, onCancellation } from './cancellation'
+import { DeploymentLogStream } from './deployment-logs'
+import { createGitHubDeployment, setGitHubDeploymentStatus } from './github-deployment'
+import { createDeploymentReport, writeDeploymentSummary } from './summary'
+import { upsertPullRequestComment } from './pr-comment'
+import { destroyPreviewEnvironment, resolvePreviewInputs } from './preview'
+import { formatServiceStatus, queryServiceStatus, writeStatusSummary } from './status'
+import {
+  colorApplicationName,
+  colorDomainHost,
+  resolveColors,
+  switchProductionDomain
+} from './blue-green'
+import {
+  CANARY_PROBE_REQUESTS,
+  DEFAULT_CANARY_STEPS,
+  canaryApplicationName,
+  findStableApplication,
+  resolveCanaryRouting,
+  restoreStableRouting,
+  shiftCanaryTraffic
+} from './canary'
+import { endMaintenance, healthCheckRoute, startMaintenance } from './recreate'
+import { findApplicationInScope } from './resolve'
+import { buildDomainConfigs, domainUrl, reconcileDomains } from './domains'
+import {
+  buildHealthCheckSwarm,
+  buildPlacementSwarm,
+  buildRestartPolicySwarm,
+  buildRollbackConfigSwarm,
+  buildUpdateConfigSwarm,
+  formatHealthCheck,
+  formatPlacement,
+  formatRestartPolicy,
+  formatUpdateConfig
+} from './swarm'
+import {
+  applicationInputs,
+  applicationResult,
+  dependencyLayers,
+  isDeployedHealthy,
+  runWithConcurrency,
+  skippedApplication
+} from './applications'
+import {
+  assertDestroyConfirmed,
+  destroyResources,
+  formatDestroyed,
+  writeDestroySummary
+} from './destroy'
+import { actionLog, applicationLog } from './log'
+import type { RollbackSnapshot } from './rollback'
+import type { BuildTarget } from './cancellation'
+import type { GitHubDeploymentState } from './github-deployment'
+import type { DeploymentReport } from './summary'
+import type { ApplicationResult, ApplicationScope } from './applications'
+import type { MaintenanceWindow } from './recreate'
+import type { DeploymentLog } from './log'
+import type { ActionInputs, Domain } from './types/dokploy'
+
+// Extra time allowed past action-timeout to stop a build we gave up on
+const CANCEL_GRACE_SECONDS = 30
+
+const DEFAULT_APPLICATIONS_CONCURRENCY = 2
 
 export async function run(): Promise<void> {
+  let report: DeploymentReport | undefined
+  let inputs: ActionInputs | undefined
   try {
     core.info('🚀 Dokploy Deployment Action v1.0')
     core.info('='.repeat(60))
@@ -36,10 +110,18 @@ export async function run(): Promise<void> {
     // Step 1: Parse and validate inputs
     // ====================================================================
     core.startGroup('📋 Parsing and Validating Inputs')
-    const inputs = parseInputs()
+    inputs = parseInputs()
+    const deadline = new ActionDeadline(inputs.actionTimeout)
     
     // Validate all inputs before proceeding
     try {
+      if (inputs.mode === 'preview') {
+        inputs = resolvePreviewInputs(inputs)
+        core.setOutput('preview-environment', inputs.environmentName)
+      }
+      if (inputs.mode === 'destroy') {
+        assertDestroyConfirmed(inputs)
+      }
       validateAllInputs({
         dockerImage: inputs.dockerImage,
         deploymentType: inputs.deploymentType,
@@ -54,7 +136,38 @@ export async function run(): Promise<void> {
         targetPort: inputs.targetPort,
         applicationPort: inputs.applicationPort,
         replicas: inputs.replicas,
-        domainHost: inputs.domainHost
+        domainHost: inputs.domainHost,
+        expectedStatusCode: inputs.expectedStatusCode,
+        healthCheckBodyMatch: inputs.healthCheckBodyMatch,
+        healthCheckJsonPath: inputs.healthCheckJsonPath,
+        envMergeMode: inputs.envMergeMode,
+        mode: inputs.mode,
+        applications: inputs.applications,
+        deploymentStrategy: inputs.deploymentStrategy,
+        blueGreenDomainTemplate: inputs.blueGreenDomainTemplate,
+        canarySteps: inputs.canarySteps,
+        canaryMaxErrorRate: inputs.canaryMaxErrorRate,
+        maintenanceImage: inputs.maintenanceImage,
+        maintenancePort: inputs.maintenancePort,
+        updateParallelism: inputs.updateParallelism,
+        updateDelay: inputs.updateDelay,
+        updateFailureAction: inputs.updateFailureAction,
+        updateMonitor: inputs.updateMonitor,
+        updateMaxFailureRatio: inputs.updateMaxFailureRatio,
+        updateOrder: inputs.updateOrder,
+        restartPolicy: inputs.restartPolicy,
+        restartDelay: inputs.restartDelay,
+        restartMaxAttempts: inputs.restartMaxAttempts,
+        restartWindow: inputs.restartWindow,
+        containerHealthCheckInterval: inputs.containerHealthCheckInterval,
+        containerHealthCheckTimeout: inputs.containerHealthCheckTimeout,
+        containerHealthCheckStartPeriod: inputs.containerHealthCheckStartPeriod,
+        containerHealthCheckRetries: inputs.containerHealthCheckRetries,
+        placementConstraints: inputs.placementConstraints,
+        placementPreferences: inputs.placementPreferences,
+        placementMaxReplicas: inputs.placementMaxReplicas,
+        placementPlatforms: inputs.placementPlatforms,
+        domains: inputs.domains
       })
       core.info('✅ All inputs validated successfully')
     } catch (error) {
@@ -78,7 +191,11 @@ export async function run(): Promise<void> {
     core.startGroup('🔌 Connecting to Dokploy')
     const client = new DokployClient({
       url: inputs.dokployUrl,
-      apiKey: inputs.apiKey
+      apiKey: inputs.apiKey,
+      maxRetries: inputs.apiRetries,
+      retryDelay: inputs.apiRetryDelay,
+      requestTimeout: inputs.requestTimeout,
+      deadline
     })
     core.info(`✅ Connected to: ${inputs.dokployUrl}`)
     core.endGroup()
@@ -86,12 +203,42 @@ export async function run(): Promise<void> {
     // ====================================================================
     // Route to appropriate deployment handler
     // ====================================================================
-    if (inputs.deploymentType === 'compose') {
-      await runComposeDeployment(client, inputs)
+    if (inputs.mode === 'plan') {
+      await runPlanMode(client, inputs, deadline)
+    } else if (inputs.mode === 'status') {
+      await runStatusMode(client, inputs, deadline)
+    } else if (inputs.mode === 'destroy-preview') {
+      await runDestroyPreview(client, inputs, deadline)
+    } else if (inputs.mode === 'destroy') {
+      await runDestroyMode(client, inputs, deadline)
+    } else if (inputs.applications) {
+      await runMultiApplicationDeployment(client, inputs, deadline)
+    } else if (inputs.deploymentType === 'compose') {
+      report = createDeploymentReport(inputs)
+      await runComposeDeployment(client, inputs, deadline, report)
+      report.status = 'success'
+    } else if (inputs.deploymentStrategy === 'blue-green') {
+      report = createDeploymentReport(inputs)
+      await runBlueGreenDeployment(client, inputs, deadline, report)
+      report.status = 'success'
+    } else if (inputs.deploymentStrategy === 'canary') {
+      report = createDeploymentReport(inputs)
+      await runCanaryDeployment(client, inputs, deadline, report)
+      report.status = 'success'
+    } else if (inputs.deploymentStrategy === 'recreate') {
+      report = createDeploymentReport(inputs)
+      await runRecreateDeployment(client, inputs, deadline, report)
+      report.status = 'success'
     } else {
-      await runApplicationDeployment(client, inputs)
+      report = createDeploymentReport(inputs)
+      await runApplicationDeployment(client, inputs, deadline, report)
+      report.status = 'success'
     }
   } catch (error) {
+    if (report) {
+      report.status = 'failed'
+      report.error = error instanceof Error ? error.message : String(error)
+    }
     if (error instanceof Error) {
       core.setFailed(`❌ Deployment failed: ${error.message}`)
       core.debug(`Error stack trace: ${error.stack}`)
@@ -99,6 +246,121 @@ export async function run(): Promise<void> {
       core.setFailed(`❌ Deployment failed: ${String(error)}`)
     }
     throw error
+  } finally {
+    if (report && inputs) {
+      report.finishedAt = Date.now()
+      await writeJobSummary(report, inputs.dokployUrl)
+      await upsertPullRequestComment(inputs, report, inputs.dokployUrl)
+    }
+  }
+}
+
+// ============================================================================
+// Plan Mode (read-only)
+// ============================================================================
+async function runPlanMode(
+  client: DokployClient,
+  inputs: ReturnType<typeof parseInputs>,
+  deadline: ActionDeadline
+): Promise<void> {
+  core.info('📝 Plan mode: resolving resources read-only, no changes will be made')
+  core.info('='.repeat(60))
+
+  core.startGroup('🔍 Resolving Current State')
+  deadline.enter('plan resolution')
+  const plan =
+    inputs.deploymentType === 'compose'
+      ? await buildComposePlan(client, inputs)
+      : await buildApplicationPlan(client, inputs)
+  core.endGroup()
+
+  core.info('')
+  core.info(formatPlan(plan))
+  core.setOutput('plan-json', JSON.stringify(plan))
+
+  try {
+    await writePlanSummary(plan)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// ============================================================================
+// Status Mode (read-only)
+// ============================================================================
+async function runStatusMode(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline
+): Promise<void> {
+  core.startGroup('🔍 Querying Current State')
+  deadline.enter('status query')
+  const status = await queryServiceStatus(client, inputs)
+  core.endGroup()
+
+  core.info('')
+  core.info(formatServiceStatus(status))
+  if (status.image) {
+    core.setOutput('current-image', status.image)
+  }
+  if (status.deployments.length > 0) {
+    core.setOutput('last-deployment-id', status.deployments[0].deploymentId)
+  }
+  core.setOutput('deployments-json', JSON.stringify(status.deployments))
+
+  try {
+    await writeStatusSummary(status)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// ============================================================================
+// Destroy Mode
+// ============================================================================
+async function runDestroyMode(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline
+): Promise<void> {
+  core.startGroup('🗑️ Destroying Resources')
+  deadline.enter('destroy')
+  const destroyed = await destroyResources(client, inputs)
+  core.endGroup()
+
+  core.info('')
+  core.info(formatDestroyed(destroyed))
+  core.setOutput('destroyed-json', JSON.stringify(destroyed))
+
+  try {
+    await writeDestroySummary(destroyed)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// ============================================================================
+// Preview Environments
+// ============================================================================
+async function runDestroyPreview(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline
+): Promise<void> {
+  core.startGroup('🧹 Removing Preview Environment')
+  deadline.enter('preview removal')
+  const { environmentName, environmentId } = await destroyPreviewEnvironment(client, inputs)
+  core.endGroup()
+
+  core.setOutput('preview-environment', environmentName)
+  if (environmentId) {
+    core.setOutput('environment-id', environmentId)
   }
 }
 
@@ -107,10 +369,13 @@ export async function run(): Promise<void> {
 // ============================================================================
 async function runComposeDeployment(
   client: DokployClient,
-  inputs: ReturnType<typeof parseInputs>
+  inputs: ReturnType<typeof parseInputs>,
+  deadline: ActionDeadline,
+  report: DeploymentReport
 ): Promise<void> {
   core.info('📦 Starting Docker Compose deployment...')
   core.info('='.repeat(60))
+  deadline.enter('resource resolution')
 
   // ====================================================================
   // Step 1: Ensure project exists
@@ -207,6 +472,7 @@ async function runComposeDeployment(
 
   core.setOutput('application-id', composeId)
   core.setOutput('compose-id', composeId)
+  Object.assign(report, { projectId, environmentId, serverId, serviceId: composeId })
   core.endGroup()
 
   // ====================================================================
@@ -214,38 +480,15 @@ async function runComposeDeployment(
   // ====================================================================
   core.startGroup('📝 Compose File Configuration')
   
-  let composeContent = ''
-
-  if (inputs.dokployTemplateBase64) {
-    // Decode Base64 template
-    core.info('📥 Loading Dokploy template from Base64...')
-    composeContent = Buffer.from(inputs.dokployTemplateBase64, 'base64').toString('utf-8')
-    core.info(`✅ Template decoded (${composeContent.split('\n').length} lines)`)
-  } else if (inputs.composeRaw) {
-    // Use raw compose content
-    core.info('📥 Using raw compose content...')
-    composeContent = inputs.composeRaw
-    core.info(`✅ Compose content loaded (${composeContent.split('\n').length} lines)`)
-  } else if (inputs.composeFile) {
-    // Read compose file from filesystem
-    const fs = await import('fs/promises')
-    const path = await import('path')
-    
-    core.info(`📥 Reading compose file: ${inputs.composeFile}`)
-    const fullPath = path.resolve(process.cwd(), inputs.composeFile)
-    
-    try {
-      composeContent = await fs.readFile(fullPath, 'utf-8')
-      core.info(`✅ Compose file loaded (${composeContent.split('\n').length} lines)`)
-    } catch (error) {
-      core.error(`❌ Failed to read compose file: ${inputs.composeFile}`)
-      throw error
-    }
-  }
+  const composeContent = await loadComposeContent(inputs)
 
   if (composeContent) {
     // Parse environment variables
-    const envString = parseEnvironmentVariables(inputs)
+    const existingEnv =
+      inputs.envMergeMode === 'merge-with-existing'
+        ? (await client.getCompose(composeId)).env
+        : undefined
+    const envString = parseEnvironmentVariables(inputs, existingEnv)
     // Save compose file and env in a single update call
     await client.saveComposeFile(composeId, composeContent, envString)
   }
@@ -256,6 +499,18 @@ async function runComposeDeployment(
   // Step 5: Deploy compose service
   // ====================================================================
   core.startGroup('🚀 Deployment')
+  deadline.enter('deployment')
+  const buildTarget: BuildTarget = { type: 'compose', id: composeId }
+  if (inputs.cleanQueues) {
+    await cleanBuildQueue(client, buildTarget)
+  }
+  const githubDeployment = await createGitHubDeployment(inputs, `Deploy compose: ${composeName}`)
+  await setGitHubDeploymentStatus(githubDeployment, 'in_progress')
+  const stopCancellationHandler = onCancellation(async () => {
+    deadline.grace(CANCEL_GRACE_SECONDS)
+    await cancelBuild(client, buildTarget)
+    await setGitHubDeploymentStatus(githubDeployment, 'inactive', undefined, 'Workflow run cancelled')
+  })
   let deploymentId: string | undefined
   try {
     const deploymentResult = await client.deployCompose(
@@ -265,6 +520,7 @@ async function runComposeDeployment(
     )
     
     deploymentId = deploymentResult?.deploymentId || deploymentResult?.id
+    report.deploymentId = deploymentId
     if (deploymentId) {
       core.setOutput('deployment-id', deploymentId)
       core.info(`✅ Deployment ID: ${deploymentId}`)
@@ -272,9 +528,11 @@ async function runComposeDeployment(
       core.info('✅ Deployment triggered successfully')
     }
   } catch (deployError) {
+    stopCancellationHandler()
     core.setOutput('deployment-status', 'failed')
     core.error(`❌ Deployment Failed: ${deployError}`)
     core.endGroup()
+    await setGitHubDeploymentStatus(githubDeployment, 'failure', undefined, 'Dokploy deploy failed')
     throw deployError
   }
   core.endGroup()
@@ -284,8 +542,35 @@ async function runComposeDeployment(
   // ====================================================================
   let deploymentUrl: string | undefined
 
-  if (inputs.domainHost) {
+  if (inputs.domains) {
     core.startGroup('🌐 Domain Management')
+    deadline.enter('domain configuration')
+    const desiredDomains = buildDomainConfigs(inputs, 'compose')
+    report.domains.push(
+      ...(await reconcileDomains(
+        client,
+        { type: 'compose', id: composeId },
+        desiredDomains,
+        !!inputs.pruneDomains
+      ))
+    )
+
+    // Redeploy compose to apply the Traefik labels of the domains
+    core.info('🔄 Redeploying compose to apply Traefik labels...')
+    await client.deployCompose(
+      composeId,
+      `Redeploy with ${desiredDomains.length} domains`,
+      'Apply Traefik routing labels after domain reconciliation'
+    )
+    core.info('✅ Compose redeployed with domain configuration')
+
+    deploymentUrl = domainUrl(desiredDomains[0])
+    report.deploymentUrl = deploymentUrl
+    core.setOutput('deployment-url', deploymentUrl)
+    core.endGroup()
+  } else if (inputs.domainHost) {
+    core.startGroup('🌐 Domain Management')
+    deadline.enter('domain configuration')
     const protocol = inputs.domainHttps ? 'https' : 'http'
 
     // Check if domain already exists
@@ -331,6 +616,7 @@ async function runComposeDeployment(
         core.info(`   Service: ${serviceName}`)
         await client.createComposeDomain(composeId, serviceName, domainConfig)
         core.info(`✅ Domain recreated successfully with serviceName: ${serviceName}`)
+        report.domains.push({ host: inputs.domainHost, change: 'recreated' })
         
         // Redeploy compose to apply new Traefik labels
         core.info('🔄 Redeploying compose to apply Traefik labels...')
@@ -342,6 +628,7 @@ async function runComposeDeployment(
         core.info('✅ Compose redeployed with new domain configuration')
       } else {
         core.info('✅ Using existing compose domain (serviceName: ' + existingDomain.serviceName + ')')
+        report.domains.push({ host: inputs.domainHost, change: 'unchanged' })
         
         // Redeploy compose to ensure Traefik labels are applied
         // Even if domain exists, labels might not be present if this is a fresh deployment
@@ -360,6 +647,7 @@ async function runComposeDeployment(
       core.info(`   Service: ${serviceName}`)
       await client.createComposeDomain(composeId, serviceName, domainConfig)
       core.info(`✅ Domain created successfully: ${domainConfig.host}`)
+      report.domains.push({ host: inputs.domainHost, change: 'created' })
       
       // Redeploy compose to apply Traefik labels
       core.info('🔄 Redeploying compose to apply Traefik labels...')
@@ -372,6 +660,7 @@ async function runComposeDeployment(
     }
 
     deploymentUrl = `${protocol}://${domainConfig.host}`
+    report.deploymentUrl = deploymentUrl
     core.setOutput('deployment-url', deploymentUrl)
 
     core.endGroup()
@@ -381,9 +670,11 @@ async function runComposeDeployment(
   // Step 7: Wait for deployment (if enabled)
   // ====================================================================
   let deploymentCompleted = false
+  let healthVerified = false
   
   if (inputs.waitForDeployment && deploymentId) {
     core.startGroup('⏳ Waiting for Deployment')
+    deadline.enter('deployment wait')
     
     // If health check is enabled, do a quick health check first
     if (inputs.healthCheckEnabled && deploymentUrl) {
@@ -391,17 +682,22 @@ async function runComposeDeployment(
       await sleep(5000) // Give container 5 seconds to start
       
       try {
-        const quickHealthStatus = await performHealthCheck(deploymentUrl, {
-          ...inputs,
-          healthCheckRetries: 3,
-          healthCheckInterval: 5,
-          healthCheckTimeout: 30
-        })
+        const quickHealthStatus = await performHealthCheck(
+          deploymentUrl,
+          {
+            ...inputs,
+            healthCheckRetries: 3,
+            healthCheckInterval: 5,
+            healthCheckTimeout: deadline.cap(30)
+          },
+          report.healthAttempts
+        )
         
         if (quickHealthStatus === 'healthy') {
           core.info('✅ Application is already healthy! Skipping deployment wait.')
           core.setOutput('deployment-status', 'success')
           deploymentCompleted = true
+          healthVerified = true
           core.endGroup()
         }
       } catch (error) {
@@ -411,16 +707,35 @@ async function runComposeDeployment(
     
     // If quick health check didn't pass, wait for deployment normally
     if (!deploymentCompleted) {
+      const logStream = new DeploymentLogStream(inputs.deploymentLogFile)
       try {
         const timeout = inputs.deploymentTimeout || 300
-        const finalDeployment = await client.waitForDeployment(deploymentId, timeout)
+        const finalDeployment = await client.waitForDeployment(deploymentId, timeout, 5, chunk =>
+          logStream.write(chunk)
+        )
+        finishLogStream(logStream)
         core.setOutput('deployment-status', finalDeployment.status || 'completed')
         core.info(`✅ Deployment completed`)
         deploymentCompleted = true
       } catch (waitError) {
+        finishLogStream(logStream)
         core.setOutput('deployment-status', 'failed')
         core.error(`❌ Deployment wait failed: ${waitError}`)
+        if (
+          inputs.cancelOnTimeout &&
+          (waitError instanceof DeploymentTimeoutError || waitError instanceof DeadlineExceededError)
+        ) {
+          stopCancellationHandler()
+          deadline.grace(CANCEL_GRACE_SECONDS)
+          await cancelBuild(client, buildTarget)
+        }
         core.endGroup()
+        await setGitHubDeploymentStatus(
+          githubDeployment,
+          'failure',
+          deploymentUrl,
+          'Dokploy deployment did not complete'
+        )
         throw waitError
       }
       core.endGroup()
@@ -428,19 +743,32 @@ async function runComposeDeployment(
   } else {
     core.setOutput('deployment-status', 'success')
   }
+  stopCancellationHandler()
 
   // ====================================================================
   // Step 8: Health check (if enabled and not already done)
   // ====================================================================
-  if (inputs.healthCheckEnabled && deploymentUrl && !deploymentCompleted) {
+  let githubDeploymentState: GitHubDeploymentState = 'success'
+  if (inputs.healthCheckEnabled && deploymentUrl && !healthVerified) {
     core.startGroup('🏥 Health Check')
-    const healthStatus = await performHealthCheck(deploymentUrl, inputs)
+    deadline.enter('health check')
+    const healthStatus = await performHealthCheck(
+      deploymentUrl,
+      { ...inputs, healthCheckTimeout: deadline.cap(inputs.healthCheckTimeout || 60) },
+      report.healthAttempts
+    )
+    report.healthStatus = healthStatus
     core.setOutput('health-check-status', healthStatus)
     core.endGroup()
+    deadline.check()
+    if (healthStatus === 'unhealthy') {
+      githubDeploymentState = 'failure'
+    }
   } else {
-    if (deploymentCompleted) {
+    if (healthVerified) {
       core.info('✅ Health check already passed during quick check')
       core.setOutput('health-check-status', 'healthy')
+      report.healthStatus = 'healthy'
     } else {
       core.setOutput('health-check-status', 'skipped')
     }
@@ -449,6 +777,7 @@ async function runComposeDeployment(
   // ====================================================================
   // Summary
   // ====================================================================
+  await setGitHubDeploymentStatus(githubDeployment, githubDeploymentState, deploymentUrl)
   core.info('')
   core.info('='.repeat(60))
   core.info('✅ Compose deployment completed successfully!')
@@ -462,90 +791,108 @@ async function runComposeDeployment(
 // ============================================================================
 // Application Deployment Workflow
 // ============================================================================
-async function runApplicationDeployment(
+/**
+ * Resolve (or create) the project, environment and server an application deploys into
+ */
+async function resolveApplicationScope(
   client: DokployClient,
-  inputs: ReturnType<typeof parseInputs>
-): Promise<void> {
-  core.info('🚀 Starting application deployment...')
-  core.info('='.repeat(60))
-
+  inputs: ActionInputs
+): Promise<ApplicationScope> {
   // ====================================================================
   // Step 3: Ensure project exists
   // ====================================================================
-    core.startGroup('📁 Project Management')
-    let projectId = inputs.projectId
-    let defaultEnvironmentId: string | undefined
+  core.startGroup('📁 Project Management')
+  let projectId = inputs.projectId
+  let defaultEnvironmentId: string | undefined
 
-    if (!projectId && inputs.projectName) {
-      const existing = await client.findProjectByName(inputs.projectName)
-      if (existing) {
-        projectId = existing.projectId || existing.id
-        core.info(`✅ Found existing project: ${inputs.projectName} (ID: ${projectId})`)
-      } else if (inputs.autoCreateResources) {
-        const result = await client.createProject(inputs.projectName, inputs.projectDescription)
-        projectId = result.projectId
-        defaultEnvironmentId = result.defaultEnvironmentId
-      } else {
-        throw new Error(`Project "${inputs.projectName}" not found and auto-create is disabled`)
-      }
+  if (!projectId && inputs.projectName) {
+    const existing = await client.findProjectByName(inputs.projectName)
+    if (existing) {
+      projectId = existing.projectId || existing.id
+      core.info(`✅ Found existing project: ${inputs.projectName} (ID: ${projectId})`)
+    } else if (inputs.autoCreateResources) {
+      const result = await client.createProject(inputs.projectName, inputs.projectDescription)
+      projectId = result.projectId
+      defaultEnvironmentId = result.defaultEnvironmentId
+    } else {
+      throw new Error(`Project "${inputs.projectName}" not found and auto-create is disabled`)
     }
+  }
 
-    if (!projectId) {
-      throw new Error('Either project-id or project-name must be provided')
-    }
+  if (!projectId) {
+    throw new Error('Either project-id or project-name must be provided')
+  }
 
-    core.setOutput('project-id', projectId)
-    core.endGroup()
+  core.setOutput('project-id', projectId)
+  core.endGroup()
 
-    // ====================================================================
-    // Step 4: Ensure environment exists
-    // ====================================================================
-    core.startGroup('🌍 Environment Management')
-    let environmentId = inputs.environmentId
+  // ====================================================================
+  // Step 4: Ensure environment exists
+  // ====================================================================
+  core.startGroup('🌍 Environment Management')
+  let environmentId = inputs.environmentId
 
-    if (!environmentId && inputs.environmentName) {
-      const existing = await client.findEnvironmentInProject(projectId, inputs.environmentName)
-      if (existing) {
-        environmentId = existing.environmentId || existing.id
-        core.info(`✅ Found existing environment: ${inputs.environmentName} (ID: ${environmentId})`)
-      } else if (inputs.autoCreateResources) {
-        // Always create the requested environment, don't use default if name doesn't match
-        // The default environment created with project is named "production" by Dokploy
-        // We should only use it if the requested environment name is "production"
-        if (defaultEnvironmentId && inputs.environmentName.toLowerCase() === 'production') {
-          environmentId = defaultEnvironmentId
-          core.info(
-            `✅ Using default production environment created with project (ID: ${environmentId})`
-          )
-        } else {
-          environmentId = await client.createEnvironment(projectId, inputs.environmentName)
-        }
-      } else {
-        throw new Error(
-          `Environment "${inputs.environmentName}" not found and auto-create is disabled`
+  if (!environmentId && inputs.environmentName) {
+    const existing = await client.findEnvironmentInProject(projectId, inputs.environmentName)
+    if (existing) {
+      environmentId = existing.environmentId || existing.id
+      core.info(`✅ Found existing environment: ${inputs.environmentName} (ID: ${environmentId})`)
+    } else if (inputs.autoCreateResources) {
+      // Always create the requested environment, don't use default if name doesn't match
+      // The default environment created with project is named "production" by Dokploy
+      // We should only use it if the requested environment name is "production"
+      if (defaultEnvironmentId && inputs.environmentName.toLowerCase() === 'production') {
+        environmentId = defaultEnvironmentId
+        core.info(
+          `✅ Using default production environment created with project (ID: ${environmentId})`
         )
+      } else {
+        environmentId = await client.createEnvironment(projectId, inputs.environmentName)
       }
+    } else {
+      throw new Error(
+        `Environment "${inputs.environmentName}" not found and auto-create is disabled`
+      )
     }
+  }
 
-    if (!environmentId) {
-      throw new Error('Either environment-id or environment-name must be provided')
-    }
+  if (!environmentId) {
+    throw new Error('Either environment-id or environment-name must be provided')
+  }
 
-    core.setOutput('environment-id', environmentId)
-    core.endGroup()
+  core.setOutput('environment-id', environmentId)
+  core.endGroup()
 
-    // ====================================================================
-    // Step 5: Resolve server ID
-    // ====================================================================
-    core.startGroup('🖥️ Server Resolution')
-    const serverId = await client.resolveServerId(inputs.serverId, inputs.serverName)
-    core.setOutput('server-id', serverId)
-    core.endGroup()
+  // ====================================================================
+  // Step 5: Resolve server ID
+  // ====================================================================
+  core.startGroup('🖥️ Server Resolution')
+  const serverId = await client.resolveServerId(inputs.serverId, inputs.serverName)
+  core.setOutput('server-id', serverId)
+  core.endGroup()
+
+  return { projectId, environmentId, serverId }
+}
+
+async function runApplicationDeployment(
+  client: DokployClient,
+  inputs: ReturnType<typeof parseInputs>,
+  deadline: ActionDeadline,
+  report: DeploymentReport,
+  scope?: ApplicationScope,
+  log: DeploymentLog = actionLog
+): Promise<void> {
+  log.info('🚀 Starting application deployment...')
+  log.info('='.repeat(60))
+  deadline.enter('resource resolution')
+
+  const { projectId, environmentId, serverId } =
+    scope || (await resolveApplicationScope(client, inputs))
 
     // ====================================================================
     // Step 6: Ensure application exists
     // ====================================================================
-    core.startGroup('📦 Application Management')
+    log.startGroup('📦 Application Management')
     let applicationId = inputs.applicationId
 
     if (!applicationId && inputs.applicationName) {
@@ -558,7 +905,7 @@ async function runApplicationDeployment(
 
       if (existing) {
         applicationId = existing.applicationId || existing.id
-        core.info(`✅ Found existing application: ${inputs.applicationName} (ID: ${applicationId})`)
+        log.info(`✅ Found existing application: ${inputs.applicationName} (ID: ${applicationId})`)
       } else if (inputs.autoCreateResources) {
         const config = buildApplicationConfig(
           inputs.applicationName,
@@ -579,23 +926,33 @@ async function runApplicationDeployment(
       throw new Error('Either application-id or application-name must be provided')
     }
 
-    core.setOutput('application-id', applicationId)
-    core.endGroup()
+    log.setOutput('application-id', applicationId)
+    Object.assign(report, { projectId, environmentId, serverId, serviceId: applicationId })
+    log.endGroup()
 
     // ====================================================================
     // Step 6.5: Update application settings (resource limits, replicas, etc.)
     // ====================================================================
-    core.startGroup('⚙️ Application Settings Update')
+    log.startGroup('⚙️ Application Settings Update')
     
     const hasResourceSettings =
       inputs.memoryLimit !== undefined ||
       inputs.memoryReservation !== undefined ||
       inputs.cpuLimit !== undefined ||
       inputs.cpuReservation !== undefined ||
-      inputs.replicas !== undefined ||
-      inputs.restartPolicy !== undefined
+      inputs.replicas !== undefined
+    const restartPolicySwarm = buildRestartPolicySwarm(inputs)
+    const healthCheckSwarm = buildHealthCheckSwarm(inputs)
+    const placementSwarm = buildPlacementSwarm(inputs)
+    const updateConfigSwarm = buildUpdateConfigSwarm(inputs)
+    const hasSwarmSettings = !!(
+      restartPolicySwarm ||
+      healthCheckSwarm ||
+      placementSwarm ||
+      updateConfigSwarm
+    )
     
-    if (hasResourceSettings) {
+    if (hasResourceSettings || hasSwarmSettings) {
       const updateConfig: Record<string, unknown> = { applicationId }
       
       // Dokploy stores memory/CPU as text and passes directly to Docker Swarm API:
@@ -603,55 +960,71 @@ async function runApplicationDeployment(
       // - NanoCPUs: expects nanosecond CPU units (1 CPU core = 1e9 NanoCPUs)
       if (inputs.memoryLimit !== undefined) {
         updateConfig.memoryLimit = (inputs.memoryLimit * 1024 * 1024).toString()
-        core.info(`  Memory Limit: ${inputs.memoryLimit}MB (${updateConfig.memoryLimit} bytes)`)
+        log.info(`  Memory Limit: ${inputs.memoryLimit}MB (${updateConfig.memoryLimit} bytes)`)
       }
       if (inputs.memoryReservation !== undefined) {
         updateConfig.memoryReservation = (inputs.memoryReservation * 1024 * 1024).toString()
-        core.info(`  Memory Reservation: ${inputs.memoryReservation}MB (${updateConfig.memoryReservation} bytes)`)
+        log.info(`  Memory Reservation: ${inputs.memoryReservation}MB (${updateConfig.memoryReservation} bytes)`)
       }
       if (inputs.cpuLimit !== undefined) {
         updateConfig.cpuLimit = Math.round(inputs.cpuLimit * 1e9).toString()
-        core.info(`  CPU Limit: ${inputs.cpuLimit} cores (${updateConfig.cpuLimit} NanoCPUs)`)
+        log.info(`  CPU Limit: ${inputs.cpuLimit} cores (${updateConfig.cpuLimit} NanoCPUs)`)
       }
       if (inputs.cpuReservation !== undefined) {
         updateConfig.cpuReservation = Math.round(inputs.cpuReservation * 1e9).toString()
-        core.info(`  CPU Reservation: ${inputs.cpuReservation} cores (${updateConfig.cpuReservation} NanoCPUs)`)
+        log.info(`  CPU Reservation: ${inputs.cpuReservation} cores (${updateConfig.cpuReservation} NanoCPUs)`)
       }
       
       // Replicas is a number
       if (inputs.replicas !== undefined) {
         updateConfig.replicas = inputs.replicas
-        core.info(`  Replicas: ${inputs.replicas}`)
+        log.info(`  Replicas: ${inputs.replicas}`)
       }
       
-      // RestartPolicy for Docker Swarm (if provided)
-      if (inputs.restartPolicy) {
-        // Convert simple restart policy to Swarm format
-        const policyMap: Record<string, string> = {
-          'always': 'any',
-          'unless-stopped': 'any',
-          'on-failure': 'on-failure',
-          'no': 'none'
-        }
-        const swarmCondition = policyMap[inputs.restartPolicy] || 'any'
-        updateConfig.restartPolicySwarm = {
-          Condition: swarmCondition
-        }
-        core.info(`  Restart Policy: ${inputs.restartPolicy} (Swarm: ${swarmCondition})`)
+      // Swarm service settings are Docker Engine API objects (see swarm.ts)
+      if (restartPolicySwarm) {
+        updateConfig.restartPolicySwarm = restartPolicySwarm
+        log.info(`  Restart Policy (Swarm): ${formatRestartPolicy(restartPolicySwarm)}`)
+      }
+      if (healthCheckSwarm) {
+        updateConfig.healthCheckSwarm = healthCheckSwarm
+        log.info(`  Container Health Check: ${formatHealthCheck(healthCheckSwarm)}`)
+      }
+      if (placementSwarm) {
+        updateConfig.placementSwarm = placementSwarm
+        log.info(`  Placement: ${formatPlacement(placementSwarm)}`)
+      }
+
+      // Rolling update pace, also used when Swarm rolls a failed update back
+      if (updateConfigSwarm) {
+        updateConfig.updateConfigSwarm = updateConfigSwarm
+        updateConfig.rollbackConfigSwarm = buildRollbackConfigSwarm(updateConfigSwarm)
+        log.info(`  Update Config: ${formatUpdateConfig(updateConfigSwarm)}`)
       }
       
-      core.info('🔄 Updating application settings...')
+      log.info('🔄 Updating application settings...')
       await client.updateApplication(applicationId, updateConfig)
-      core.info('✅ Application settings updated')
+      log.info('✅ Application settings updated')
     } else {
-      core.info('ℹ️ No resource settings to update')
+      log.info('ℹ️ No resource settings to update')
+    }
+    log.endGroup()
+
+    // ====================================================================
+    // Step 6.9: Record current version for rollback (if enabled)
+    // ====================================================================
+    let rollbackSnapshot: RollbackSnapshot | null = null
+    if (inputs.rollbackOnFailure) {
+      log.startGroup('💾 Recording Current Version')
+      rollbackSnapshot = await captureRollbackSnapshot(client, applicationId)
+      report.imageBefore = rollbackSnapshot?.dockerImage
+      log.endGroup()
     }
-    core.endGroup()
 
     // ====================================================================
     // Step 7: Configure Docker provider
     // ====================================================================
-    core.startGroup('🐳 Docker Provider Configuration')
+    log.startGroup('🐳 Docker Provider Configuration')
     await client.saveDockerProvider(
       applicationId,
       inputs.dockerImage,
@@ -659,28 +1032,32 @@ async function runApplicationDeployment(
       inputs.registryUsername,
       inputs.registryPassword
     )
-    core.endGroup()
+    log.endGroup()
 
     // ====================================================================
     // Step 7.5: Configure Docker advanced settings (volumes, group_add)
     // ====================================================================
     if (inputs.volumes || inputs.groupAdd) {
-      core.startGroup('⚙️ Docker Advanced Settings')
+      log.startGroup('⚙️ Docker Advanced Settings')
       await client.saveDockerAdvancedSettings(applicationId, inputs.volumes, inputs.groupAdd)
-      core.endGroup()
+      log.endGroup()
     }
 
     // ====================================================================
     // Step 8: Configure environment variables
     // ====================================================================
-    core.startGroup('🌍 Environment Variables Configuration')
-    const envString = parseEnvironmentVariables(inputs)
+    log.startGroup('🌍 Environment Variables Configuration')
+    const existingEnv =
+      inputs.envMergeMode === 'merge-with-existing'
+        ? (await client.getApplication(applicationId)).env
+        : undefined
+    const envString = parseEnvironmentVariables(inputs, existingEnv)
     if (envString) {
       await client.saveEnvironment(applicationId, envString)
     } else {
-      core.info('ℹ️ No environment variables to configure')
+      log.info('ℹ️ No environment variables to configure')
     }
-    core.endGroup()
+    log.endGroup()
 
     // ====================================================================
     // Step 9: Configure domain (if enabled)
@@ -688,8 +1065,25 @@ async function runApplicationDeployment(
     let deploymentUrl: string | undefined
 
     const domainConfig = buildDomainConfig(inputs)
-    if (domainConfig) {
-      core.startGroup('🌐 Domain Configuration')
+    if (inputs.domains) {
+      log.startGroup('🌐 Domain Configuration')
+      const desiredDomains = buildDomainConfigs(inputs)
+      report.domains.push(
+        ...(await reconcileDomains(
+          client,
+          { type: 'application', id: applicationId },
+          desiredDomains,
+          !!inputs.pruneDomains
+        ))
+      )
+
+      // The first domain is the one health checked and reported
+      deploymentUrl = domainUrl(desiredDomains[0])
+      report.deploymentUrl = deploymentUrl
+      log.setOutput('deployment-url', deploymentUrl)
+      log.endGroup()
+    } else if (domainConfig) {
+      log.startGroup('🌐 Domain Configuration')
 
       const existingDomains = await client.getDomains(applicationId)
       
@@ -702,8 +1096,8 @@ async function runApplicationDeployment(
       
       // Remove duplicates if more than one exists for the same configuration
       if (exactMatches.length > 1) {
-        core.warning(`⚠️ Found ${exactMatches.length} duplicate domains for ${domainConfig.host}:${domainConfig.port}${domainConfig.path}`)
-        core.info('🧹 Removing duplicates, keeping only the latest one...')
+        log.warning(`⚠️ Found ${exactMatches.length} duplicate domains for ${domainConfig.host}:${domainConfig.port}${domainConfig.path}`)
+        log.info('🧹 Removing duplicates, keeping only the latest one...')
         
         // Sort by creation date and keep the latest
         const sorted = exactMatches.sort((a, b) => {
@@ -715,12 +1109,12 @@ async function runApplicationDeployment(
         // Remove all except the first (latest) one
         for (let i = 1; i < sorted.length; i++) {
           const domainId = sorted[i].domainId || sorted[i].id || ''
-          core.info(`  Removing duplicate domain: ${sorted[i].host} (ID: ${domainId})`)
+          log.info(`  Removing duplicate domain: ${sorted[i].host} (ID: ${domainId})`)
           await client.removeDomain(domainId)
           await sleep(1000) // Small delay between deletions
         }
         
-        core.info(`✅ Cleaned up ${sorted.length - 1} duplicate domains`)
+        log.info(`✅ Cleaned up ${sorted.length - 1} duplicate domains`)
       }
 
       const existingDomain = exactMatches.length > 0 ? exactMatches[0] : null
@@ -729,48 +1123,61 @@ async function runApplicationDeployment(
         if (inputs.forceDomainRecreation) {
           // Force recreation: delete and create new
           const domainId = existingDomain.domainId || existingDomain.id || ''
-          core.info(`🔄 Force recreating domain: ${domainConfig.host}`)
+          log.info(`🔄 Force recreating domain: ${domainConfig.host}`)
           await client.removeDomain(domainId)
           await sleep(2000)
           await client.createDomain(applicationId, domainConfig)
-          core.info(`✅ Domain recreated: ${domainConfig.host}`)
+          log.info(`✅ Domain recreated: ${domainConfig.host}`)
+          report.domains.push({ host: domainConfig.host || '', change: 'recreated' })
         } else {
           // Update existing domain with new configuration
           const domainId = existingDomain.domainId || existingDomain.id || ''
-          core.info(`ℹ️ Domain already exists: ${domainConfig.host}, updating configuration...`)
+          log.info(`ℹ️ Domain already exists: ${domainConfig.host}, updating configuration...`)
           await client.updateDomain(domainId, domainConfig)
-          core.info(`✅ Domain configuration updated: ${domainConfig.host}`)
+          log.info(`✅ Domain configuration updated: ${domainConfig.host}`)
+          report.domains.push({ host: domainConfig.host || '', change: 'updated' })
         }
       } else {
         // Create new domain - only if it doesn't exist
-        core.info(`➕ Creating new domain: ${domainConfig.host}:${domainConfig.port}${domainConfig.path}`)
+        log.info(`➕ Creating new domain: ${domainConfig.host}:${domainConfig.port}${domainConfig.path}`)
         await client.createDomain(applicationId, domainConfig)
-        core.info(`✅ Domain created successfully: ${domainConfig.host}`)
+        log.info(`✅ Domain created successfully: ${domainConfig.host}`)
+        report.domains.push({ host: domainConfig.host || '', change: 'created' })
       }
 
       deploymentUrl = domainConfig.https
         ? `https://${domainConfig.host}`
         : `http://${domainConfig.host}`
-      core.setOutput('deployment-url', deploymentUrl)
-
-      core.endGroup()
-    }
+      report.deploymentUrl = deploymentUrl
+      log.setOutput('deployment-url', deploymentUrl)
 
-    // ====================================================================
-    // Step 10: Cleanup old containers (if enabled)
-    // ====================================================================
-    if (inputs.cleanupOldContainers) {
-      core.startGroup('🧹 Cleanup Old Containers')
-      await client.stopApplication(applicationId)
-      core.info('⏳ Waiting 15 seconds for containers to stop...')
-      await sleep(15000)
-      core.endGroup()
+      log.endGroup()
     }
 
     // ====================================================================
     // Step 11: Deploy application
     // ====================================================================
-    core.startGroup('🚀 Deployment')
+    log.startGroup('🚀 Deployment')
+    deadline.enter('deployment')
+    const buildTarget: BuildTarget = { type: 'application', id: applicationId }
+    if (inputs.cleanQueues) {
+      await cleanBuildQueue(client, buildTarget)
+    }
+    const githubDeployment = await createGitHubDeployment(
+      inputs,
+      inputs.deploymentTitle || `Deploy ${inputs.dockerImage}`
+    )
+    await setGitHubDeploymentStatus(githubDeployment, 'in_progress', deploymentUrl)
+    const stopCancellationHandler = onCancellation(async () => {
+      deadline.grace(CANCEL_GRACE_SECONDS)
+      await cancelBuild(client, buildTarget)
+      await setGitHubDeploymentStatus(
+        githubDeployment,
+        'inactive',
+        deploymentUrl,
+        'Workflow run cancelled'
+      )
+    })
     let deploymentId: string | undefined
     try {
       const deploymentResult = await client.deployApplication(
@@ -781,205 +1188,780 @@ async function runApplicationDeployment(
       
       // Capture deployment ID for tracking (API may return null for fire-and-forget deploys)
       deploymentId = deploymentResult?.deploymentId || deploymentResult?.id
+      report.deploymentId = deploymentId
       if (deploymentId) {
-        core.setOutput('deployment-id', deploymentId)
-        core.info(`✅ Deployment ID: ${deploymentId}`)
+        log.setOutput('deployment-id', deploymentId)
+        log.info(`✅ Deployment ID: ${deploymentId}`)
       } else {
-        core.info('✅ Deployment triggered successfully (no deployment ID returned)')
+        log.info('✅ Deployment triggered successfully (no deployment ID returned)')
       }
     } catch (deployError) {
-      core.setOutput('deployment-status', 'failed')
+      stopCancellationHandler()
+      log.setOutput('deployment-status', 'failed')
       
       // Extract and display detailed error information
       const errorMessage = deployError instanceof Error ? deployError.message : String(deployError)
+      const apiError = deployError instanceof DokployApiError ? deployError : undefined
+      const apiMessage = apiError?.apiMessage || errorMessage
       
-      core.error('❌ Deployment Failed')
-      core.error('='.repeat(60))
-      core.error('')
+      log.error('❌ Deployment Failed')
+      log.error('='.repeat(60))
+      log.error('')
       
       // Parse common Dokploy API errors
-      if (errorMessage.includes('invalid memory value')) {
-        const match = errorMessage.match(/invalid memory value (\d+): Must be at least (\d+)/)
+      if (apiError?.statusCode === 401 || apiError?.statusCode === 403) {
+        log.error(`Authentication Error (HTTP ${apiError.statusCode}):`)
+        log.error(`  Dokploy rejected the API key for ${apiError.method} ${apiError.endpoint}`)
+        log.error('')
+        log.error(`💡 Fix: Check that the api-key secret is valid and has access to this project`)
+      } else if (apiError?.statusCode === 404) {
+        log.error(`Application Not Found:`)
+        log.error(`  ${apiMessage}`)
+        log.error('')
+        log.error(`💡 Fix: The application may have been deleted; re-run with auto-create-resources enabled`)
+      } else if (apiMessage.includes('invalid memory value')) {
+        const match = apiMessage.match(/invalid memory value (\d+): Must be at least (\d+)/)
         if (match) {
-          core.error(`Memory Configuration Error:`)
-          core.error(`  Current value: ${match[1]}MB`)
-          core.error(`  Minimum required: ${match[2]}MB (4MiB)`)
-          core.error('')
-          core.error(`💡 Fix: Set memory-limit and memory-reservation to at least 4MB`)
-          core.error(`   Recommended values: 128MB, 256MB, 512MB, 1024MB`)
+          log.error(`Memory Configuration Error:`)
+          log.error(`  Current value: ${match[1]}MB`)
+          log.error(`  Minimum required: ${match[2]}MB (4MiB)`)
+          log.error('')
+          log.error(`💡 Fix: Set memory-limit and memory-reservation to at least 4MB`)
+          log.error(`   Recommended values: 128MB, 256MB, 512MB, 1024MB`)
         } else {
-          core.error(`Memory value is too low. Dokploy requires at least 4MiB.`)
-          core.error(`💡 Set memory-limit to at least 4MB (recommended: 128MB or higher)`)
+          log.error(`Memory value is too low. Dokploy requires at least 4MiB.`)
+          log.error(`💡 Set memory-limit to at least 4MB (recommended: 128MB or higher)`)
         }
-      } else if (errorMessage.includes('invalid cpu value')) {
-        const match = errorMessage.match(/invalid cpu value ([0-9.e-]+): Must be at least ([0-9.]+)/)
+      } else if (apiMessage.includes('invalid cpu value')) {
+        const match = apiMessage.match(/invalid cpu value ([0-9.e-]+): Must be at least ([0-9.]+)/)
         if (match) {
-          core.error(`CPU Configuration Error:`)
-          core.error(`  Current value: ${match[1]}`)
-          core.error(`  Minimum required: ${match[2]}`)
-          core.error('')
-          core.error(`💡 Fix: Set cpu-limit and cpu-reservation to at least 0.001`)
-          core.error(`   Common values: 0.1 (100m), 0.25 (250m), 0.5 (500m), 1.0 (1 CPU)`)
+          log.error(`CPU Configuration Error:`)
+          log.error(`  Current value: ${match[1]}`)
+          log.error(`  Minimum required: ${match[2]}`)
+          log.error('')
+          log.error(`💡 Fix: Set cpu-limit and cpu-reservation to at least 0.001`)
+          log.error(`   Common values: 0.1 (100m), 0.25 (250m), 0.5 (500m), 1.0 (1 CPU)`)
         } else {
-          core.error(`CPU value is too low. Dokploy requires at least 0.001.`)
-          core.error(`💡 Set cpu-limit to at least 0.001 (recommended: 0.1 or higher)`)
+          log.error(`CPU value is too low. Dokploy requires at least 0.001.`)
+          log.error(`💡 Set cpu-limit to at least 0.001 (recommended: 0.1 or higher)`)
         }
-      } else if (errorMessage.includes('name must be valid as a DNS name component')) {
-        core.error(`DNS Name Validation Error:`)
-        core.error(`  One or more names (application, project, or environment) are invalid.`)
-        core.error('')
-        core.error(`DNS names must:`)
-        core.error(`  • Contain only lowercase letters, numbers, and hyphens`)
-        core.error(`  • Start and end with a letter or number`)
-        core.error(`  • Be 63 characters or less`)
-        core.error('')
-        core.error(`💡 Fix: Check your application-name, project-name, and environment-name inputs`)
+      } else if (apiMessage.includes('name must be valid as a DNS name component')) {
+        log.error(`DNS Name Validation Error:`)
+        log.error(`  One or more names (application, project, or environment) are invalid.`)
+        log.error('')
+        log.error(`DNS names must:`)
+        log.error(`  • Contain only lowercase letters, numbers, and hyphens`)
+        log.error(`  • Start and end with a letter or number`)
+        log.error(`  • Be 63 characters or less`)
+        log.error('')
+        log.error(`💡 Fix: Check your application-name, project-name, and environment-name inputs`)
         if (inputs.applicationName) {
-          core.error(`   Application: "${inputs.applicationName}"`)
+          log.error(`   Application: "${inputs.applicationName}"`)
         }
         if (inputs.projectName) {
-          core.error(`   Project: "${inputs.projectName}"`)
+          log.error(`   Project: "${inputs.projectName}"`)
         }
         if (inputs.environmentName) {
-          core.error(`   Environment: "${inputs.environmentName}"`)
+          log.error(`   Environment: "${inputs.environmentName}"`)
         }
+      } else if (apiError?.retryable) {
+        log.error(`Dokploy Unavailable:`)
+        log.error(`  ${errorMessage}`)
+        log.error('')
+        log.error(`💡 The deploy request is not retried automatically because it may already be queued.`)
+        log.error(`   Check the deployments tab in Dokploy before re-running the workflow.`)
       } else {
         // Generic error
-        core.error(`Error: ${errorMessage}`)
+        log.error(`Error: ${errorMessage}`)
+        if (apiError) {
+          log.error(`  Endpoint: ${apiError.method} ${apiError.endpoint}`)
+          log.error(`  Status: ${apiError.statusCode}${apiError.code ? ` (${apiError.code})` : ''}`)
+        }
       }
       
-      core.error('')
-      core.error('='.repeat(60))
-      core.endGroup()
+      log.error('')
+      log.error('='.repeat(60))
+      log.endGroup()
+      await setGitHubDeploymentStatus(githubDeployment, 'failure', deploymentUrl, apiMessage)
+      await rollbackAfterFailure(client, inputs, deadline, rollbackSnapshot, log, deploymentUrl)
       throw deployError
     }
-    core.endGroup()
+    log.endGroup()
 
     // ====================================================================
     // Step 12: Wait for deployment (if enabled)
     // ====================================================================
     let deploymentCompleted = false
+    let healthVerified = false
+    let deploymentHealthy = true
     
     if (inputs.waitForDeployment && deploymentId) {
-      core.startGroup('⏳ Waiting for Deployment')
+      log.startGroup('⏳ Waiting for Deployment')
+      deadline.enter('deployment wait')
       
       // If health check is enabled, do a quick health check first
       // This can save significant time if the app is already healthy
       if (inputs.healthCheckEnabled && deploymentUrl) {
-        core.info('🔍 Quick health check before waiting for deployment...')
+        log.info('🔍 Quick health check before waiting for deployment...')
         await sleep(5000) // Give container 5 seconds to start
         
         try {
-          const quickHealthStatus = await performHealthCheck(deploymentUrl, {
-            ...inputs,
-            healthCheckRetries: 3,
-            healthCheckInterval: 5,
-            healthCheckTimeout: 30
-          })
+          const quickHealthStatus = await performHealthCheck(
+            deploymentUrl,
+            {
+              ...inputs,
+              healthCheckRetries: 3,
+              healthCheckInterval: 5,
+              healthCheckTimeout: deadline.cap(30)
+            },
+            report.healthAttempts,
+            log
+          )
           
           if (quickHealthStatus === 'healthy') {
-            core.info('✅ Application is already healthy! Skipping deployment wait.')
-            core.setOutput('deployment-status', 'success')
+            log.info('✅ Application is already healthy! Skipping deployment wait.')
+            log.setOutput('deployment-status', 'success')
             deploymentCompleted = true
-            core.endGroup()
+            healthVerified = true
+            log.endGroup()
           }
         } catch (error) {
-          core.info('ℹ️ Quick health check did not pass, waiting for deployment...')
+          log.info('ℹ️ Quick health check did not pass, waiting for deployment...')
         }
       }
       
       // If quick health check didn't pass, wait for deployment normally
       if (!deploymentCompleted) {
+        const logStream = new DeploymentLogStream(inputs.deploymentLogFile, log)
         try {
           const timeout = inputs.deploymentTimeout || 300
-          const finalDeployment = await client.waitForDeployment(deploymentId, timeout)
-          core.setOutput('deployment-status', finalDeployment.status || 'completed')
-          core.info(`✅ Deployment completed in ${Math.round(((Date.now() - Date.parse(finalDeployment.startedAt || '')) / 1000))}s`)
+          const finalDeployment = await client.waitForDeployment(
+            deploymentId,
+            timeout,
+            5,
+            chunk => logStream.write(chunk),
+            log
+          )
+          finishLogStream(logStream)
+          log.setOutput('deployment-status', finalDeployment.status || 'completed')
+          log.info(`✅ Deployment completed in ${Math.round(((Date.now() - Date.parse(finalDeployment.startedAt || '')) / 1000))}s`)
           deploymentCompleted = true
         } catch (waitError) {
-          core.setOutput('deployment-status', 'failed')
+          finishLogStream(logStream)
+          log.setOutput('deployment-status', 'failed')
           const errorMessage = waitError instanceof Error ? waitError.message : String(waitError)
-          core.error(`❌ Deployment wait failed: ${errorMessage}`)
+          log.error(`❌ Deployment wait failed: ${errorMessage}`)
           
-          // Try to get deployment logs for debugging
-          if (deploymentId) {
+          // Stop the build so it can't switch the app to this image after we give up
+          if (
+            inputs.cancelOnTimeout &&
+            (waitError instanceof DeploymentTimeoutError ||
+              waitError instanceof DeadlineExceededError)
+          ) {
+            stopCancellationHandler()
+            deadline.grace(CANCEL_GRACE_SECONDS)
+            await cancelBuild(client, buildTarget)
+          }
+          
+          // Print the logs at once if none were streamed while waiting
+          if (deploymentId && logStream.lineCount === 0) {
             try {
               const logs = await client.getDeploymentLogs(deploymentId)
               if (logs) {
-                core.error('')
-                core.error('Deployment Logs:')
-                core.error('='.repeat(60))
-                core.error(logs)
-                core.error('='.repeat(60))
+                log.error('')
+                log.error('Deployment Logs:')
+                log.error('='.repeat(60))
+                log.error(logs)
+                log.error('='.repeat(60))
               }
             } catch (logError) {
-              core.warning('Could not retrieve deployment logs')
+              log.warning('Could not retrieve deployment logs')
             }
           }
           
-          core.endGroup()
+          log.endGroup()
+          await setGitHubDeploymentStatus(
+            githubDeployment,
+            'failure',
+            deploymentUrl,
+            'Dokploy deployment did not complete'
+          )
+          await rollbackAfterFailure(
+            client,
+            inputs,
+            deadline,
+            rollbackSnapshot,
+            log,
+            deploymentUrl,
+            deploymentId
+          )
           throw waitError
         }
-        core.endGroup()
+        log.endGroup()
       }
     } else if (inputs.waitForDeployment && !deploymentId) {
-      core.warning('⚠️ wait-for-deployment enabled but no deployment ID available, skipping wait')
-      core.setOutput('deployment-status', 'success')
+      log.warning('⚠️ wait-for-deployment enabled but no deployment ID available, skipping wait')
+      log.setOutput('deployment-status', 'success')
     } else {
       // Not waiting for deployment, assume success
-      core.setOutput('deployment-status', 'success')
+      log.setOutput('deployment-status', 'success')
     }
+    stopCancellationHandler()
 
     // ====================================================================
     // Step 13: Health check (if enabled and not already done)
     // ====================================================================
-    if (inputs.healthCheckEnabled && deploymentUrl && !deploymentCompleted) {
+    if (inputs.healthCheckEnabled && deploymentUrl && !healthVerified) {
       // Only do full health check if we didn't already verify health in quick check
-      core.startGroup('🏥 Health Check')
-      const healthStatus = await performHealthCheck(deploymentUrl, inputs)
-      core.setOutput('health-check-status', healthStatus)
+      log.startGroup('🏥 Health Check')
+      deadline.enter('health check')
+      const healthStatus = await performHealthCheck(
+        deploymentUrl,
+        { ...inputs, healthCheckTimeout: deadline.cap(inputs.healthCheckTimeout || 60) },
+        report.healthAttempts,
+        log
+      )
+      report.healthStatus = healthStatus
+      log.setOutput('health-check-status', healthStatus)
+      log.endGroup()
+      deadline.check()
 
       if (healthStatus === 'unhealthy') {
-        core.setOutput('deployment-status', 'failed')
+        deploymentHealthy = false
+        log.setOutput('deployment-status', 'failed')
+        await setGitHubDeploymentStatus(
+          githubDeployment,
+          'failure',
+          deploymentUrl,
+          'Health check failed'
+        )
+        await rollbackAfterFailure(
+          client,
+          inputs,
+          deadline,
+          rollbackSnapshot,
+          log,
+          deploymentUrl,
+          deploymentId
+        )
 
         if (inputs.failOnHealthCheckError) {
-          core.setFailed('❌ Deployment failed: Health check returned unhealthy status')
-          core.error('The deployment completed but the application failed health checks.')
-          core.error('This indicates the new version is not functioning correctly.')
-          core.endGroup()
+          log.error('The deployment completed but the application failed health checks.')
+          log.error('This indicates the new version is not functioning correctly.')
           throw new Error('Health check failed - deployment marked as failed')
         } else {
-          core.warning('⚠️ Health check failed but fail-on-health-check-error is disabled')
-          core.warning('The deployment is marked as failed but the workflow will continue.')
-          core.warning('Please verify the application manually.')
+          log.warning('⚠️ Health check failed but fail-on-health-check-error is disabled')
+          log.warning('The deployment is marked as failed but the workflow will continue.')
+          log.warning('Please verify the application manually.')
         }
       }
-
-      core.endGroup()
     } else {
-      if (deploymentCompleted) {
-        core.info('✅ Health check already passed during quick check')
-        core.setOutput('health-check-status', 'healthy')
+      if (healthVerified) {
+        log.info('✅ Health check already passed during quick check')
+        log.setOutput('health-check-status', 'healthy')
+        report.healthStatus = 'healthy'
       } else {
-        core.setOutput('health-check-status', 'skipped')
+        log.setOutput('health-check-status', 'skipped')
+      }
+    }
+
+    // ====================================================================
+    // Step 13.5: Report old containers (if enabled, after a healthy deploy)
+    // ====================================================================
+    if (inputs.reportOldContainers && !deploymentHealthy) {
+      log.info('ℹ️ Skipping the old container report because the deployment is unhealthy')
+    } else if (inputs.reportOldContainers) {
+      log.startGroup('🔍 Old Containers')
+      deadline.enter('old containers')
+      try {
+        const application = await client.getApplication(applicationId)
+        const oldContainers = await reportOldContainers(client, {
+          appName: application.appName || application.name,
+          serverId,
+          containerPrefix: inputs.containerPrefix,
+          keepCount: inputs.keepContainerCount
+        })
+        log.setOutput('old-containers', String(oldContainers.stale.length))
+        report.oldContainers = oldContainers
+      } catch (error) {
+        log.warning(
+          `⚠️ Listing old containers failed: ${error instanceof Error ? error.message : String(error)}`
+        )
       }
+      // Deprecated output: nothing is removed, see old-containers.ts
+      log.setOutput('containers-cleaned', '0')
+      log.endGroup()
     }
 
     // ====================================================================
     // Step 14: Summary
     // ====================================================================
-    core.info('')
-    core.info('='.repeat(60))
-    core.info('✅ Deployment completed successfully!')
-    core.info('='.repeat(60))
-    core.info(`📦 Application: ${applicationId}`)
-    core.info(`📁 Project: ${projectId}`)
-    core.info(`🌍 Environment: ${environmentId}`)
-    core.info(`🖥️ Server: ${serverId}`)
+    if (deploymentHealthy) {
+      await setGitHubDeploymentStatus(githubDeployment, 'success', deploymentUrl)
+    }
+    log.info('')
+    log.info('='.repeat(60))
+    log.info('✅ Deployment completed successfully!')
+    log.info('='.repeat(60))
+    log.info(`📦 Application: ${applicationId}`)
+    log.info(`📁 Project: ${projectId}`)
+    log.info(`🌍 Environment: ${environmentId}`)
+    log.info(`🖥️ Server: ${serverId}`)
     if (deploymentUrl) {
-      core.info(`🌐 URL: ${deploymentUrl}`)
+      log.info(`🌐 URL: ${deploymentUrl}`)
     }
-    core.info('='.repeat(60))
+    log.info('='.repeat(60))
+}
+
+// ============================================================================
+// Multi-Application Deployment
+// ============================================================================
+async function runMultiApplicationDeployment(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline
+): Promise<void> {
+  const applications = inputs.applications || []
+  const concurrency = inputs.applicationsConcurrency || DEFAULT_APPLICATIONS_CONCURRENCY
+  core.info(`🚀 Deploying ${applications.length} applications (concurrency: ${concurrency})`)
+  core.info('='.repeat(60))
+
+  // Project, environment and server are shared, resolve them once
+  deadline.enter('resource resolution')
+  const scope = await resolveApplicationScope(client, inputs)
+
+  const layers = dependencyLayers(applications)
+  if (layers.length > 1) {
+    const order = layers.map(layer => layer.map(app => app.name).join(', ')).join(' → ')
+    core.info(`🧭 Deploy order: ${order}`)
+  }
+
+  // Each layer waits for the previous one; dependents of an application that
+  // failed or came up unhealthy are skipped. Applications of a layer run side
+  // by side, so each logs under its own prefix and draws on the deadline with
+  // its own phase; outputs and summaries are written once all have finished.
+  deadline.enter('applications')
+  const finished = new Map<string, ApplicationResult>()
+  const reports = new Map<string, [ActionInputs, DeploymentReport]>()
+  for (const layer of layers) {
+    const layerResults = await runWithConcurrency(layer, concurrency, async spec => {
+      const blockedBy = (spec.dependsOn || []).filter(
+        name => !isDeployedHealthy(finished.get(name))
+      )
+      if (blockedBy.length > 0) {
+        core.warning(`⏭️ Skipping ${spec.name}: ${blockedBy.join(', ')} did not deploy healthy`)
+        return skippedApplication(spec, blockedBy)
+      }
+
+      const appInputs = applicationInputs(inputs, spec)
+      const report = createDeploymentReport(appInputs)
+      const log = applicationLog(spec.name)
+      try {
+        await runApplicationDeployment(
+          client,
+          appInputs,
+          deadline.scoped(spec.name),
+          report,
+          scope,
+          log
+        )
+        report.status = 'success'
+      } catch (error) {
+        report.status = 'failed'
+        report.error = error instanceof Error ? error.message : String(error)
+        log.error(`❌ ${report.error}`)
+      }
+      report.finishedAt = Date.now()
+      reports.set(spec.name, [appInputs, report])
+      return applicationResult(report)
+    })
+    layerResults.forEach(result => finished.set(result.name, result))
+  }
+  const results = applications.map(app => finished.get(app.name) as ApplicationResult)
+
+  for (const app of applications) {
+    const deployed = reports.get(app.name)
+    if (deployed) {
+      const [appInputs, report] = deployed
+      await writeJobSummary(report, inputs.dokployUrl)
+      await upsertPullRequestComment(appInputs, report, inputs.dokployUrl)
+    }
+  }
+
+  core.setOutput(
+    'deployment-status',
+    results.every(result => result.status === 'success') ? 'success' : 'failed'
+  )
+  core.setOutput('applications-json', JSON.stringify(results))
+  core.info('')
+  results.forEach(result => {
+    const icon = result.status === 'success' ? '✅' : result.status === 'skipped' ? '⏭️' : '❌'
+    core.info(`${icon} ${result.name}: ${result.status} (${result.durationSeconds}s)`)
+  })
+
+  const failed = results
+    .filter(result => result.status !== 'success')
+    .map(result => (result.status === 'skipped' ? `${result.name} (skipped)` : result.name))
+  if (failed.length > 0) {
+    const message = `${failed.length} of ${results.length} applications failed: ${failed.join(', ')}`
+    if (!inputs.continueOnAppFailure) {
+      throw new Error(message)
+    }
+    core.warning(`⚠️ ${message} (continue-on-app-failure is set)`)
+  }
+}
+
+// ============================================================================
+// Blue-Green Deployment
+// ============================================================================
+async function runBlueGreenDeployment(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline,
+  report: DeploymentReport
+): Promise<void> {
+  deadline.enter('resource resolution')
+  const scope = await resolveApplicationScope(client, inputs)
+
+  // Validation guarantees both for the blue-green strategy
+  const name = inputs.applicationName || ''
+  const productionHost = inputs.domainHost || ''
+  const colors = await resolveColors(client, scope, name, productionHost)
+  const idleName = colorApplicationName(name, colors.idle)
+  core.info(
+    colors.live
+      ? `🔵 ${productionHost} is served by ${colorApplicationName(name, colors.live)}, deploying ${idleName}`
+      : `🔵 ${productionHost} is not served by either color yet, deploying ${idleName}`
+  )
+
+  const idleHost = colorDomainHost(inputs.blueGreenDomainTemplate || '', colors.idle)
+  report.slot = colors.idle
+  await runApplicationDeployment(
+    client,
+    {
+      ...inputs,
+      applicationId: colors.applicationIds[colors.idle],
+      applicationName: idleName,
+      domainHost: idleHost,
+      // A shared prefix would report the live color's containers as old
+      containerPrefix: undefined
+    },
+    deadline,
+    report,
+    scope
+  )
+
+  if (report.healthStatus === 'unhealthy') {
+    throw new Error(`${idleName} is unhealthy on ${idleHost}; ${productionHost} was not switched`)
+  }
+  if (report.healthStatus !== 'healthy') {
+    core.warning(`⚠️ ${idleName} was not health checked, switching ${productionHost} unverified`)
+  }
+
+  core.startGroup('🔀 Switching Production Domain')
+  deadline.enter('domain switch')
+  const targetId = report.serviceId || ''
+  const otherIds = Object.values(colors.applicationIds).filter(id => id && id !== targetId)
+  const domainConfig = buildDomainConfig(inputs) as Partial<Domain>
+  const change = await switchProductionDomain(client, targetId, otherIds, domainConfig)
+  report.domains.push({ host: productionHost, change })
+
+  const deploymentUrl = `${domainConfig.https ? 'https' : 'http'}://${productionHost}`
+  report.deploymentUrl = deploymentUrl
+  core.setOutput('deployment-url', deploymentUrl)
+  core.setOutput('active-color', colors.idle)
+  core.info(
+    `✅ ${idleName} is live${colors.live ? `; ${colorApplicationName(name, colors.live)} keeps running for switch-back` : ''}`
+  )
+  core.endGroup()
+}
+
+// ============================================================================
+// Canary Deployment
+// ============================================================================
+async function runCanaryDeployment(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline,
+  report: DeploymentReport
+): Promise<void> {
+  deadline.enter('resource resolution')
+  const scope = await resolveApplicationScope(client, inputs)
+
+  // Validation guarantees both for the canary strategy
+  const name = inputs.applicationName || ''
+  const stable = await findStableApplication(client, scope, name)
+  const stableId = stable.applicationId || stable.id || ''
+  const steps = inputs.canarySteps || DEFAULT_CANARY_STEPS
+  const maxErrorRate = inputs.canaryMaxErrorRate ?? 5
+  const canaryName = canaryApplicationName(name)
+  core.info(`🐤 Canary ${canaryName} next to ${name}, traffic steps: ${steps.join('% → ')}%`)
+
+  // The canary is only reachable through the weighted routing on the stable application
+  report.slot = 'canary'
+  await runApplicationDeployment(
+    client,
+    {
+      ...inputs,
+      applicationId: undefined,
+      applicationName: canaryName,
+      domainHost: undefined,
+      containerPrefix: undefined,
+      githubDeployment: false
+    },
+    deadline,
+    report,
+    scope
+  )
+
+  const domainConfig = buildDomainConfig(inputs) as Partial<Domain>
+  const productionUrl = `${domainConfig.https ? 'https' : 'http'}://${domainConfig.host}`
+  const canaryId = report.serviceId || ''
+  const routing = await resolveCanaryRouting(client, stableId, canaryId, domainConfig)
+  const restoreRouting = async (): Promise<void> => {
+    try {
+      await restoreStableRouting(client, routing)
+    } catch (error) {
+      core.error(
+        `❌ Could not restore the routing of ${name}: ${error instanceof Error ? error.message : String(error)}`
+      )
+      core.error(`Restore its Traefik config in Dokploy manually:\n${routing.originalConfig}`)
+    }
+  }
+  // Once the canary has taken all traffic, the stable application's own
+  // routing is only restored after it runs the new image too
+  let trafficPromoted = false
+  const stopRoutingHandler = onCancellation(async () => {
+    if (!trafficPromoted) await restoreRouting()
+  })
+
+  let groupOpen = false
+  try {
+    for (const percent of steps) {
+      core.startGroup(`🐤 Canary at ${percent}%`)
+      groupOpen = true
+      deadline.enter(`canary ${percent}%`)
+      await shiftCanaryTraffic(client, routing, percent)
+      await sleep(deadline.cap(inputs.canaryInterval ?? 60) * 1000)
+
+      const healthStatus = await performHealthCheck(
+        productionUrl,
+        { ...inputs, healthCheckTimeout: deadline.cap(inputs.healthCheckTimeout || 60) },
+        report.healthAttempts
+      )
+      report.healthStatus = healthStatus
+      if (healthStatus === 'unhealthy') {
+        throw new Error(`Canary health check failed at ${percent}% traffic`)
+      }
+
+      const probe = await probeErrorRate(productionUrl, inputs, CANARY_PROBE_REQUESTS)
+      if (probe.errorRate > maxErrorRate) {
+        throw new Error(
+          `Canary error rate ${probe.errorRate.toFixed(1)}% at ${percent}% traffic exceeds canary-max-error-rate (${maxErrorRate}%)`
+        )
+      }
+      core.endGroup()
+      groupOpen = false
+    }
+    trafficPromoted = true
+
+    // Roll the new image out to the stable application, then route to it alone again
+    core.info(`🚀 Canary passed every step, promoting ${name}`)
+    const promotion = createDeploymentReport(inputs)
+    await runApplicationDeployment(
+      client,
+      { ...inputs, applicationId: stableId },
+      deadline,
+      promotion,
+      scope
+    )
+    Object.assign(report, {
+      slot: undefined,
+      serviceId: stableId,
+      deploymentId: promotion.deploymentId,
+      imageBefore: promotion.imageBefore,
+      healthStatus: promotion.healthStatus || report.healthStatus
+    })
+    report.domains.push(...promotion.domains)
+  } catch (error) {
+    if (groupOpen) {
+      core.endGroup()
+    }
+    if (trafficPromoted) {
+      core.warning(
+        `⚠️ ${canaryName} keeps all ${domainConfig.host} traffic until ${name} is promoted by a later run`
+      )
+    } else {
+      await restoreRouting()
+    }
+    throw error
+  } finally {
+    stopRoutingHandler()
+  }
+
+  await restoreRouting()
+  report.deploymentUrl = productionUrl
+  report.resources.push(['Canary steps', `${steps.join('% → ')}%`])
+
+  // The canary gets no traffic anymore; the next canary deploy starts it again
+  try {
+    await client.stopApplication(canaryId)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not stop ${canaryName}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// ============================================================================
+// Recreate Deployment
+// ============================================================================
+async function runRecreateDeployment(
+  client: DokployClient,
+  inputs: ActionInputs,
+  deadline: ActionDeadline,
+  report: DeploymentReport
+): Promise<void> {
+  deadline.enter('resource resolution')
+  const scope = await resolveApplicationScope(client, inputs)
+  const existing = inputs.applicationId
+    ? undefined
+    : await findApplicationInScope(client, scope, inputs.applicationName || '')
+  const applicationId = inputs.applicationId || existing?.applicationId || existing?.id
+  if (!applicationId) {
+    core.info('ℹ️ No running application to stop, deploying it for the first time')
+    await runApplicationDeployment(client, inputs, deadline, report, scope)
+    return
+  }
+
+  const domainConfig = buildDomainConfig(inputs) as Partial<Domain> | undefined
+  let maintenance: MaintenanceWindow | undefined
+  if (inputs.maintenanceImage && domainConfig) {
+    core.startGroup('🚧 Maintenance Page')
+    deadline.enter('maintenance page')
+    maintenance = await startMaintenance(client, scope, inputs, applicationId, domainConfig)
+    core.endGroup()
+  }
+
+  core.info(`⏹️ Stopping ${inputs.applicationName || applicationId} before deploying`)
+  await client.stopApplication(applicationId)
+
+  // While the maintenance page is up the application only owns the health check path
+  const deployInputs = maintenance
+    ? { ...inputs, applicationId, domainPath: healthCheckRoute(domainConfig || {}, inputs).path }
+    : { ...inputs, applicationId }
+  try {
+    await runApplicationDeployment(client, deployInputs, deadline, report, scope)
+  } catch (error) {
+    if (maintenance && domainConfig) {
+      await closeMaintenanceAfterFailure(client, inputs, maintenance, domainConfig)
+    }
+    throw error
+  }
+
+  if (maintenance && domainConfig) {
+    if (report.healthStatus === 'unhealthy') {
+      core.warning(
+        `⚠️ ${domainConfig.host} keeps showing the maintenance page until ${inputs.applicationName || applicationId} is healthy`
+      )
+    } else {
+      await endMaintenance(client, maintenance, domainConfig)
+    }
+  }
+}
+
+/**
+ * After a failed deploy the application may be back on its previous image
+ * (rollback-on-failure); hand the host back only when it answers healthy
+ */
+async function closeMaintenanceAfterFailure(
+  client: DokployClient,
+  inputs: ActionInputs,
+  maintenance: MaintenanceWindow,
+  domainConfig: Partial<Domain>
+): Promise<void> {
+  const url = `${domainConfig.https ? 'https' : 'http'}://${domainConfig.host}`
+  try {
+    const healthStatus = await performHealthCheck(url, { ...inputs, healthCheckRetries: 3 })
+    if (healthStatus === 'healthy') {
+      await endMaintenance(client, maintenance, domainConfig)
+      return
+    }
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not check the application behind the maintenance page: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  core.warning(
+    `⚠️ ${domainConfig.host} keeps showing the maintenance page; deploy again once the application is fixed`
+  )
+}
+
+// ============================================================================
+// Job Summary
+// ============================================================================
+async function writeJobSummary(report: DeploymentReport, dokployUrl: string): Promise<void> {
+  try {
+    await writeDeploymentSummary(report, dokployUrl)
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+// ============================================================================
+// Deployment Logs
+// ============================================================================
+function finishLogStream(logStream: DeploymentLogStream): void {
+  logStream.flush()
+  if (logStream.filePath) {
+    core.setOutput('deployment-log-path', logStream.filePath)
+    core.info(`📄 Deployment log written to ${logStream.filePath}`)
+  }
+}
+
+// ============================================================================
+// Rollback
+// ============================================================================
+async function rollbackAfterFailure(
+  client: DokployClient,
+  inputs: ReturnType<typeof parseInputs>,
+  deadline: ActionDeadline,
+  snapshot: RollbackSnapshot | null,
+  log: DeploymentLog,
+  deploymentUrl?: string,
+  failedDeploymentId?: string
+): Promise<void> {
+  if (!inputs.rollbackOnFailure) {
+    return
+  }
+
+  if (!snapshot) {
+    log.warning('⚠️ No previous version recorded, skipping rollback')
+    log.setOutput('rollback-status', 'skipped')
+    return
+  }
+
+  if (deadline.expired()) {
+    log.warning('⚠️ action-timeout exhausted, skipping rollback')
+    log.setOutput('rollback-status', 'skipped')
+    return
+  }
+  deadline.enter('rollback')
+
+  const result = await performRollback(
+    client,
+    snapshot,
+    inputs,
+    deploymentUrl,
+    failedDeploymentId,
+    log
+  )
+  log.setOutput('rollback-status', result.status)
+  if (result.rolledBackTo) {
+    log.setOutput('rolled-back-to', result.rolledBackTo)
+  }
 }
 
 // Run the action if this is the main module
@@ -3,16 +3,33 @@
  */
 
 import * as core from '@actions/core'
-import type { ActionInputs } from './types/dokploy'
+import { applyConfigFile } from './manifest'
+import { parseApplications } from './applications'
+import { parseCanarySteps } from './canary'
+import { parseDomains } from './domains'
+import { ValidationError, formatValidationError } from './validators'
+import type { ActionInputs, ActionMode, DeploymentStrategy } from './types/dokploy'
 import {
   parseOptionalStringInput,
   parseIntInput,
+  parseFloatInput,
+  parseListInput,
   parseBooleanInput,
   parseCpuLimit,
   sanitizeSecret
 } from './utils/helpers'
 
 export function parseInputs(): ActionInputs {
+  // Values from config-file fill in every input that was not set explicitly
+  try {
+    applyConfigFile()
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      core.error(formatValidationError(error))
+    }
+    throw error
+  }
+
   // Core configuration with enhanced validation
   const dokployUrl = core.getInput('dokploy-url', { required: false })
   const apiKey = core.getInput('api-key', { required: false })
@@ -66,8 +83,16 @@ export function parseInputs(): ActionInputs {
     throw new Error('Required input api-key is missing or empty')
   }
 
-  // Docker image is required only for application deployments
-  if (deploymentType === 'application' && (!dockerImage || dockerImage.trim() === '')) {
+  // Docker image is required only for application deployments; with applications
+  // each entry may bring its own, and the read-only/teardown modes need none
+  const mode = parseOptionalStringInput('mode') || 'deploy'
+  const applications = parseApplications(parseOptionalStringInput('applications'))
+  const needsImage = !applications && !['status', 'destroy', 'destroy-preview'].includes(mode)
+  if (
+    deploymentType === 'application' &&
+    needsImage &&
+    (!dockerImage || dockerImage.trim() === '')
+  ) {
     core.error('❌ Missing required input: docker-image')
     core.error('')
     core.error('The docker-image input is required for application deployments.')
@@ -165,11 +190,20 @@ export function parseInputs(): ActionInputs {
     throw new Error('Docker advanced settings (volumes, group-add) require compose deployment type')
   }
 
+  // cleanup-old-containers never removed anything, it is kept as an alias
+  const cleanupOldContainers = parseBooleanInput(parseOptionalStringInput('cleanup-old-containers'))
+  if (cleanupOldContainers) {
+    core.warning(
+      '⚠️ cleanup-old-containers is deprecated, use report-old-containers: old containers are listed, not removed'
+    )
+  }
+
   return {
     // Core
     dokployUrl,
     apiKey,
     dockerImage,
+    mode: mode as ActionMode,
 
     // Deployment Type
     deploymentType: deploymentType as 'application' | 'compose',
@@ -212,6 +246,38 @@ export function parseInputs(): ActionInputs {
     port: parseIntInput(parseOptionalStringInput('port'), 'port'),
     targetPort: parseIntInput(parseOptionalStringInput('target-port'), 'target-port'),
     restartPolicy: parseOptionalStringInput('restart-policy'),
+    restartDelay: parseIntInput(parseOptionalStringInput('restart-delay'), 'restart-delay'),
+    restartMaxAttempts: parseIntInput(
+      parseOptionalStringInput('restart-max-attempts'),
+      'restart-max-attempts'
+    ),
+    restartWindow: parseIntInput(parseOptionalStringInput('restart-window'), 'restart-window'),
+
+    // Swarm container health check and placement
+    containerHealthCheck: parseOptionalStringInput('container-health-check'),
+    containerHealthCheckInterval: parseIntInput(
+      parseOptionalStringInput('container-health-check-interval'),
+      'container-health-check-interval'
+    ),
+    containerHealthCheckTimeout: parseIntInput(
+      parseOptionalStringInput('container-health-check-timeout'),
+      'container-health-check-timeout'
+    ),
+    containerHealthCheckStartPeriod: parseIntInput(
+      parseOptionalStringInput('container-health-check-start-period'),
+      'container-health-check-start-period'
+    ),
+    containerHealthCheckRetries: parseIntInput(
+      parseOptionalStringInput('container-health-check-retries'),
+      'container-health-check-retries'
+    ),
+    placementConstraints: parseListInput(parseOptionalStringInput('placement-constraints')),
+    placementPreferences: parseListInput(parseOptionalStringInput('placement-preferences')),
+    placementMaxReplicas: parseIntInput(
+      parseOptionalStringInput('placement-max-replicas'),
+      'placement-max-replicas'
+    ),
+    placementPlatforms: parseListInput(parseOptionalStringInput('placement-platforms')),
 
     // Docker Advanced
     volumes,
@@ -220,6 +286,20 @@ export function parseInputs(): ActionInputs {
     // Scaling
     replicas: parseIntInput(parseOptionalStringInput('replicas'), 'replicas'),
 
+    // Swarm rolling updates
+    updateParallelism: parseIntInput(
+      parseOptionalStringInput('update-parallelism'),
+      'update-parallelism'
+    ),
+    updateDelay: parseIntInput(parseOptionalStringInput('update-delay'), 'update-delay'),
+    updateFailureAction: parseOptionalStringInput('update-failure-action'),
+    updateMonitor: parseIntInput(parseOptionalStringInput('update-monitor'), 'update-monitor'),
+    updateMaxFailureRatio: parseFloatInput(
+      parseOptionalStringInput('update-max-failure-ratio'),
+      'update-max-failure-ratio'
+    ),
+    updateOrder: parseOptionalStringInput('update-order'),
+
     // Registry
     registryUrl: parseOptionalStringInput('registry-url') || 'ghcr.io',
     registryUsername: parseOptionalStringInput('registry-username'),
@@ -229,6 +309,10 @@ export function parseInputs(): ActionInputs {
     env: parseOptionalStringInput('env'),
     envFile: parseOptionalStringInput('env-file'),
     envFromJson: parseOptionalStringInput('env-from-json'),
+    envMergeMode: (parseOptionalStringInput('env-merge-mode') || 'replace') as
+      | 'replace'
+      | 'merge-with-existing'
+      | 'strict',
 
     // Domain & SSL
     domainHost: parseOptionalStringInput('domain-host'),
@@ -241,14 +325,39 @@ export function parseInputs(): ActionInputs {
     sslCertificateType: parseOptionalStringInput('ssl-certificate-type'),
     domainStripPath: parseBooleanInput(parseOptionalStringInput('domain-strip-path')),
     forceDomainRecreation: parseBooleanInput(parseOptionalStringInput('force-domain-recreation')),
+    domains: parseDomains(parseOptionalStringInput('domains')),
+    pruneDomains: parseBooleanInput(parseOptionalStringInput('prune-domains')) ?? false,
 
     // Deployment
     deploymentTitle: parseOptionalStringInput('deployment-title'),
     deploymentDescription: parseOptionalStringInput('deployment-description'),
     rollbackActive: parseBooleanInput(parseOptionalStringInput('rollback-active')),
+    rollbackOnFailure: parseBooleanInput(parseOptionalStringInput('rollback-on-failure')) ?? true,
+    cancelOnTimeout: parseBooleanInput(parseOptionalStringInput('cancel-on-timeout')) ?? true,
+    cleanQueues: parseBooleanInput(parseOptionalStringInput('clean-queues')) ?? false,
     waitForDeployment: parseBooleanInput(parseOptionalStringInput('wait-for-completion')) ?? true,
     deploymentTimeout: parseIntInput(parseOptionalStringInput('timeout'), 'timeout'),
-    cleanupOldContainers: parseBooleanInput(parseOptionalStringInput('cleanup-old-containers')),
+    deploymentLogFile: parseOptionalStringInput('deployment-log-file'),
+    reportOldContainers:
+      parseBooleanInput(parseOptionalStringInput('report-old-containers')) || cleanupOldContainers,
+    containerPrefix: parseOptionalStringInput('container-prefix'),
+    keepContainerCount: parseIntInput(
+      parseOptionalStringInput('keep-container-count'),
+      'keep-container-count'
+    ),
+
+    // Deployment strategy
+    deploymentStrategy: (parseOptionalStringInput('deployment-strategy') ||
+      'rolling') as DeploymentStrategy,
+    blueGreenDomainTemplate: parseOptionalStringInput('blue-green-domain-template'),
+    canarySteps: parseCanarySteps(parseOptionalStringInput('canary-steps')),
+    canaryInterval: parseIntInput(parseOptionalStringInput('canary-interval'), 'canary-interval'),
+    canaryMaxErrorRate: parseFloatInput(
+      parseOptionalStringInput('canary-max-error-rate'),
+      'canary-max-error-rate'
+    ),
+    maintenanceImage: parseOptionalStringInput('maintenance-image'),
+    maintenancePort: parseIntInput(parseOptionalStringInput('maintenance-port'), 'maintenance-port'),
 
     // Health Check
     healthCheckEnabled: parseBooleanInput(parseOptionalStringInput('health-check-enabled')) ?? true,
@@ -265,9 +374,48 @@ export function parseInputs(): ActionInputs {
       parseOptionalStringInput('health-check-interval'),
       'health-check-interval'
     ),
+    expectedStatusCode: parseOptionalStringInput('expected-status-code'),
+    healthCheckBodyMatch: parseOptionalStringInput('health-check-body-match'),
+    healthCheckJsonPath: parseOptionalStringInput('health-check-json-path'),
     failOnHealthCheckError:
       parseBooleanInput(parseOptionalStringInput('fail-on-health-check-error')) ?? true,
 
+    // API client
+    apiRetries: parseIntInput(parseOptionalStringInput('api-retries'), 'api-retries'),
+    apiRetryDelay: parseIntInput(parseOptionalStringInput('api-retry-delay'), 'api-retry-delay'),
+    requestTimeout: parseIntInput(parseOptionalStringInput('request-timeout'), 'request-timeout'),
+    actionTimeout: parseIntInput(parseOptionalStringInput('action-timeout'), 'action-timeout'),
+
+    // GitHub integration
+    githubToken: parseOptionalStringInput('github-token'),
+    githubDeployment: parseBooleanInput(parseOptionalStringInput('github-deployment')) ?? true,
+    githubEnvironment: parseOptionalStringInput('github-environment'),
+    prComment: parseBooleanInput(parseOptionalStringInput('pr-comment')) ?? true,
+
+    // Preview environments
+    previewDomainTemplate: parseOptionalStringInput('preview-domain-template'),
+    previewPrNumber: parseIntInput(parseOptionalStringInput('preview-pr-number'), 'preview-pr-number'),
+
+    // Multiple applications
+    applications,
+    applicationsConcurrency: parseIntInput(
+      parseOptionalStringInput('applications-concurrency'),
+      'applications-concurrency'
+    ),
+    continueOnAppFailure:
+      parseBooleanInput(parseOptionalStringInput('continue-on-app-failure')) ?? false,
+
+    // Status
+    historyCount: parseIntInput(parseOptionalStringInput('history-count'), 'history-count'),
+
+    // Destroy
+    confirmDestroy: parseOptionalStringInput('confirm-destroy'),
+    destroyEmptyEnvironment:
+      parseBooleanInput(parseOptionalStringInput('destroy-empty-environment')) ?? false,
+    destroyEmptyProject:
+      parseBooleanInput(parseOptionalStringInput('destroy-empty-project')) ?? false,
+    deleteVolumes: parseBooleanInput(parseOptionalStringInput('delete-volumes')) ?? false,
+
     // Debug
     debugMode: parseBooleanInput(parseOptionalStringInput('debug-mode')),
     logApiRequests: parseBooleanInput(parseOptionalStringInput('log-api-requests')),
@@ -0,0 +1,46 @@
+/**
+ * Log groups and outputs of a deployment
+ *
+ * A single deployment writes straight to the action's log and outputs.
+ * Applications deployed side by side (applications input) cannot: log groups
+ * do not nest, so one application would close another's group, and outputs
+ * belong to the whole step, so the last application to finish would win.
+ * Each of them logs with its name as prefix instead, and its outputs are
+ * reported through applications-json.
+ */
+
+import * as core from '@actions/core'
+
+export interface DeploymentLog {
+  info(message: string): void
+  warning(message: string): void
+  error(message: string): void
+  startGroup(name: string): void
+  endGroup(): void
+  setOutput(name: string, value: string): void
+}
+
+export const actionLog: DeploymentLog = {
+  info: message => core.info(message),
+  warning: message => core.warning(message),
+  error: message => core.error(message),
+  startGroup: name => core.startGroup(name),
+  endGroup: () => core.endGroup(),
+  setOutput: (name, value) => core.setOutput(name, value)
+}
+
+/**
+ * Log of one of several applications: lines are prefixed with its name,
+ * groups become plain headings and outputs are left to the caller
+ */
+export function applicationLog(name: string): DeploymentLog {
+  const prefix = `[${name}]`
+  return {
+    info: message => core.info(`${prefix} ${message}`),
+    warning: message => core.warning(`${prefix} ${message}`),
+    error: message => core.error(`${prefix} ${message}`),
+    startGroup: title => core.info(`${prefix} ${title}`),
+    endGroup: () => undefined,
+    setOutput: () => undefined
+  }
+}
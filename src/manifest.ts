@@ -0,0 +1,266 @@
+/**
+ * Declarative config file (config-file)
+ *
+ * A YAML or JSON manifest uses the action's input names as keys, with an
+ * optional `environments:` map of per-environment overrides selected by
+ * environment-name. Manifest values are fed into the regular input parsing,
+ * so they go through exactly the same conversion and validation.
+ *
+ * Precedence: explicit action inputs > environment overrides > top-level
+ * manifest values > action.yml defaults. GitHub does not tell an explicit
+ * input apart from its default, so an input counts as explicit when its
+ * value differs from the default declared in action.yml. An input set in the
+ * workflow to exactly its default (e.g. `replicas: 1`) therefore loses to the
+ * file; each such override is logged.
+ */
+
+import * as core from '@actions/core'
+import * as fs from 'fs'
+import * as path from 'path'
+import * as yaml from 'js-yaml'
+import { ValidationError, formatValidationError } from './validators'
+
+type ManifestValues = Record<string, string>
+
+export interface Manifest {
+  values: ManifestValues
+  environments: Record<string, ManifestValues>
+}
+
+// Secrets belong in GitHub secrets, never in a committed file
+const SECRET_INPUTS = ['api-key', 'registry-password', 'github-token']
+
+// Inputs that accept a mapping in the manifest
+const MAPPING_INPUTS: Record<string, (value: Record<string, unknown>) => string> = {
+  env: value =>
+    Object.entries(value)
+      .map(([key, entry]) => `${key}=${String(entry ?? '')}`)
+      .join('\n'),
+  'env-from-json': value => JSON.stringify(value)
+}
+
+// Inputs that take a YAML document, e.g. a list of entries
+const STRUCTURED_INPUTS = ['applications', 'domains']
+
+/**
+ * Input names and defaults declared in action.yml
+ */
+export function loadInputDefaults(
+  actionFile = path.resolve(__dirname, '..', 'action.yml')
+): Record<string, string> {
+  const action = yaml.load(fs.readFileSync(actionFile, 'utf-8')) as {
+    inputs?: Record<string, { default?: unknown }>
+  }
+  return Object.fromEntries(
+    Object.entries(action.inputs || {}).map(([name, input]) => [
+      name,
+      input.default === undefined ? '' : String(input.default)
+    ])
+  )
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toInputValue(name: string, value: unknown, field: string): string {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return String(value)
+  }
+  if (Array.isArray(value) && value.every(entry => !isMapping(entry) && !Array.isArray(entry))) {
+    return value.map(entry => String(entry)).join('\n')
+  }
+  if (isMapping(value) && MAPPING_INPUTS[name]) {
+    return MAPPING_INPUTS[name](value)
+  }
+  if (STRUCTURED_INPUTS.includes(name)) {
+    // JSON is valid YAML, which these inputs are parsed as
+    return JSON.stringify(value)
+  }
+  throw new ValidationError(
+    `${field} must be a string, number, boolean or list`,
+    field,
+    value,
+    `Set ${name} to a plain value or a list of values`
+  )
+}
+
+function parseSection(
+  section: Record<string, unknown>,
+  prefix: string,
+  knownInputs: Set<string>,
+  errors: ValidationError[]
+): ManifestValues {
+  const values: ManifestValues = {}
+  for (const [name, value] of Object.entries(section)) {
+    const field = `${prefix}${name}`
+    if (value === null || value === undefined) {
+      continue
+    }
+    if (SECRET_INPUTS.includes(name)) {
+      errors.push(
+        new ValidationError(
+          `${field} must not be set in config-file`,
+          field,
+          '(redacted)',
+          `Pass ${name} as an action input from a GitHub secret`
+        )
+      )
+      continue
+    }
+    if (!knownInputs.has(name)) {
+      errors.push(
+        new ValidationError(
+          `${field} is not a known input`,
+          field,
+          value,
+          'Use the input names from action.yml, e.g. memory-limit or health-check-path'
+        )
+      )
+      continue
+    }
+    try {
+      values[name] = toInputValue(name, value, field)
+    } catch (error) {
+      if (error instanceof ValidationError) errors.push(error)
+    }
+  }
+  return values
+}
+
+/**
+ * Parse and validate a manifest; `knownInputs` are the input names from action.yml
+ */
+export function parseManifest(content: string, knownInputs: Set<string>): Manifest {
+  let document: unknown
+  try {
+    document = yaml.load(content)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    throw new ValidationError(
+      `config-file is not valid YAML or JSON: ${message}`,
+      'config-file',
+      ''
+    )
+  }
+  if (document === undefined || document === null) {
+    return { values: {}, environments: {} }
+  }
+  if (!isMapping(document)) {
+    throw new ValidationError(
+      'config-file must contain a mapping of input names to values',
+      'config-file',
+      document
+    )
+  }
+
+  const errors: ValidationError[] = []
+  const { environments, ...rest } = document
+  const values = parseSection(rest, '', knownInputs, errors)
+
+  const overrides: Record<string, ManifestValues> = {}
+  if (environments !== undefined && !isMapping(environments)) {
+    errors.push(
+      new ValidationError(
+        'environments must map environment names to input overrides',
+        'environments',
+        environments,
+        'Example: environments: { staging: { replicas: 1 } }'
+      )
+    )
+  } else {
+    for (const [name, section] of Object.entries(environments || {})) {
+      if (!isMapping(section)) {
+        errors.push(
+          new ValidationError(
+            `environments.${name} must be a mapping of input overrides`,
+            `environments.${name}`,
+            section
+          )
+        )
+        continue
+      }
+      overrides[name] = parseSection(section, `environments.${name}.`, knownInputs, errors)
+    }
+  }
+
+  if (errors.length > 0) {
+    errors.forEach(error => core.error(formatValidationError(error)))
+    throw new Error(
+      `config-file has ${errors.length} validation error${errors.length > 1 ? 's' : ''}. See details above.`
+    )
+  }
+
+  return { values, environments: overrides }
+}
+
+/**
+ * Merge top-level values with the overrides of the selected environment
+ */
+export function resolveManifest(manifest: Manifest, environmentName?: string): ManifestValues {
+  const overrides = environmentName ? manifest.environments[environmentName] : undefined
+  return { ...manifest.values, ...overrides }
+}
+
+function inputEnvName(name: string): string {
+  return `INPUT_${name.replace(/ /g, '_').toUpperCase()}`
+}
+
+/**
+ * Load config-file, if set, and provide its values for every input that was
+ * not set explicitly. Returns the names of the inputs taken from the file.
+ */
+export function applyConfigFile(): string[] {
+  const configFile = core.getInput('config-file').trim()
+  if (!configFile) {
+    return []
+  }
+
+  const workspace = process.env.GITHUB_WORKSPACE || process.cwd()
+  const filePath = path.resolve(workspace, configFile)
+  if (!fs.existsSync(filePath)) {
+    throw new ValidationError(
+      `config-file not found: ${configFile}`,
+      'config-file',
+      configFile,
+      'Check out the repository before this step, or fix the path (relative to the workspace)'
+    )
+  }
+
+  const defaults = loadInputDefaults()
+  const knownInputs = new Set(Object.keys(defaults))
+  knownInputs.delete('config-file')
+  const manifest = parseManifest(fs.readFileSync(filePath, 'utf-8'), knownInputs)
+
+  const isExplicit = (name: string): boolean => {
+    const value = core.getInput(name)
+    return value !== '' && value !== defaults[name]
+  }
+
+  const environmentName = isExplicit('environment-name')
+    ? core.getInput('environment-name')
+    : manifest.values['environment-name'] || defaults['environment-name']
+  const values = resolveManifest(manifest, environmentName)
+
+  const applied = Object.keys(values).filter(name => !isExplicit(name))
+  applied.forEach(name => {
+    const current = core.getInput(name)
+    if (current !== '' && current !== values[name]) {
+      core.info(
+        `ℹ️ ${name}: using ${values[name]} from ${configFile} instead of the action.yml default ${current}`
+      )
+    }
+    process.env[inputEnvName(name)] = values[name]
+  })
+
+  const environments = Object.keys(manifest.environments)
+  core.info(
+    `📄 Loaded ${applied.length} setting${applied.length === 1 ? '' : 's'} from ${configFile}` +
+      (environments.includes(environmentName)
+        ? ` (with ${environmentName} overrides)`
+        : environments.length > 0
+          ? ` (no overrides for ${environmentName})`
+          : '')
+  )
+  return applied
+}
@@ -0,0 +1,89 @@
+/**
+ * Old container report (report-old-containers)
+ *
+ * Runs after a healthy deployment and lists stopped containers left behind
+ * by previous deployments, beyond the newest ones kept for inspection.
+ * Dokploy's API has no endpoint to remove a single container (the docker
+ * router only lists and restarts them, settings.cleanStoppedContainers prunes
+ * every stopped container on the server), so they are reported, not removed.
+ */
+
+import * as core from '@actions/core'
+import type { DokployClient } from './client/dokploy-client'
+import type { Container } from './types/dokploy'
+
+export interface OldContainerOptions {
+  appName: string
+  serverId?: string
+  appType?: 'stack' | 'docker-compose'
+  containerPrefix?: string
+  keepCount?: number
+}
+
+export interface OldContainerReport {
+  found: number
+  kept: number
+  stale: string[]
+}
+
+function containerTimestamp(container: Container): number {
+  const value = container.createdAt || container.created
+  if (!value) {
+    return NaN
+  }
+  // Docker reports `Created` as unix seconds, Dokploy timestamps are ISO strings
+  return /^\d+$/.test(value) ? parseInt(value, 10) * 1000 : new Date(value).getTime()
+}
+
+/**
+ * Pick the stale containers: matching the prefix, not running, and older
+ * than the newest `keepCount`. Containers without timestamps keep the order
+ * returned by Docker (newest first).
+ */
+export function selectStaleContainers(
+  containers: Container[],
+  prefix: string,
+  keepCount: number
+): Container[] {
+  const candidates = containers
+    .map((container, index) => ({ container, index }))
+    .filter(({ container }) => container.name.replace(/^\//, '').startsWith(prefix))
+    .filter(({ container }) => container.state !== 'running')
+    .sort((a, b) => {
+      const timeA = containerTimestamp(a.container)
+      const timeB = containerTimestamp(b.container)
+      if (!isNaN(timeA) && !isNaN(timeB) && timeA !== timeB) {
+        return timeB - timeA // Descending order (latest first)
+      }
+      return a.index - b.index
+    })
+    .map(({ container }) => container)
+
+  return candidates.slice(Math.max(0, keepCount))
+}
+
+export async function reportOldContainers(
+  client: DokployClient,
+  options: OldContainerOptions
+): Promise<OldContainerReport> {
+  const prefix = options.containerPrefix || options.appName
+  const keepCount = options.keepCount ?? 1
+
+  core.info(`🔍 Looking for containers matching: ${prefix}`)
+  const containers = await client.getContainers(options.appName, options.serverId, options.appType)
+  const matching = containers.filter(c => c.name.replace(/^\//, '').startsWith(prefix))
+  const stale = selectStaleContainers(containers, prefix, keepCount).map(c => c.name)
+
+  core.info(`   Found ${matching.length} container(s), keeping newest ${keepCount} stopped`)
+
+  if (stale.length === 0) {
+    core.info('ℹ️ No old stopped containers')
+  } else {
+    core.warning(
+      `⚠️ ${stale.length} old stopped container(s) left in place, Dokploy's API cannot remove containers: ${stale.join(', ')}. ` +
+        'Remove them on the server with `docker container prune` or "Clean stopped containers" in Dokploy\'s settings.'
+    )
+  }
+
+  return { found: matching.length, kept: matching.length - stale.length, stale }
+}
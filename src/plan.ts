@@ -0,0 +1,512 @@
+/**
+ * Plan mode
+ *
+ * Resolves Dokploy resources read-only and diffs the desired state against
+ * what is currently deployed, without mutating anything.
+ */
+
+import * as core from '@actions/core'
+import type { DokployClient } from './client/dokploy-client'
+import type { ActionInputs, Application, Domain, Environment, Project } from './types/dokploy'
+import {
+  buildApplicationConfig,
+  buildDomainConfig,
+  loadComposeContent,
+  parseEnvironmentVariables
+} from './config'
+import { parseDotenv } from './env-file'
+import {
+  DOMAIN_ATTRIBUTES,
+  buildDomainConfigs,
+  domainLabel,
+  findDomain,
+  unlistedDomains
+} from './domains'
+import {
+  buildHealthCheckSwarm,
+  buildPlacementSwarm,
+  buildRestartPolicySwarm,
+  buildUpdateConfigSwarm,
+  formatHealthCheck,
+  formatPlacement,
+  formatRestartPolicy,
+  formatUpdateConfig
+} from './swarm'
+
+export type PlanAction = 'create' | 'update' | 'delete' | 'no-op'
+
+export interface PlanAttributeChange {
+  attribute: string
+  before?: string
+  after?: string
+}
+
+export interface PlanChange {
+  resource: 'project' | 'environment' | 'application' | 'compose' | 'env' | 'domain' | 'mount'
+  name: string
+  action: PlanAction
+  changes: PlanAttributeChange[]
+}
+
+export interface DeploymentPlan {
+  deploymentType: 'application' | 'compose'
+  changes: PlanChange[]
+  summary: Record<PlanAction, number>
+}
+
+const SENSITIVE = '(sensitive)'
+
+function stringify(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  return String(value)
+}
+
+function diffAttribute(
+  changes: PlanAttributeChange[],
+  attribute: string,
+  before: unknown,
+  after: unknown
+): void {
+  const beforeValue = stringify(before)
+  const afterValue = stringify(after)
+  if (afterValue !== undefined && beforeValue !== afterValue) {
+    changes.push({ attribute, before: beforeValue, after: afterValue })
+  }
+}
+
+/**
+ * Swarm settings are compared in the one-line form the job summary shows
+ */
+function diffSwarmSettings(
+  changes: PlanAttributeChange[],
+  inputs: ActionInputs,
+  application: Application | undefined
+): void {
+  const restartPolicy = buildRestartPolicySwarm(inputs)
+  if (restartPolicy) {
+    const current = application?.restartPolicySwarm
+    diffAttribute(
+      changes,
+      'restartPolicySwarm',
+      current ? formatRestartPolicy(current) : undefined,
+      formatRestartPolicy(restartPolicy)
+    )
+  }
+  const healthCheck = buildHealthCheckSwarm(inputs)
+  if (healthCheck) {
+    const current = application?.healthCheckSwarm
+    diffAttribute(
+      changes,
+      'healthCheckSwarm',
+      current ? formatHealthCheck(current) : undefined,
+      formatHealthCheck(healthCheck)
+    )
+  }
+  const placement = buildPlacementSwarm(inputs)
+  if (placement) {
+    const current = application?.placementSwarm
+    diffAttribute(
+      changes,
+      'placementSwarm',
+      current ? formatPlacement(current) : undefined,
+      formatPlacement(placement)
+    )
+  }
+  const updateConfig = buildUpdateConfigSwarm(inputs)
+  if (updateConfig) {
+    const current = application?.updateConfigSwarm
+    diffAttribute(
+      changes,
+      'updateConfigSwarm',
+      current ? formatUpdateConfig(current) : undefined,
+      formatUpdateConfig(updateConfig)
+    )
+  }
+}
+
+function toChange(
+  resource: PlanChange['resource'],
+  name: string,
+  exists: boolean,
+  changes: PlanAttributeChange[] = []
+): PlanChange {
+  let action: PlanAction = 'no-op'
+  if (!exists) {
+    action = 'create'
+  } else if (changes.length > 0) {
+    action = 'update'
+  }
+  return { resource, name, action, changes }
+}
+
+function summarize(
+  deploymentType: DeploymentPlan['deploymentType'],
+  changes: PlanChange[]
+): DeploymentPlan {
+  const summary: Record<PlanAction, number> = { create: 0, update: 0, delete: 0, 'no-op': 0 }
+  changes.forEach(change => summary[change.action]++)
+  return { deploymentType, changes, summary }
+}
+
+/**
+ * Resolve project and environment without creating them
+ */
+async function resolveProjectAndEnvironment(
+  client: DokployClient,
+  inputs: ActionInputs,
+  changes: PlanChange[]
+): Promise<{ project?: Project; environment?: Environment }> {
+  let project: Project | undefined
+  if (inputs.projectId) {
+    project = await client.getProject(inputs.projectId)
+  } else if (inputs.projectName) {
+    const existing = await client.findProjectByName(inputs.projectName)
+    // project.all may omit nested resources, fetch the full project
+    project = existing
+      ? await client.getProject(existing.projectId || existing.id || '')
+      : undefined
+  } else {
+    throw new Error('Either project-id or project-name must be provided')
+  }
+
+  if (!project && !inputs.autoCreateResources) {
+    throw new Error(`Project "${inputs.projectName}" not found and auto-create is disabled`)
+  }
+  changes.push(toChange('project', project?.name || inputs.projectName || '', !!project))
+
+  const environment = project?.environments?.find(env =>
+    inputs.environmentId
+      ? (env.environmentId || env.id) === inputs.environmentId
+      : env.name === inputs.environmentName
+  )
+
+  if (!environment && !inputs.autoCreateResources) {
+    throw new Error(`Environment "${inputs.environmentName}" not found and auto-create is disabled`)
+  }
+  changes.push(
+    toChange('environment', environment?.name || inputs.environmentName || '', !!environment)
+  )
+
+  return { project, environment }
+}
+
+/**
+ * Diff environment variable keys. Values are never included in the plan.
+ */
+function planEnvironment(
+  inputs: ActionInputs,
+  existingEnv: Record<string, string> | string | undefined,
+  exists: boolean
+): PlanChange | null {
+  const desiredEnv = parseEnvironmentVariables(inputs, existingEnv)
+  if (!desiredEnv) {
+    return null
+  }
+
+  const before =
+    typeof existingEnv === 'string'
+      ? parseDotenv(existingEnv, 'existing environment', { strict: false })
+      : existingEnv || {}
+  const after = parseDotenv(desiredEnv, 'desired environment', { strict: false })
+  const changes: PlanAttributeChange[] = []
+
+  Object.keys(after).forEach(key => {
+    if (!(key in before)) {
+      changes.push({ attribute: key, after: SENSITIVE })
+    } else if (before[key] !== after[key]) {
+      changes.push({ attribute: key, before: SENSITIVE, after: SENSITIVE })
+    }
+  })
+  Object.keys(before).forEach(key => {
+    if (!(key in after)) {
+      changes.push({ attribute: key, before: SENSITIVE })
+    }
+  })
+
+  return toChange('env', 'environment variables', exists, changes)
+}
+
+/**
+ * Diff the domains input against the existing domains, as deploy reconciles them
+ */
+function planDomainList(
+  inputs: ActionInputs,
+  desired: Partial<Domain>[],
+  existingDomains: Domain[]
+): PlanChange[] {
+  const changes = desired.map(domain => {
+    const match = findDomain(existingDomains, domain)
+    const attributes: PlanAttributeChange[] = []
+    if (match) {
+      DOMAIN_ATTRIBUTES.forEach(attribute =>
+        diffAttribute(
+          attributes,
+          attribute,
+          attribute === 'stripPath' ? (match.stripPath ?? false) : match[attribute],
+          domain[attribute]
+        )
+      )
+    }
+    return toChange('domain', domainLabel(domain), !!match, attributes)
+  })
+
+  if (inputs.pruneDomains) {
+    unlistedDomains(existingDomains, desired).forEach(domain =>
+      changes.push({ ...toChange('domain', domainLabel(domain), true), action: 'delete' })
+    )
+  }
+  return changes
+}
+
+/**
+ * Diff the desired domains against the existing ones: domain-host is matched
+ * on host, port and path as deploy does, the domains input on host and path
+ */
+function planApplicationDomains(inputs: ActionInputs, existingDomains: Domain[]): PlanChange[] {
+  if (inputs.domains) {
+    return planDomainList(inputs, buildDomainConfigs(inputs), existingDomains)
+  }
+
+  const desired = buildDomainConfig(inputs)
+  if (!desired) {
+    return []
+  }
+
+  const name = `${desired.host}${desired.path}`
+  const matches = existingDomains.filter(
+    d => d.host === desired.host && d.port === desired.port && d.path === desired.path
+  )
+
+  if (matches.length === 0) {
+    return [toChange('domain', name, false)]
+  }
+
+  const changes: PlanAttributeChange[] = []
+  diffAttribute(changes, 'https', matches[0].https, desired.https)
+  diffAttribute(changes, 'certificateType', matches[0].certificateType, desired.certificateType)
+  diffAttribute(changes, 'stripPath', matches[0].stripPath ?? false, desired.stripPath)
+  if (inputs.forceDomainRecreation) {
+    changes.push({ attribute: 'recreate', after: 'forced' })
+  }
+
+  // Deploy keeps only one domain per host/port/path, duplicates are removed
+  const duplicates = matches.slice(1).map(d => ({
+    ...toChange('domain', `${name} (${d.domainId || d.id})`, true),
+    action: 'delete' as PlanAction
+  }))
+
+  return [toChange('domain', name, true, changes), ...duplicates]
+}
+
+/**
+ * Diff requested volumes against existing bind mounts
+ */
+function planMounts(inputs: ActionInputs, application?: Application): PlanChange[] {
+  if (!inputs.volumes) {
+    return []
+  }
+
+  const existing = application?.mounts || []
+  return inputs.volumes
+    .split('\n')
+    .map(v => v.trim())
+    .filter(v => v.length > 0)
+    .map(vol => vol.split(':'))
+    .filter(parts => parts.length >= 2)
+    .map(([hostPath, mountPath]) =>
+      toChange(
+        'mount',
+        `${hostPath}:${mountPath}`,
+        existing.some(m => m.hostPath === hostPath && m.mountPath === mountPath)
+      )
+    )
+}
+
+export async function buildApplicationPlan(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<DeploymentPlan> {
+  const changes: PlanChange[] = []
+  const { project, environment } = await resolveProjectAndEnvironment(client, inputs, changes)
+  const serverId = await client.resolveServerId(inputs.serverId, inputs.serverName)
+
+  let application: Application | undefined
+  if (inputs.applicationId) {
+    application = await client.getApplication(inputs.applicationId)
+  } else if (inputs.applicationName) {
+    const existing = environment?.applications?.find(app => app.name === inputs.applicationName)
+    if (existing) {
+      application = await client.getApplication(existing.applicationId || existing.id || '')
+    }
+  } else {
+    throw new Error('Either application-id or application-name must be provided')
+  }
+
+  if (!application && !inputs.autoCreateResources) {
+    throw new Error(`Application "${inputs.applicationName}" not found and auto-create is disabled`)
+  }
+
+  const name = application?.name || inputs.applicationName || ''
+  const desired = buildApplicationConfig(
+    name,
+    project?.projectId || project?.id || '',
+    environment?.environmentId || environment?.id || '',
+    serverId,
+    inputs
+  )
+
+  const attributes: PlanAttributeChange[] = []
+  diffAttribute(attributes, 'dockerImage', application?.dockerImage, inputs.dockerImage)
+  // Only resource settings supplied as inputs are sent to Dokploy
+  if (inputs.memoryLimit !== undefined) {
+    diffAttribute(attributes, 'memoryLimit', application?.memoryLimit, desired.memoryLimit)
+  }
+  if (inputs.memoryReservation !== undefined) {
+    diffAttribute(
+      attributes,
+      'memoryReservation',
+      application?.memoryReservation,
+      desired.memoryReservation
+    )
+  }
+  if (inputs.cpuLimit !== undefined) {
+    diffAttribute(attributes, 'cpuLimit', application?.cpuLimit, desired.cpuLimit)
+  }
+  if (inputs.cpuReservation !== undefined) {
+    diffAttribute(attributes, 'cpuReservation', application?.cpuReservation, desired.cpuReservation)
+  }
+  if (inputs.replicas !== undefined) {
+    diffAttribute(attributes, 'replicas', application?.replicas, desired.replicas)
+  }
+  diffSwarmSettings(attributes, inputs, application)
+  changes.push(toChange('application', name, !!application, attributes))
+
+  const envChange = planEnvironment(inputs, application?.env, !!application)
+  if (envChange) {
+    changes.push(envChange)
+  }
+
+  changes.push(...planApplicationDomains(inputs, application?.domains || []))
+  changes.push(...planMounts(inputs, application))
+
+  return summarize('application', changes)
+}
+
+export async function buildComposePlan(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<DeploymentPlan> {
+  const changes: PlanChange[] = []
+  const { environment } = await resolveProjectAndEnvironment(client, inputs, changes)
+  if (inputs.serverId || inputs.serverName) {
+    await client.resolveServerId(inputs.serverId, inputs.serverName)
+  }
+
+  const composeName = inputs.composeName || inputs.applicationName || 'compose-service'
+  const environmentId = environment?.environmentId || environment?.id
+  const existing = environmentId
+    ? await client.findComposeByName(environmentId, composeName)
+    : undefined
+  const compose = existing
+    ? await client.getCompose(existing.composeId || existing.id || '')
+    : undefined
+
+  if (!compose && !inputs.autoCreateResources) {
+    throw new Error(`Compose service "${composeName}" not found and auto-create is disabled`)
+  }
+
+  const composeContent = await loadComposeContent(inputs)
+  const attributes: PlanAttributeChange[] = []
+  if (composeContent && composeContent !== compose?.composeFile) {
+    attributes.push({
+      attribute: 'composeFile',
+      before: compose?.composeFile ? `${compose.composeFile.split('\n').length} lines` : undefined,
+      after: `${composeContent.split('\n').length} lines`
+    })
+  }
+  changes.push(toChange('compose', composeName, !!compose, attributes))
+
+  if (composeContent) {
+    const envChange = planEnvironment(inputs, compose?.env, !!compose)
+    if (envChange) {
+      changes.push(envChange)
+    }
+  }
+
+  if (inputs.domains) {
+    const domains = compose
+      ? await client.getDomainsByComposeId(compose.composeId || compose.id || '')
+      : []
+    changes.push(...planDomainList(inputs, buildDomainConfigs(inputs, 'compose'), domains))
+  } else if (inputs.domainHost) {
+    const domains = compose
+      ? await client.getDomainsByComposeId(compose.composeId || compose.id || '')
+      : []
+    const existingDomain = domains.find(
+      d => d.host === inputs.domainHost && (d.port === inputs.applicationPort || !d.port)
+    )
+    const domainChanges: PlanAttributeChange[] = []
+    if (existingDomain) {
+      diffAttribute(domainChanges, 'https', existingDomain.https, inputs.domainHttps)
+      diffAttribute(domainChanges, 'path', existingDomain.path || '/', inputs.domainPath || '/')
+      diffAttribute(
+        domainChanges,
+        'serviceName',
+        existingDomain.serviceName,
+        inputs.composeServiceName || composeName
+      )
+    }
+    changes.push(toChange('domain', inputs.domainHost, !!existingDomain, domainChanges))
+  }
+
+  return summarize('compose', changes)
+}
+
+const ACTION_SYMBOLS: Record<PlanAction, string> = {
+  create: '+',
+  update: '~',
+  delete: '-',
+  'no-op': ' '
+}
+
+/**
+ * Format a plan as Terraform-style text
+ */
+export function formatPlan(plan: DeploymentPlan): string {
+  const lines: string[] = []
+
+  plan.changes.forEach(change => {
+    const suffix = change.action === 'no-op' ? ' (no changes)' : ''
+    lines.push(`${ACTION_SYMBOLS[change.action]} ${change.resource} "${change.name}"${suffix}`)
+
+    change.changes.forEach(({ attribute, before, after }) => {
+      if (before === undefined) {
+        lines.push(`    + ${attribute}: ${after}`)
+      } else if (after === undefined) {
+        lines.push(`    - ${attribute}: ${before}`)
+      } else {
+        lines.push(`    ~ ${attribute}: ${before} → ${after}`)
+      }
+    })
+  })
+
+  const { create, update, delete: remove } = plan.summary
+  lines.push('')
+  lines.push(
+    `Plan: ${create} to create, ${update} to update, ${remove} to delete, ${plan.summary['no-op']} unchanged.`
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Write the plan to the GitHub job summary
+ */
+export async function writePlanSummary(plan: DeploymentPlan): Promise<void> {
+  await core.summary
+    .addHeading(`Dokploy ${plan.deploymentType} plan`, 2)
+    .addCodeBlock(formatPlan(plan))
+    .write()
+}
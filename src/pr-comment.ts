@@ -0,0 +1,128 @@
+/**
+ * Sticky pull request comment for PR-triggered deployments
+ *
+ * One comment per environment/application is kept on the pull request and
+ * edited on every push, found again through a hidden HTML marker. Failures
+ * here never fail the action; they are reported as warnings.
+ */
+
+import * as core from '@actions/core'
+import * as github from '@actions/github'
+import { dokployServiceUrl, escapeHtml, formatDuration } from './summary'
+import type { DeploymentReport } from './summary'
+import type { ActionInputs } from './types/dokploy'
+
+/**
+ * Pull request number of the triggering event, if any
+ */
+export function pullRequestNumber(): number | undefined {
+  const { payload } = github.context
+  if (payload.pull_request) {
+    return payload.pull_request.number
+  }
+  // issue_comment events on pull requests (e.g. "/deploy" commands)
+  if (payload.issue?.pull_request) {
+    return payload.issue.number
+  }
+  return undefined
+}
+
+/**
+ * Hidden marker identifying the comment for one environment/application
+ */
+export function commentMarker(inputs: ActionInputs, report: DeploymentReport): string {
+  const environment = inputs.environmentName || 'production'
+  return `<!-- dokploy-deploy:${environment}/${report.name || report.deploymentType} -->`
+}
+
+/**
+ * Markdown body: image, URL, health and timing of the deployment
+ */
+export function buildCommentBody(
+  inputs: ActionInputs,
+  report: DeploymentReport,
+  dokployUrl: string
+): string {
+  const success = report.status === 'success'
+  const environment = inputs.environmentName || 'production'
+  const finishedAt = report.finishedAt || Date.now()
+  const dashboardUrl = dokployServiceUrl(dokployUrl, report)
+  const { serverUrl, runId } = github.context
+  const { owner, repo } = github.context.repo
+
+  const rows: [string, string][] = [
+    ['Status', success ? '✅ Deployed' : '❌ Failed'],
+    ['Environment', `\`${environment}\``]
+  ]
+  if (report.slot) rows.push(['Slot', `\`${report.slot}\``])
+  if (report.imageAfter) rows.push(['Image', `\`${report.imageAfter}\``])
+  if (report.deploymentUrl) rows.push(['URL', report.deploymentUrl])
+  rows.push(['Health', report.healthStatus || 'skipped'])
+  rows.push(['Duration', formatDuration(finishedAt - report.startedAt)])
+  rows.push(['Commit', github.context.sha.slice(0, 7)])
+
+  const lines = [
+    commentMarker(inputs, report),
+    `### ${success ? '🚀' : '💥'} Dokploy: ${report.name || report.deploymentType}`,
+    '',
+    '| | |',
+    '| --- | --- |',
+    ...rows.map(([label, value]) => `| ${label} | ${value} |`)
+  ]
+  if (report.error) {
+    lines.push('', `**Error:** ${escapeHtml(report.error).replace(/\r?\n/g, ' ')}`)
+  }
+  lines.push('')
+  const links = [`[Workflow run](${serverUrl}/${owner}/${repo}/actions/runs/${runId})`]
+  if (dashboardUrl) links.push(`[Open in Dokploy](${dashboardUrl})`)
+  lines.push(links.join(' · '))
+
+  return lines.join('\n')
+}
+
+/**
+ * Create the sticky comment, or update it in place when it already exists
+ */
+export async function upsertPullRequestComment(
+  inputs: ActionInputs,
+  report: DeploymentReport,
+  dokployUrl: string
+): Promise<void> {
+  const issueNumber = pullRequestNumber()
+  if (inputs.prComment === false || !inputs.githubToken || issueNumber === undefined) {
+    return
+  }
+
+  try {
+    const octokit = github.getOctokit(inputs.githubToken)
+    const marker = commentMarker(inputs, report)
+    const body = buildCommentBody(inputs, report, dokployUrl)
+
+    const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+      ...github.context.repo,
+      issue_number: issueNumber,
+      per_page: 100
+    })
+    const existing = comments.find(comment => comment.body?.includes(marker))
+
+    if (existing) {
+      await octokit.rest.issues.updateComment({
+        ...github.context.repo,
+        comment_id: existing.id,
+        body
+      })
+      core.info(`💬 Updated deployment comment on pull request #${issueNumber}`)
+    } else {
+      await octokit.rest.issues.createComment({
+        ...github.context.repo,
+        issue_number: issueNumber,
+        body
+      })
+      core.info(`💬 Added deployment comment to pull request #${issueNumber}`)
+    }
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not update pull request comment: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Ephemeral preview environments per pull request
+ *
+ * `mode: preview` deploys into an environment named after the pull request
+ * (`pr-123`) with a host derived from `preview-domain-template`; the regular
+ * deploy path then creates the environment and application on first push.
+ * `mode: destroy-preview` removes that environment once the PR is closed.
+ */
+
+import * as core from '@actions/core'
+import { pullRequestNumber } from './pr-comment'
+import { ValidationError } from './validators'
+import type { DokployClient } from './client/dokploy-client'
+import type { ActionInputs } from './types/dokploy'
+
+export function previewEnvironmentName(prNumber: number): string {
+  return `pr-${prNumber}`
+}
+
+/**
+ * Fill `{number}` and `{environment}` in the domain template,
+ * e.g. `{environment}.preview.example.com` → `pr-123.preview.example.com`
+ */
+export function previewDomainHost(template: string, prNumber: number): string {
+  return template
+    .replace(/\{number\}/g, String(prNumber))
+    .replace(/\{environment\}/g, previewEnvironmentName(prNumber))
+}
+
+function resolvePrNumber(inputs: ActionInputs): number {
+  const prNumber = inputs.previewPrNumber ?? pullRequestNumber()
+  if (prNumber === undefined) {
+    throw new ValidationError(
+      `mode "${inputs.mode}" requires a pull request number`,
+      'preview-pr-number',
+      undefined,
+      'Run on pull_request events or set preview-pr-number: ${{ github.event.number }}'
+    )
+  }
+  return prNumber
+}
+
+/**
+ * Derive environment name and domain host for a preview deployment.
+ * Resources are always auto-created, since every pull request starts without any.
+ */
+export function resolvePreviewInputs(inputs: ActionInputs): ActionInputs {
+  const prNumber = resolvePrNumber(inputs)
+  const environmentName = previewEnvironmentName(prNumber)
+  const domainHost = inputs.previewDomainTemplate
+    ? previewDomainHost(inputs.previewDomainTemplate, prNumber)
+    : inputs.domainHost
+
+  core.info(`🔍 Preview for pull request #${prNumber}: environment ${environmentName}`)
+  if (domainHost) core.info(`🔍 Preview host: ${domainHost}`)
+
+  return {
+    ...inputs,
+    environmentName,
+    environmentId: undefined,
+    domainHost,
+    autoCreateResources: true
+  }
+}
+
+/**
+ * Remove the preview environment of a pull request.
+ * `environmentId` is only set when an environment was actually removed.
+ */
+export async function destroyPreviewEnvironment(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<{ environmentName: string; environmentId?: string }> {
+  const environmentName = previewEnvironmentName(resolvePrNumber(inputs))
+
+  let projectId = inputs.projectId
+  if (!projectId && inputs.projectName) {
+    const project = await client.findProjectByName(inputs.projectName)
+    projectId = project?.projectId || project?.id
+    if (!projectId) {
+      core.info(`ℹ️ Project "${inputs.projectName}" not found, nothing to remove`)
+      return { environmentName }
+    }
+  }
+  if (!projectId) {
+    throw new Error('Either project-id or project-name must be provided')
+  }
+
+  const environment = await client.findEnvironmentInProject(projectId, environmentName)
+  if (!environment) {
+    core.info(`ℹ️ Preview environment ${environmentName} not found, nothing to remove`)
+    return { environmentName }
+  }
+
+  const environmentId = environment.environmentId || environment.id
+  if (!environmentId) {
+    throw new Error(`Preview environment ${environmentName} has no ID`)
+  }
+  await client.removeEnvironment(environmentId)
+  core.info(`✅ Preview environment ${environmentName} removed`)
+  return { environmentName, environmentId }
+}
@@ -0,0 +1,142 @@
+/**
+ * Recreate deployments (deployment-strategy: recreate)
+ *
+ * The running application is stopped before the new image is deployed, so the
+ * old and new versions never run side by side, e.g. across a schema-breaking
+ * migration. With maintenance-image, an `<app>-maintenance` application serves
+ * domain-host during the gap. The application keeps only the health check
+ * path of the host, which outranks the maintenance route in Traefik, so the
+ * new version is health checked before users are switched back to it.
+ */
+
+import * as core from '@actions/core'
+import { buildApplicationConfig } from './config'
+import { findApplicationInScope } from './resolve'
+import type { DokployClient } from './client/dokploy-client'
+import type { ApplicationScope } from './applications'
+import type { ActionInputs, Domain } from './types/dokploy'
+
+export const DEFAULT_MAINTENANCE_PORT = 80
+
+export interface MaintenanceWindow {
+  maintenanceId: string
+  maintenanceDomainId: string
+  applicationDomainId: string
+}
+
+export function maintenanceApplicationName(name: string): string {
+  return `${name}-maintenance`
+}
+
+/**
+ * Domain config that leaves the application only the health check path of the host
+ */
+export function healthCheckRoute(
+  domainConfig: Partial<Domain>,
+  inputs: ActionInputs
+): Partial<Domain> {
+  return { ...domainConfig, path: inputs.healthCheckPath || '/health' }
+}
+
+async function deployMaintenanceApplication(
+  client: DokployClient,
+  scope: ApplicationScope,
+  inputs: ActionInputs,
+  name: string
+): Promise<string> {
+  const image = inputs.maintenanceImage || ''
+  const port = inputs.maintenancePort || DEFAULT_MAINTENANCE_PORT
+  const existing = await findApplicationInScope(client, scope, name)
+  const maintenanceId =
+    existing?.applicationId ||
+    existing?.id ||
+    (await client.createApplication(
+      buildApplicationConfig(name, scope.projectId, scope.environmentId, scope.serverId, {
+        dokployUrl: inputs.dokployUrl,
+        apiKey: inputs.apiKey,
+        dockerImage: image,
+        applicationDescription: `Maintenance page for ${inputs.applicationName}`,
+        port,
+        targetPort: port
+      })
+    ))
+
+  await client.saveDockerProvider(
+    maintenanceId,
+    image,
+    inputs.registryUrl,
+    inputs.registryUsername,
+    inputs.registryPassword
+  )
+  const deployment = await client.deployApplication(maintenanceId, `Maintenance page ${image}`)
+  const deploymentId = deployment?.deploymentId || deployment?.id
+  if (deploymentId) {
+    await client.waitForDeployment(deploymentId, inputs.deploymentTimeout || 300)
+  }
+  return maintenanceId
+}
+
+/**
+ * Start the maintenance application and give it the host, keeping the health
+ * check path on the application. Returns undefined when the application does
+ * not serve the host yet, since there is nothing to cover for.
+ */
+export async function startMaintenance(
+  client: DokployClient,
+  scope: ApplicationScope,
+  inputs: ActionInputs,
+  applicationId: string,
+  domainConfig: Partial<Domain>
+): Promise<MaintenanceWindow | undefined> {
+  const applicationDomain = (await client.getDomains(applicationId)).find(
+    domain => domain.host === domainConfig.host
+  )
+  if (!applicationDomain) {
+    core.info(`ℹ️ ${domainConfig.host} is not served yet, skipping the maintenance page`)
+    return undefined
+  }
+
+  const name = maintenanceApplicationName(inputs.applicationName || applicationId)
+  core.info(`🚧 Starting maintenance page ${name} (${inputs.maintenanceImage})`)
+  const maintenanceId = await deployMaintenanceApplication(client, scope, inputs, name)
+
+  // A failed earlier run may have left the maintenance domain in place
+  const maintenanceConfig = {
+    ...domainConfig,
+    port: inputs.maintenancePort || DEFAULT_MAINTENANCE_PORT
+  }
+  const leftoverDomain = (await client.getDomains(maintenanceId)).find(
+    domain => domain.host === domainConfig.host
+  )
+  let maintenanceDomainId: string
+  if (leftoverDomain) {
+    maintenanceDomainId = leftoverDomain.domainId || leftoverDomain.id || ''
+    await client.updateDomain(maintenanceDomainId, maintenanceConfig)
+  } else {
+    const maintenanceDomain = await client.createDomain(maintenanceId, maintenanceConfig)
+    maintenanceDomainId = maintenanceDomain.domainId || maintenanceDomain.id || ''
+  }
+  const applicationDomainId = applicationDomain.domainId || applicationDomain.id || ''
+  await client.updateDomain(applicationDomainId, healthCheckRoute(domainConfig, inputs))
+  core.info(`🚧 ${domainConfig.host} now shows the maintenance page`)
+
+  return {
+    maintenanceId,
+    maintenanceDomainId,
+    applicationDomainId
+  }
+}
+
+/**
+ * Give the whole host back to the application and stop the maintenance application
+ */
+export async function endMaintenance(
+  client: DokployClient,
+  window: MaintenanceWindow,
+  domainConfig: Partial<Domain>
+): Promise<void> {
+  await client.updateDomain(window.applicationDomainId, domainConfig)
+  await client.removeDomain(window.maintenanceDomainId)
+  core.info(`✅ ${domainConfig.host} routes to the application again`)
+  await client.stopApplication(window.maintenanceId)
+}
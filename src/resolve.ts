@@ -0,0 +1,105 @@
+/**
+ * Read-only resolution of an existing service
+ *
+ * Looks up the application or compose service by ID or by
+ * project/environment/service name, the same way the deploy path does,
+ * for modes that must never create resources.
+ */
+
+import type { DokployClient } from './client/dokploy-client'
+import type { ApplicationScope } from './applications'
+import type { ActionInputs, Application } from './types/dokploy'
+
+export interface ExistingService {
+  type: 'application' | 'compose'
+  id: string
+  name: string
+  environmentId: string
+}
+
+/**
+ * Name of the targeted service, or the application ID when no name is given
+ */
+export function serviceName(inputs: ActionInputs): string | undefined {
+  return inputs.deploymentType === 'compose'
+    ? inputs.composeName || inputs.applicationName
+    : inputs.applicationName || inputs.applicationId
+}
+
+async function resolveEnvironmentId(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<string | undefined> {
+  if (inputs.environmentId) {
+    return inputs.environmentId
+  }
+
+  let projectId = inputs.projectId
+  if (!projectId && inputs.projectName) {
+    const project = await client.findProjectByName(inputs.projectName)
+    projectId = project?.projectId || project?.id
+  }
+  if (!projectId || !inputs.environmentName) {
+    return undefined
+  }
+
+  const environment = await client.findEnvironmentInProject(projectId, inputs.environmentName)
+  return environment?.environmentId || environment?.id
+}
+
+/**
+ * Find the application or compose service the inputs refer to, without creating anything
+ */
+export async function resolveExistingService(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<ExistingService | undefined> {
+  if (inputs.deploymentType === 'compose') {
+    const environmentId = await resolveEnvironmentId(client, inputs)
+    const composeName = serviceName(inputs)
+    const compose =
+      environmentId && composeName
+        ? await client.findComposeByName(environmentId, composeName)
+        : undefined
+    const composeId = compose?.composeId || compose?.id
+    return compose && composeId && environmentId
+      ? { type: 'compose', id: composeId, name: compose.name, environmentId }
+      : undefined
+  }
+
+  if (inputs.applicationId) {
+    const application = await client.getApplication(inputs.applicationId)
+    return {
+      type: 'application',
+      id: inputs.applicationId,
+      name: application.name,
+      environmentId: application.environmentId
+    }
+  }
+
+  const environmentId = await resolveEnvironmentId(client, inputs)
+  if (!environmentId) {
+    return undefined
+  }
+  const environment = await client.getEnvironment(environmentId)
+  const application = environment.applications?.find(app => app.name === inputs.applicationName)
+  const applicationId = application?.applicationId || application?.id
+  return application && applicationId
+    ? { type: 'application', id: applicationId, name: application.name, environmentId }
+    : undefined
+}
+
+/**
+ * Find an application by name in an already resolved project and environment
+ */
+export async function findApplicationInScope(
+  client: DokployClient,
+  scope: ApplicationScope,
+  applicationName: string
+): Promise<Application | undefined> {
+  const project = await client.getProject(scope.projectId)
+  const environment = project.environments?.find(
+    env => (env.environmentId || env.id) === scope.environmentId
+  )
+  return environment?.applications?.find(app => app.name === applicationName)
+}
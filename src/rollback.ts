@@ -0,0 +1,182 @@
+/**
+ * Rollback on deployment failure
+ *
+ * Records the version an application is running before it is updated and
+ * restores that version when the new deployment fails, times out or is unhealthy.
+ */
+
+import * as core from '@actions/core'
+import type { DokployClient } from './client/dokploy-client'
+import type { ActionInputs, Deployment } from './types/dokploy'
+import { performHealthCheck } from './health-check'
+import { actionLog } from './log'
+import type { DeploymentLog } from './log'
+
+export interface RollbackSnapshot {
+  applicationId: string
+  dockerImage: string
+  registryUrl?: string
+  username?: string
+  password?: string
+  deploymentId?: string
+  rollbackId?: string
+}
+
+export interface RollbackResult {
+  status: 'success' | 'failed' | 'skipped'
+  rolledBackTo?: string
+}
+
+function createdTime(deployment: Deployment): number {
+  return new Date(deployment.createdAt || deployment.startedAt || 0).getTime()
+}
+
+function sortNewestFirst(deployments: Deployment[]): Deployment[] {
+  return [...deployments].sort((a, b) => createdTime(b) - createdTime(a))
+}
+
+/**
+ * Record the currently deployed image and last successful deployment.
+ * Returns null when there is nothing to roll back to (e.g. a new application).
+ */
+export async function captureRollbackSnapshot(
+  client: DokployClient,
+  applicationId: string
+): Promise<RollbackSnapshot | null> {
+  try {
+    const application = await client.getApplication(applicationId)
+    if (!application.dockerImage) {
+      core.info('ℹ️ Application has no previous image, rollback will not be available')
+      return null
+    }
+
+    const snapshot: RollbackSnapshot = {
+      applicationId,
+      dockerImage: application.dockerImage,
+      registryUrl: application.registryUrl,
+      username: application.username,
+      password: application.password
+    }
+
+    // Dokploy only keeps rollback entries when rollbacks are active for the application
+    const deployments = await client.getDeployments(applicationId)
+    const lastSuccessful = sortNewestFirst(deployments).find(d => d.status === 'completed')
+    if (lastSuccessful) {
+      snapshot.deploymentId = lastSuccessful.deploymentId || lastSuccessful.id
+      snapshot.rollbackId = lastSuccessful.rollbackId
+    }
+
+    core.info(`✅ Recorded previous image for rollback: ${snapshot.dockerImage}`)
+    if (snapshot.rollbackId) {
+      core.info(`   Rollback ID: ${snapshot.rollbackId}`)
+    }
+    return snapshot
+  } catch (error) {
+    core.warning(
+      `⚠️ Could not record previous version, rollback will not be available: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    )
+    return null
+  }
+}
+
+/**
+ * Find the deployment started by a rollback: the first one created after the
+ * failed deployment. Deployments started after the rollback may already be
+ * listed, so the newest one is not necessarily the rollback's. Without the
+ * failed deployment to go by, the newest deployment not in `excludeIds` is used.
+ */
+export function findRollbackDeployment(
+  deployments: Deployment[],
+  failedDeploymentId: string | undefined,
+  excludeIds: string[]
+): Deployment | undefined {
+  const candidates = sortNewestFirst(deployments).filter(d => {
+    const id = d.deploymentId || d.id
+    return id && id !== failedDeploymentId && !excludeIds.includes(id)
+  })
+  const failed = deployments.find(d => (d.deploymentId || d.id) === failedDeploymentId)
+  if (!failed) {
+    return candidates[0]
+  }
+  return candidates.reverse().find(d => createdTime(d) > createdTime(failed))
+}
+
+/**
+ * Restore the recorded version, wait for it and verify its health.
+ * Uses Dokploy's rollback API when a rollback entry exists, otherwise re-saves
+ * the previous image and redeploys. Never throws; the result reports the outcome.
+ */
+export async function performRollback(
+  client: DokployClient,
+  snapshot: RollbackSnapshot,
+  inputs: ActionInputs,
+  deploymentUrl?: string,
+  failedDeploymentId?: string,
+  log: DeploymentLog = actionLog
+): Promise<RollbackResult> {
+  const rolledBackTo = snapshot.dockerImage
+  log.startGroup('⏪ Rollback')
+  log.info(`⏪ Rolling back to previous image: ${rolledBackTo}`)
+
+  try {
+    let deploymentId: string | undefined
+
+    if (snapshot.rollbackId) {
+      await client.rollbackDeployment(snapshot.rollbackId)
+    } else {
+      await client.saveDockerProvider(
+        snapshot.applicationId,
+        snapshot.dockerImage,
+        snapshot.registryUrl,
+        snapshot.username,
+        snapshot.password
+      )
+      const result = await client.deployApplication(
+        snapshot.applicationId,
+        `Rollback to ${rolledBackTo}`,
+        'Automatic rollback after failed deployment'
+      )
+      deploymentId = result?.deploymentId || result?.id
+    }
+
+    if (inputs.waitForDeployment !== false) {
+      if (!deploymentId) {
+        const rollbackDeployment = findRollbackDeployment(
+          await client.getDeployments(snapshot.applicationId),
+          failedDeploymentId,
+          snapshot.deploymentId ? [snapshot.deploymentId] : []
+        )
+        deploymentId = rollbackDeployment?.deploymentId || rollbackDeployment?.id
+      }
+
+      if (deploymentId) {
+        await client.waitForDeployment(
+          deploymentId,
+          inputs.deploymentTimeout || 300,
+          undefined,
+          undefined,
+          log
+        )
+      } else {
+        log.warning('⚠️ Could not find the rollback deployment, skipping wait')
+      }
+    }
+
+    if (inputs.healthCheckEnabled && deploymentUrl) {
+      const healthStatus = await performHealthCheck(deploymentUrl, inputs, undefined, log)
+      if (healthStatus === 'unhealthy') {
+        throw new Error('Rolled back version failed health check')
+      }
+    }
+
+    log.info(`✅ Rollback completed: ${rolledBackTo}`)
+    return { status: 'success', rolledBackTo }
+  } catch (error) {
+    log.error(`❌ Rollback failed: ${error instanceof Error ? error.message : String(error)}`)
+    return { status: 'failed', rolledBackTo }
+  } finally {
+    log.endGroup()
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Status mode
+ *
+ * Reports what is currently running for an application or compose service,
+ * with its most recent deployments, without deploying anything.
+ */
+
+import * as core from '@actions/core'
+import { resolveExistingService, serviceName } from './resolve'
+import type { DokployClient } from './client/dokploy-client'
+import type { ActionInputs, Deployment } from './types/dokploy'
+
+const DEFAULT_HISTORY_COUNT = 5
+
+export interface DeploymentHistoryEntry {
+  deploymentId: string
+  title?: string
+  status?: string
+  createdAt?: string
+  completedAt?: string
+}
+
+export interface ServiceStatus {
+  type: 'application' | 'compose'
+  id: string
+  name: string
+  image?: string
+  status?: string
+  replicas?: number
+  domains: string[]
+  deployments: DeploymentHistoryEntry[]
+}
+
+function toHistoryEntry(deployment: Deployment): DeploymentHistoryEntry {
+  return {
+    deploymentId: deployment.deploymentId || deployment.id || '',
+    title: deployment.title,
+    status: deployment.status,
+    createdAt: deployment.createdAt || deployment.startedAt,
+    completedAt: deployment.completedAt
+  }
+}
+
+/**
+ * Newest first, limited to `count` entries
+ */
+export function latestDeployments(
+  deployments: Deployment[],
+  count: number
+): DeploymentHistoryEntry[] {
+  return deployments
+    .map(toHistoryEntry)
+    .sort((a, b) => Date.parse(b.createdAt || '') - Date.parse(a.createdAt || '') || 0)
+    .slice(0, count)
+}
+
+/**
+ * Look up the service and its last deployments; fails when the service does not exist
+ */
+export async function queryServiceStatus(
+  client: DokployClient,
+  inputs: ActionInputs
+): Promise<ServiceStatus> {
+  const service = await resolveExistingService(client, inputs)
+  if (!service) {
+    throw new Error(`${inputs.deploymentType || 'application'} "${serviceName(inputs)}" not found`)
+  }
+
+  const count = inputs.historyCount ?? DEFAULT_HISTORY_COUNT
+
+  if (service.type === 'compose') {
+    const [compose, domains, deployments] = await Promise.all([
+      client.getCompose(service.id),
+      client.getDomainsByComposeId(service.id),
+      client.getComposeDeployments(service.id)
+    ])
+    return {
+      type: 'compose',
+      id: service.id,
+      name: service.name,
+      status: compose.composeStatus,
+      domains: domains.map(domain => domain.host),
+      deployments: latestDeployments(deployments, count)
+    }
+  }
+
+  const [application, deployments] = await Promise.all([
+    client.getApplication(service.id),
+    client.getDeployments(service.id)
+  ])
+  return {
+    type: 'application',
+    id: service.id,
+    name: service.name,
+    image: application.dockerImage,
+    status: application.applicationStatus,
+    replicas: application.replicas,
+    domains: (application.domains || []).map(domain => domain.host),
+    deployments: latestDeployments(deployments, count)
+  }
+}
+
+/**
+ * Human-readable status for the log and job summary
+ */
+export function formatServiceStatus(status: ServiceStatus): string {
+  const lines = [
+    `${status.type === 'compose' ? 'Compose service' : 'Application'}: ${status.name} (${status.id})`
+  ]
+  if (status.image) lines.push(`Image:    ${status.image}`)
+  lines.push(`Status:   ${status.status || 'unknown'}`)
+  if (status.replicas !== undefined) lines.push(`Replicas: ${status.replicas}`)
+  lines.push(`Domains:  ${status.domains.length > 0 ? status.domains.join(', ') : 'none'}`)
+
+  lines.push('', 'Recent deployments:')
+  if (status.deployments.length === 0) {
+    lines.push('  none')
+  }
+  status.deployments.forEach(deployment => {
+    lines.push(
+      `  ${deployment.deploymentId}  ${(deployment.status || 'unknown').padEnd(10)} ` +
+        `${deployment.createdAt || '-'}  ${deployment.title || ''}`.trimEnd()
+    )
+  })
+
+  return lines.join('\n')
+}
+
+export async function writeStatusSummary(status: ServiceStatus): Promise<void> {
+  await core.summary
+    .addHeading(`Dokploy ${status.type} status: ${status.name}`, 2)
+    .addCodeBlock(formatServiceStatus(status))
+    .write()
+}
@@ -0,0 +1,213 @@
+/**
+ * Markdown job summary for $GITHUB_STEP_SUMMARY
+ *
+ * The deployment workflows fill in a DeploymentReport as they go; it is
+ * written once at the end of the run, for successful and failed deployments.
+ */
+
+import * as core from '@actions/core'
+import {
+  buildHealthCheckSwarm,
+  buildPlacementSwarm,
+  buildRestartPolicySwarm,
+  buildUpdateConfigSwarm,
+  formatHealthCheck,
+  formatPlacement,
+  formatRestartPolicy,
+  formatUpdateConfig
+} from './swarm'
+import type { HealthCheckAttempt } from './health-check'
+import type { OldContainerReport } from './old-containers'
+import type { ActionInputs } from './types/dokploy'
+
+export type DomainChange = 'created' | 'updated' | 'recreated' | 'unchanged' | 'removed'
+
+export interface DeploymentReport {
+  deploymentType: 'application' | 'compose'
+  name?: string
+  // Blue-green color or canary the deployment went to; name stays the base application
+  slot?: string
+  status?: 'success' | 'failed'
+  error?: string
+  startedAt: number
+  finishedAt?: number
+  projectId?: string
+  environmentId?: string
+  serverId?: string
+  serviceId?: string
+  deploymentId?: string
+  imageBefore?: string
+  imageAfter?: string
+  resources: [string, string][]
+  domains: { host: string; change: DomainChange }[]
+  deploymentUrl?: string
+  healthStatus?: string
+  healthAttempts: HealthCheckAttempt[]
+  oldContainers?: OldContainerReport
+}
+
+/**
+ * Start a report with the settings requested through inputs
+ */
+export function createDeploymentReport(inputs: ActionInputs): DeploymentReport {
+  const resources: [string, string][] = []
+  if (inputs.memoryLimit !== undefined) resources.push(['Memory limit', `${inputs.memoryLimit}MB`])
+  if (inputs.memoryReservation !== undefined) {
+    resources.push(['Memory reservation', `${inputs.memoryReservation}MB`])
+  }
+  if (inputs.cpuLimit !== undefined) resources.push(['CPU limit', `${inputs.cpuLimit}`])
+  if (inputs.cpuReservation !== undefined) {
+    resources.push(['CPU reservation', `${inputs.cpuReservation}`])
+  }
+  if (inputs.replicas !== undefined) resources.push(['Replicas', `${inputs.replicas}`])
+  const restartPolicy = buildRestartPolicySwarm(inputs)
+  if (restartPolicy) resources.push(['Restart policy', formatRestartPolicy(restartPolicy)])
+  const healthCheck = buildHealthCheckSwarm(inputs)
+  if (healthCheck) resources.push(['Container health check', formatHealthCheck(healthCheck)])
+  const placement = buildPlacementSwarm(inputs)
+  if (placement) resources.push(['Placement', formatPlacement(placement)])
+  const updateConfig = buildUpdateConfigSwarm(inputs)
+  if (updateConfig) resources.push(['Update config', formatUpdateConfig(updateConfig)])
+
+  const compose = inputs.deploymentType === 'compose'
+  return {
+    deploymentType: compose ? 'compose' : 'application',
+    name: compose ? inputs.composeName : inputs.applicationName,
+    startedAt: Date.now(),
+    imageAfter: compose ? undefined : inputs.dockerImage,
+    resources,
+    domains: [],
+    healthAttempts: []
+  }
+}
+
+/**
+ * Link to the service in the Dokploy dashboard, when all IDs are known
+ */
+export function dokployServiceUrl(
+  dokployUrl: string,
+  report: DeploymentReport
+): string | undefined {
+  if (!report.projectId || !report.environmentId || !report.serviceId) {
+    return undefined
+  }
+  return (
+    `${dokployUrl.replace(/\/$/, '')}/dashboard/project/${report.projectId}` +
+    `/environment/${report.environmentId}/services/${report.deploymentType}/${report.serviceId}`
+  )
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000)
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function code(value?: string): string {
+  return value ? `<code>${escapeHtml(value)}</code>` : '—'
+}
+
+/**
+ * Write the report to the job summary
+ */
+export async function writeDeploymentSummary(
+  report: DeploymentReport,
+  dokployUrl: string
+): Promise<void> {
+  const finishedAt = report.finishedAt || Date.now()
+  const icon = report.status === 'success' ? '✅' : '❌'
+  const serviceLabel = report.deploymentType === 'compose' ? 'Compose service' : 'Application'
+  const dashboardUrl = dokployServiceUrl(dokployUrl, report)
+
+  core.summary
+    .addHeading(
+      `${icon} Dokploy deployment ${report.status === 'success' ? 'succeeded' : 'failed'}`,
+      2
+    )
+    .addTable([
+      [
+        { data: 'Resource', header: true },
+        { data: 'ID', header: true }
+      ],
+      ['Project', code(report.projectId)],
+      ['Environment', code(report.environmentId)],
+      ['Server', code(report.serverId)],
+      [
+        `${serviceLabel}${report.name ? ` (${escapeHtml(report.name)})` : ''}`,
+        code(report.serviceId)
+      ],
+      ['Deployment', code(report.deploymentId)]
+    ])
+
+  if (report.error) {
+    core.summary.addRaw(`<p><strong>Error:</strong> ${escapeHtml(report.error)}</p>`, true)
+  }
+
+  const details: [string, string][] = [['Duration', formatDuration(finishedAt - report.startedAt)]]
+  if (report.slot) details.push(['Slot', code(report.slot)])
+  if (report.imageAfter) {
+    details.push(
+      ['Image before', code(report.imageBefore)],
+      ['Image after', code(report.imageAfter)]
+    )
+  }
+  details.push(...report.resources)
+  if (report.deploymentUrl) {
+    const url = escapeHtml(report.deploymentUrl)
+    details.push(['URL', `<a href="${url}">${url}</a>`])
+  }
+  core.summary.addHeading('Deployment', 3).addTable([
+    [
+      { data: 'Setting', header: true },
+      { data: 'Value', header: true }
+    ],
+    ...details
+  ])
+
+  if (report.domains.length > 0) {
+    core.summary
+      .addHeading('Domains', 3)
+      .addList(report.domains.map(domain => `${escapeHtml(domain.host)} (${domain.change})`))
+  }
+
+  if (report.healthAttempts.length > 0 || report.healthStatus) {
+    core.summary.addHeading(`Health check: ${report.healthStatus || 'skipped'}`, 3)
+    if (report.healthAttempts.length > 0) {
+      core.summary.addTable([
+        [
+          { data: 'Attempt', header: true },
+          { data: 'Result', header: true },
+          { data: 'Latency', header: true }
+        ],
+        ...report.healthAttempts.map(attempt => [
+          `${attempt.attempt}`,
+          attempt.error ? `Error: ${escapeHtml(attempt.error)}` : `HTTP ${attempt.statusCode}`,
+          `${attempt.latencyMs}ms`
+        ])
+      ])
+    }
+  }
+
+  if (report.oldContainers) {
+    const { found, kept, stale } = report.oldContainers
+    core.summary
+      .addHeading('Old containers', 3)
+      .addRaw(
+        `<p>${found} containers found, ${kept} kept, ${stale.length} old stopped containers to remove on the server (Dokploy's API cannot remove containers)</p>`,
+        true
+      )
+  }
+
+  if (dashboardUrl) {
+    core.summary.addLink(`Open ${serviceLabel.toLowerCase()} in Dokploy`, dashboardUrl)
+  }
+
+  await core.summary.write()
+}
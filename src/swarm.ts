@@ -0,0 +1,222 @@
+/**
+ * Docker Swarm service settings
+ *
+ * Dokploy runs every application as a Swarm service and passes these
+ * settings through application.update to the Docker Engine API unchanged,
+ * so the objects use its PascalCase field names and nanosecond durations.
+ */
+
+import type {
+  ActionInputs,
+  SwarmHealthCheck,
+  SwarmPlacement,
+  SwarmRestartPolicy,
+  SwarmUpdateConfig
+} from './types/dokploy'
+
+const NANOSECONDS_PER_SECOND = 1e9
+
+// Swarm has no always or unless-stopped: a service task is restarted on any
+// exit. Stopping the application in Dokploy scales the service to zero
+// rather than stopping its containers, so `any` keeps a stopped application
+// stopped, which is what unless-stopped means.
+const RESTART_CONDITIONS: Record<string, SwarmRestartPolicy['Condition']> = {
+  always: 'any',
+  'unless-stopped': 'any',
+  'on-failure': 'on-failure',
+  no: 'none'
+}
+
+function toNanoseconds(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * NANOSECONDS_PER_SECOND
+}
+
+function formatSeconds(nanoseconds: number): string {
+  return `${nanoseconds / NANOSECONDS_PER_SECOND}s`
+}
+
+function isSet(...values: unknown[]): boolean {
+  return values.some(value => value !== undefined)
+}
+
+/**
+ * Spread descriptor of a placement-preferences entry; the `spread=` prefix of
+ * `docker service create --placement-pref` is optional
+ */
+export function spreadDescriptor(preference: string): string {
+  return preference.replace(/^spread=/, '')
+}
+
+/**
+ * restartPolicySwarm from restart-policy and the restart-* inputs. All fields
+ * are sent together, since Dokploy replaces the whole policy.
+ */
+export function buildRestartPolicySwarm(inputs: ActionInputs): SwarmRestartPolicy | undefined {
+  if (
+    !isSet(
+      inputs.restartPolicy,
+      inputs.restartDelay,
+      inputs.restartMaxAttempts,
+      inputs.restartWindow
+    )
+  ) {
+    return undefined
+  }
+  return {
+    Condition: inputs.restartPolicy ? RESTART_CONDITIONS[inputs.restartPolicy] : undefined,
+    Delay: toNanoseconds(inputs.restartDelay),
+    MaxAttempts: inputs.restartMaxAttempts,
+    Window: toNanoseconds(inputs.restartWindow)
+  }
+}
+
+/**
+ * healthCheckSwarm from the container-health-check-* inputs. Without a
+ * command the image's own HEALTHCHECK runs with the given timings; NONE
+ * disables it.
+ */
+export function buildHealthCheckSwarm(inputs: ActionInputs): SwarmHealthCheck | undefined {
+  const command = inputs.containerHealthCheck
+  if (
+    !isSet(
+      command,
+      inputs.containerHealthCheckInterval,
+      inputs.containerHealthCheckTimeout,
+      inputs.containerHealthCheckStartPeriod,
+      inputs.containerHealthCheckRetries
+    )
+  ) {
+    return undefined
+  }
+  return {
+    Test:
+      command === undefined ? undefined : command === 'NONE' ? ['NONE'] : ['CMD-SHELL', command],
+    Interval: toNanoseconds(inputs.containerHealthCheckInterval),
+    Timeout: toNanoseconds(inputs.containerHealthCheckTimeout),
+    StartPeriod: toNanoseconds(inputs.containerHealthCheckStartPeriod),
+    Retries: inputs.containerHealthCheckRetries
+  }
+}
+
+/**
+ * placementSwarm from the placement-* inputs; platforms are written as `os/architecture`
+ */
+export function buildPlacementSwarm(inputs: ActionInputs): SwarmPlacement | undefined {
+  if (
+    !isSet(
+      inputs.placementConstraints,
+      inputs.placementPreferences,
+      inputs.placementMaxReplicas,
+      inputs.placementPlatforms
+    )
+  ) {
+    return undefined
+  }
+  return {
+    Constraints: inputs.placementConstraints,
+    Preferences: inputs.placementPreferences?.map(preference => ({
+      Spread: { SpreadDescriptor: spreadDescriptor(preference) }
+    })),
+    MaxReplicas: inputs.placementMaxReplicas,
+    Platforms: inputs.placementPlatforms?.map(platform => {
+      const [os, architecture] = platform.split('/')
+      return { Architecture: architecture, OS: os }
+    })
+  }
+}
+
+/**
+ * updateConfigSwarm from the update-* inputs, or undefined when none is set.
+ * Swarm requires Parallelism and Order, so its own defaults (1, stop-first)
+ * fill in whichever is not set.
+ */
+export function buildUpdateConfigSwarm(inputs: ActionInputs): SwarmUpdateConfig | undefined {
+  if (
+    !isSet(
+      inputs.updateParallelism,
+      inputs.updateDelay,
+      inputs.updateFailureAction,
+      inputs.updateMonitor,
+      inputs.updateMaxFailureRatio,
+      inputs.updateOrder
+    )
+  ) {
+    return undefined
+  }
+
+  return {
+    Parallelism: inputs.updateParallelism ?? 1,
+    Delay: toNanoseconds(inputs.updateDelay),
+    FailureAction: inputs.updateFailureAction as SwarmUpdateConfig['FailureAction'],
+    Monitor: toNanoseconds(inputs.updateMonitor),
+    MaxFailureRatio: inputs.updateMaxFailureRatio,
+    Order: (inputs.updateOrder || 'stop-first') as SwarmUpdateConfig['Order']
+  }
+}
+
+/**
+ * rollbackConfigSwarm rolls back at the same pace as the update. A rollback
+ * cannot itself be rolled back, so that failure action becomes pause.
+ */
+export function buildRollbackConfigSwarm(update: SwarmUpdateConfig): SwarmUpdateConfig {
+  return {
+    ...update,
+    FailureAction: update.FailureAction === 'rollback' ? 'pause' : update.FailureAction
+  }
+}
+
+/**
+ * One-line description for logs and the job summary, e.g. `2 at a time, start-first, every 10s`
+ */
+export function formatUpdateConfig(config: SwarmUpdateConfig): string {
+  const parts = [
+    config.Parallelism === 0 ? 'all at once' : `${config.Parallelism} at a time`,
+    config.Order
+  ]
+  if (config.Delay) parts.push(`every ${formatSeconds(config.Delay)}`)
+  if (config.Monitor) parts.push(`monitor ${formatSeconds(config.Monitor)}`)
+  if (config.FailureAction) parts.push(`on failure ${config.FailureAction}`)
+  if (config.MaxFailureRatio !== undefined) {
+    parts.push(`max failure ratio ${config.MaxFailureRatio}`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * One-line description of a restart policy, e.g. `on-failure, delay 5s, up to 3 attempts`
+ */
+export function formatRestartPolicy(policy: SwarmRestartPolicy): string {
+  const parts: string[] = [policy.Condition || 'any']
+  if (policy.Delay) parts.push(`delay ${formatSeconds(policy.Delay)}`)
+  if (policy.MaxAttempts) parts.push(`up to ${policy.MaxAttempts} attempts`)
+  if (policy.Window) parts.push(`window ${formatSeconds(policy.Window)}`)
+  return parts.join(', ')
+}
+
+/**
+ * One-line description of a container health check, e.g. `curl -f localhost/health, every 30s`
+ */
+export function formatHealthCheck(check: SwarmHealthCheck): string {
+  const test = check.Test || []
+  const parts = [
+    test.length === 0 ? 'image default' : test[0] === 'NONE' ? 'disabled' : test.slice(1).join(' ')
+  ]
+  if (check.Interval) parts.push(`every ${formatSeconds(check.Interval)}`)
+  if (check.Timeout) parts.push(`timeout ${formatSeconds(check.Timeout)}`)
+  if (check.StartPeriod) parts.push(`start period ${formatSeconds(check.StartPeriod)}`)
+  if (check.Retries) parts.push(`${check.Retries} retries`)
+  return parts.join(', ')
+}
+
+/**
+ * One-line description of a placement, e.g. `node.labels.region==eu, spread node.labels.zone`
+ */
+export function formatPlacement(placement: SwarmPlacement): string {
+  const parts = [...(placement.Constraints || [])]
+  placement.Preferences?.forEach(preference =>
+    parts.push(`spread ${preference.Spread.SpreadDescriptor}`)
+  )
+  if (placement.MaxReplicas) parts.push(`max ${placement.MaxReplicas} per node`)
+  placement.Platforms?.forEach(platform => parts.push(`${platform.OS}/${platform.Architecture}`))
+  return parts.join(', ')
+}
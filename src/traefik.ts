@@ -0,0 +1,85 @@
+/**
+ * Traefik dynamic configuration builder
+ *
+ * Dokploy keeps one Traefik dynamic config file per application and lets it
+ * be replaced through application.updateTraefikConfig. This builds a file
+ * that routes a host to several Swarm services with weighted round robin,
+ * in the same shape Dokploy writes for a single domain.
+ */
+
+import * as yaml from 'js-yaml'
+
+export interface TraefikRoute {
+  // Prefix for router and service names, usually the Dokploy appName
+  name: string
+  host: string
+  path?: string
+  https?: boolean
+  certificateType?: string
+}
+
+export interface WeightedBackend {
+  name: string
+  url: string
+  weight: number
+}
+
+/**
+ * Address of a Swarm service on the Dokploy network, as Traefik reaches it
+ */
+export function serviceUrl(appName: string, port: number): string {
+  return `http://${appName}:${port}`
+}
+
+function routerRule(route: TraefikRoute): string {
+  const rule = `Host(\`${route.host}\`)`
+  return route.path && route.path !== '/' ? `${rule} && PathPrefix(\`${route.path}\`)` : rule
+}
+
+/**
+ * Route `route` to the backends in proportion to their weights.
+ * Backends with weight 0 are left out instead of being routed with no share.
+ */
+export function buildWeightedTraefikConfig(
+  route: TraefikRoute,
+  backends: WeightedBackend[]
+): string {
+  const serviceName = `${route.name}-weighted`
+  const active = backends.filter(backend => backend.weight > 0)
+  if (active.length === 0) {
+    throw new Error('At least one backend needs a weight above 0')
+  }
+
+  const routers: Record<string, unknown> = {
+    [`${route.name}-router-web`]: {
+      rule: routerRule(route),
+      service: serviceName,
+      middlewares: route.https ? ['redirect-to-https'] : [],
+      entryPoints: ['web']
+    }
+  }
+  if (route.https) {
+    routers[`${route.name}-router-websecure`] = {
+      rule: routerRule(route),
+      service: serviceName,
+      middlewares: [],
+      entryPoints: ['websecure'],
+      tls: route.certificateType === 'letsencrypt' ? { certResolver: 'letsencrypt' } : {}
+    }
+  }
+
+  const services: Record<string, unknown> = {
+    [serviceName]: {
+      weighted: {
+        services: active.map(backend => ({ name: backend.name, weight: backend.weight }))
+      }
+    }
+  }
+  active.forEach(backend => {
+    services[backend.name] = {
+      loadBalancer: { servers: [{ url: backend.url }], passHostHeader: true }
+    }
+  })
+
+  return yaml.dump({ http: { routers, services } }, { lineWidth: -1 })
+}
@@ -3,10 +3,16 @@
  * Generated from Dokploy Swagger/OpenAPI specification
  */
 
+import type { ActionDeadline } from '../deadline'
+
 export interface DokployConfig {
   url: string
   apiKey: string
   debugMode?: boolean
+  maxRetries?: number
+  retryDelay?: number
+  requestTimeout?: number
+  deadline?: ActionDeadline
 }
 
 export interface Project {
@@ -50,6 +56,9 @@ export interface Application {
   environmentId: string
   serverId: string
   dockerImage?: string
+  registryUrl?: string
+  username?: string
+  password?: string
   port?: number
   targetPort?: number
   status?: string
@@ -60,12 +69,52 @@ export interface Application {
   cpuLimit?: number
   cpuReservation?: number
   restartPolicy?: string
+  restartPolicySwarm?: SwarmRestartPolicy | null
+  healthCheckSwarm?: SwarmHealthCheck | null
+  placementSwarm?: SwarmPlacement | null
+  updateConfigSwarm?: SwarmUpdateConfig | null
   appName?: string
   env?: Record<string, string> | string
   domains?: Domain[]
+  mounts?: Mount[]
   containers?: Container[]
 }
 
+/**
+ * Swarm UpdateConfig / RollbackConfig as passed to the Docker Engine API;
+ * durations are in nanoseconds
+ */
+export interface SwarmUpdateConfig {
+  Parallelism: number
+  Delay?: number
+  FailureAction?: 'pause' | 'continue' | 'rollback'
+  Monitor?: number
+  MaxFailureRatio?: number
+  Order: 'start-first' | 'stop-first'
+}
+
+export interface SwarmRestartPolicy {
+  Condition?: 'none' | 'on-failure' | 'any'
+  Delay?: number
+  MaxAttempts?: number
+  Window?: number
+}
+
+export interface SwarmHealthCheck {
+  Test?: string[]
+  Interval?: number
+  Timeout?: number
+  StartPeriod?: number
+  Retries?: number
+}
+
+export interface SwarmPlacement {
+  Constraints?: string[]
+  Preferences?: { Spread: { SpreadDescriptor: string } }[]
+  MaxReplicas?: number
+  Platforms?: { Architecture: string; OS: string }[]
+}
+
 export interface Domain {
   domainId?: string
   id?: string
@@ -80,10 +129,20 @@ export interface Domain {
   createdAt?: string
 }
 
+export interface Mount {
+  mountId?: string
+  type: 'bind' | 'volume' | 'file'
+  hostPath?: string
+  volumeName?: string
+  mountPath: string
+  serviceType?: string
+}
+
 export interface Container {
   containerId?: string
   id?: string
   name: string
+  state?: string
   status?: string
   image?: string
   createdAt?: string
@@ -94,12 +153,15 @@ export interface Deployment {
   deploymentId?: string
   id?: string
   applicationId: string
+  composeId?: string
   title?: string
   description?: string
   status?: 'deploying' | 'completed' | 'failed' | 'pending'
   startedAt?: string
   completedAt?: string
+  createdAt?: string
   logs?: string
+  rollbackId?: string
 }
 
 export interface Compose {
@@ -115,6 +177,8 @@ export interface Compose {
   serverId?: string
   composeStatus?: string
   composeType?: 'docker-compose' | 'stack'
+  domains?: Domain[]
+  mounts?: Mount[]
 }
 
 export interface HealthCheck {
@@ -125,11 +189,44 @@ export interface HealthCheck {
   timeout?: number
 }
 
+/**
+ * One entry of the applications input, deployed into the shared project/environment
+ */
+export interface ApplicationSpec {
+  name: string
+  dockerImage?: string
+  env?: string
+  domainHost?: string
+  applicationPort?: number
+  memoryLimit?: number
+  memoryReservation?: number
+  cpuLimit?: number
+  cpuReservation?: number
+  replicas?: number
+  healthCheckPath?: string
+  dependsOn?: string[]
+}
+
+export interface DomainSpec {
+  host: string
+  path?: string
+  port?: number
+  https?: boolean
+  certificateType?: string
+  stripPath?: boolean
+  serviceName?: string
+}
+
+export type ActionMode = 'deploy' | 'plan' | 'status' | 'preview' | 'destroy-preview' | 'destroy'
+
+export type DeploymentStrategy = 'rolling' | 'recreate' | 'blue-green' | 'canary'
+
 export interface ActionInputs {
   // Core
   dokployUrl: string
   apiKey: string
   dockerImage: string
+  mode?: ActionMode
 
   // Deployment Type
   deploymentType?: 'application' | 'compose'
@@ -168,6 +265,20 @@ export interface ActionInputs {
   port?: number
   targetPort?: number
   restartPolicy?: string
+  restartDelay?: number
+  restartMaxAttempts?: number
+  restartWindow?: number
+
+  // Swarm container health check and placement
+  containerHealthCheck?: string
+  containerHealthCheckInterval?: number
+  containerHealthCheckTimeout?: number
+  containerHealthCheckStartPeriod?: number
+  containerHealthCheckRetries?: number
+  placementConstraints?: string[]
+  placementPreferences?: string[]
+  placementMaxReplicas?: number
+  placementPlatforms?: string[]
 
   // Docker Advanced
   volumes?: string
@@ -176,6 +287,14 @@ export interface ActionInputs {
   // Scaling
   replicas?: number
 
+  // Swarm rolling updates
+  updateParallelism?: number
+  updateDelay?: number
+  updateFailureAction?: string
+  updateMonitor?: number
+  updateMaxFailureRatio?: number
+  updateOrder?: string
+
   // Registry
   registryUrl?: string
   registryUsername?: string
@@ -185,6 +304,7 @@ export interface ActionInputs {
   env?: string
   envFile?: string
   envFromJson?: string
+  envMergeMode?: 'replace' | 'merge-with-existing' | 'strict'
 
   // Domain & SSL
   domainHost?: string
@@ -194,14 +314,31 @@ export interface ActionInputs {
   sslCertificateType?: string
   domainStripPath?: boolean
   forceDomainRecreation?: boolean
+  domains?: DomainSpec[]
+  pruneDomains?: boolean
 
   // Deployment
   deploymentTitle?: string
   deploymentDescription?: string
   rollbackActive?: boolean
+  rollbackOnFailure?: boolean
+  cancelOnTimeout?: boolean
+  cleanQueues?: boolean
   waitForDeployment?: boolean
   deploymentTimeout?: number
-  cleanupOldContainers?: boolean
+  deploymentLogFile?: string
+  reportOldContainers?: boolean
+  containerPrefix?: string
+  keepContainerCount?: number
+
+  // Deployment strategy
+  deploymentStrategy?: DeploymentStrategy
+  blueGreenDomainTemplate?: string
+  canarySteps?: number[]
+  canaryInterval?: number
+  canaryMaxErrorRate?: number
+  maintenanceImage?: string
+  maintenancePort?: number
 
   // Health Check
   healthCheckEnabled?: boolean
@@ -209,8 +346,41 @@ export interface ActionInputs {
   healthCheckTimeout?: number
   healthCheckRetries?: number
   healthCheckInterval?: number
+  expectedStatusCode?: string
+  healthCheckBodyMatch?: string
+  healthCheckJsonPath?: string
   failOnHealthCheckError?: boolean
 
+  // API client
+  apiRetries?: number
+  apiRetryDelay?: number
+  requestTimeout?: number
+  actionTimeout?: number
+
+  // GitHub integration
+  githubToken?: string
+  githubDeployment?: boolean
+  githubEnvironment?: string
+  prComment?: boolean
+
+  // Preview environments
+  previewDomainTemplate?: string
+  previewPrNumber?: number
+
+  // Multiple applications
+  applications?: ApplicationSpec[]
+  applicationsConcurrency?: number
+  continueOnAppFailure?: boolean
+
+  // Status
+  historyCount?: number
+
+  // Destroy
+  confirmDestroy?: string
+  destroyEmptyEnvironment?: boolean
+  destroyEmptyProject?: boolean
+  deleteVolumes?: boolean
+
   // Debug
   debugMode?: boolean
   logApiRequests?: boolean
@@ -225,4 +395,6 @@ export interface ActionOutputs {
   deploymentUrl?: string
   deploymentStatus?: string
   healthCheckStatus?: string
+  rollbackStatus?: string
+  rolledBackTo?: string
 }
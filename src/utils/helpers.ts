@@ -15,6 +15,17 @@ export function parseIntInput(value: string | undefined, name: string): number |
   return parsed
 }
 
+export function parseFloatInput(value: string | undefined, name: string): number | undefined {
+  if (!value || value === '') {
+    return undefined
+  }
+  const parsed = Number(value)
+  if (isNaN(parsed)) {
+    throw new Error(`${name} must be a valid number, got: ${value}`)
+  }
+  return parsed
+}
+
 export function parseBooleanInput(value: string | undefined): boolean | undefined {
   if (!value || value === '') {
     return undefined
@@ -25,6 +36,20 @@ export function parseBooleanInput(value: string | undefined): boolean | undefine
   throw new Error(`Expected 'true' or 'false', got: ${value}`)
 }
 
+/**
+ * Split a multi-line input into its non-empty lines
+ */
+export function parseListInput(value: string | undefined): string[] | undefined {
+  if (!value) {
+    return undefined
+  }
+  const entries = value
+    .split('\n')
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0)
+  return entries.length > 0 ? entries : undefined
+}
+
 export function parseOptionalStringInput(key: string): string | undefined {
   const value = core.getInput(key, { required: false })
   return value && value.trim() !== '' ? value.trim() : undefined
@@ -11,6 +11,9 @@
  */
 
 import * as core from '@actions/core'
+import { matchesBody, parseJsonPathAssertion } from './health-check'
+import { spreadDescriptor } from './swarm'
+import type { ApplicationSpec, DomainSpec } from './types/dokploy'
 
 /**
  * Validation error with detailed context
@@ -213,6 +216,579 @@ export function validateDockerImage(value: string | undefined, fieldName: string
   }
 }
 
+/**
+ * Validate that a value is one of the allowed options
+ */
+export function validateOneOf(
+  value: string | undefined,
+  allowed: readonly string[],
+  fieldName: string
+): void {
+  if (!value) {
+    return // Optional field
+  }
+
+  if (!allowed.includes(value)) {
+    throw new ValidationError(
+      `${fieldName} must be one of: ${allowed.join(', ')} (got "${value}")`,
+      fieldName,
+      value,
+      `Set ${fieldName} to one of: ${allowed.join(', ')}`
+    )
+  }
+}
+
+/**
+ * Validate expected HTTP status code policy
+ * Accepts a comma-separated list of codes (200), classes (2xx) or ranges (200-299)
+ */
+export function validateExpectedStatusCode(value: string | undefined, fieldName: string): void {
+  if (!value) {
+    return // Optional field
+  }
+
+  const parts = value.split(',').map(part => part.trim())
+  const invalid = parts.filter(part => {
+    if (/^[1-5]xx$/i.test(part)) return false
+    const range = part.match(/^(\d{3})-(\d{3})$/)
+    if (range) return parseInt(range[1], 10) > parseInt(range[2], 10)
+    return !/^[1-5]\d{2}$/.test(part)
+  })
+
+  if (invalid.length > 0) {
+    throw new ValidationError(
+      `${fieldName} contains invalid status codes: ${invalid.join(', ')}`,
+      fieldName,
+      value,
+      'Use status codes (200), classes (2xx) or ranges (200-299), comma-separated. Example: "200,204" or "2xx"'
+    )
+  }
+}
+
+/**
+ * Validate health check JSON path assertion syntax
+ */
+export function validateJsonPathAssertion(value: string | undefined, fieldName: string): void {
+  if (!value) {
+    return // Optional field
+  }
+
+  try {
+    parseJsonPathAssertion(value)
+  } catch (error) {
+    throw new ValidationError(
+      error instanceof Error ? error.message : String(error),
+      fieldName,
+      value,
+      'Use format: $.path.to.field == "value" (example: $.status == "UP" or $.checks[0].healthy == true)'
+    )
+  }
+}
+
+/**
+ * Validate health-check-body-match; a /pattern/flags value must compile as a regex
+ */
+export function validateBodyMatch(value: string | undefined, fieldName: string): void {
+  if (!value) {
+    return // Optional field
+  }
+
+  try {
+    matchesBody('', value)
+  } catch (error) {
+    throw new ValidationError(
+      `${fieldName} is not a valid regex: ${error instanceof Error ? error.message : String(error)}`,
+      fieldName,
+      value,
+      'Use a plain substring, or /pattern/flags with flags from dgimsuy (example: /"status":\\s*"UP"/i)'
+    )
+  }
+}
+
+/**
+ * Validate each entry of the applications input; returns all errors found
+ */
+export function validateApplications(
+  applications: ApplicationSpec[],
+  inputs: { dockerImage: string; deploymentType?: string; mode?: string }
+): ValidationError[] {
+  const errors: ValidationError[] = []
+  const collect = (check: () => void): void => {
+    try {
+      check()
+    } catch (e) {
+      if (e instanceof ValidationError) errors.push(e)
+    }
+  }
+
+  collect(() => {
+    if (inputs.deploymentType === 'compose' || (inputs.mode && inputs.mode !== 'deploy')) {
+      throw new ValidationError(
+        'applications is only supported for application deployments in deploy mode',
+        'applications',
+        inputs.mode,
+        'Remove deployment-type: compose or mode, or deploy the applications in separate steps'
+      )
+    }
+  })
+
+  const seen = new Set<string>()
+  applications.forEach((app, index) => {
+    const field = `applications[${index}]`
+    collect(() => {
+      if (!app.name) {
+        throw new ValidationError(`${field}.name is required`, `${field}.name`, app.name)
+      }
+      validateDnsName(app.name, `${field}.name`)
+      if (seen.has(app.name)) {
+        throw new ValidationError(
+          `${field}.name "${app.name}" is used more than once`,
+          `${field}.name`,
+          app.name,
+          'Give every application a unique name'
+        )
+      }
+      seen.add(app.name)
+    })
+    collect(() => validateDockerImage(app.dockerImage || inputs.dockerImage, `${field}.image`))
+    collect(() => validateDomainHost(app.domainHost, `${field}.domain`))
+    collect(() => validatePort(app.applicationPort, `${field}.port`))
+    collect(() => validateMemory(app.memoryLimit, `${field}.memory-limit`))
+    collect(() => validateMemory(app.memoryReservation, `${field}.memory-reservation`))
+    collect(() => validateCpu(app.cpuLimit, `${field}.cpu-limit`))
+    collect(() => validateCpu(app.cpuReservation, `${field}.cpu-reservation`))
+    collect(() => validateReplicas(app.replicas, `${field}.replicas`))
+    for (const dependency of app.dependsOn || []) {
+      collect(() => {
+        if (!applications.some(other => other.name === dependency)) {
+          throw new ValidationError(
+            `${field}.depends-on references unknown application "${dependency}"`,
+            `${field}.depends-on`,
+            dependency,
+            `Use the name of another entry: ${applications.map(other => other.name).join(', ')}`
+          )
+        }
+      })
+    }
+  })
+
+  const cycle = findDependencyCycle(applications)
+  if (cycle) {
+    errors.push(
+      new ValidationError(
+        `applications have a dependency cycle: ${cycle.join(' → ')}`,
+        'applications',
+        cycle,
+        'Remove one of the depends-on entries in the cycle'
+      )
+    )
+  }
+
+  return errors
+}
+
+/**
+ * Find a depends-on cycle, returned as the chain of names that leads back to its start
+ */
+function findDependencyCycle(applications: ApplicationSpec[]): string[] | undefined {
+  const dependencies = new Map(applications.map(app => [app.name, app.dependsOn || []]))
+  const acyclic = new Set<string>()
+
+  const visit = (name: string, trail: string[]): string[] | undefined => {
+    if (trail.includes(name)) {
+      return [...trail.slice(trail.indexOf(name)), name]
+    }
+    if (acyclic.has(name) || !dependencies.has(name)) {
+      return undefined
+    }
+    for (const dependency of dependencies.get(name) || []) {
+      const cycle = visit(dependency, [...trail, name])
+      if (cycle) return cycle
+    }
+    acyclic.add(name)
+    return undefined
+  }
+
+  for (const name of dependencies.keys()) {
+    const cycle = visit(name, [])
+    if (cycle) return cycle
+  }
+  return undefined
+}
+
+/**
+ * Validate deployment-strategy and the inputs the selected strategy depends on
+ */
+export function validateDeploymentStrategy(inputs: {
+  deploymentStrategy?: string
+  deploymentType?: string
+  applicationName?: string
+  domainHost?: string
+  blueGreenDomainTemplate?: string
+  canarySteps?: number[]
+  canaryMaxErrorRate?: number
+  maintenanceImage?: string
+  maintenancePort?: number
+  applications?: ApplicationSpec[]
+}): ValidationError[] {
+  const errors: ValidationError[] = []
+  try {
+    validateOneOf(
+      inputs.deploymentStrategy,
+      ['rolling', 'recreate', 'blue-green', 'canary'],
+      'deployment-strategy'
+    )
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+    return errors
+  }
+
+  const strategy = inputs.deploymentStrategy
+  if (strategy === 'blue-green' || strategy === 'canary') {
+    // Both strategies run sibling applications behind one production host
+    if (inputs.deploymentType === 'compose' || inputs.applications) {
+      errors.push(
+        new ValidationError(
+          `deployment-strategy ${strategy} only supports a single application`,
+          'deployment-strategy',
+          strategy,
+          'Remove deployment-type: compose or applications, or use the rolling strategy'
+        )
+      )
+    }
+    if (!inputs.applicationName) {
+      errors.push(
+        new ValidationError(
+          `deployment-strategy ${strategy} requires application-name`,
+          'application-name',
+          inputs.applicationName,
+          strategy === 'canary'
+            ? 'The canary runs next to it as <application-name>-canary'
+            : 'The applications are named <application-name>-blue and <application-name>-green'
+        )
+      )
+    }
+    if (!inputs.domainHost) {
+      errors.push(
+        new ValidationError(
+          `deployment-strategy ${strategy} requires domain-host`,
+          'domain-host',
+          inputs.domainHost,
+          strategy === 'canary'
+            ? 'Set domain-host to the production host whose traffic is shifted to the canary'
+            : 'Set domain-host to the production host that is switched between the colors'
+        )
+      )
+    }
+  }
+
+  if (strategy === 'recreate' && (inputs.deploymentType === 'compose' || inputs.applications)) {
+    errors.push(
+      new ValidationError(
+        'deployment-strategy recreate only supports a single application',
+        'deployment-strategy',
+        strategy,
+        'Remove deployment-type: compose or applications, or use the rolling strategy'
+      )
+    )
+  }
+
+  if (strategy === 'canary') {
+    const steps = inputs.canarySteps || []
+    const valid =
+      steps.every(step => Number.isInteger(step) && step > 0 && step <= 100) &&
+      steps.every((step, index) => index === 0 || step > steps[index - 1]) &&
+      (steps.length === 0 || steps[steps.length - 1] === 100)
+    if (!valid) {
+      errors.push(
+        new ValidationError(
+          'canary-steps must be increasing percentages between 1 and 100 that end at 100',
+          'canary-steps',
+          inputs.canarySteps,
+          'Example: 10,50,100'
+        )
+      )
+    }
+    const maxErrorRate = inputs.canaryMaxErrorRate
+    if (maxErrorRate !== undefined && (maxErrorRate < 0 || maxErrorRate > 100)) {
+      errors.push(
+        new ValidationError(
+          'canary-max-error-rate must be a percentage between 0 and 100',
+          'canary-max-error-rate',
+          maxErrorRate,
+          'Example: 5 fails a step when more than 5% of the probe requests fail'
+        )
+      )
+    }
+  }
+
+  if (strategy === 'blue-green') {
+    if (!inputs.blueGreenDomainTemplate?.includes('{color}')) {
+      errors.push(
+        new ValidationError(
+          'blue-green-domain-template must contain a {color} placeholder',
+          'blue-green-domain-template',
+          inputs.blueGreenDomainTemplate,
+          'Example: {color}.internal.example.com'
+        )
+      )
+    }
+  }
+
+  if (inputs.maintenanceImage) {
+    if (strategy !== 'recreate') {
+      errors.push(
+        new ValidationError(
+          'maintenance-image requires deployment-strategy recreate',
+          'maintenance-image',
+          inputs.maintenanceImage,
+          'The maintenance page covers the gap while the application is stopped'
+        )
+      )
+    }
+    if (!inputs.domainHost) {
+      errors.push(
+        new ValidationError(
+          'maintenance-image requires domain-host',
+          'domain-host',
+          inputs.domainHost,
+          'Set domain-host to the host that shows the maintenance page'
+        )
+      )
+    }
+    try {
+      validateDockerImage(inputs.maintenanceImage, 'maintenance-image')
+      validatePort(inputs.maintenancePort, 'maintenance-port')
+    } catch (e) {
+      if (e instanceof ValidationError) errors.push(e)
+    }
+  }
+  return errors
+}
+
+/**
+ * Validate the entries of the domains input
+ */
+export function validateDomains(
+  domains: DomainSpec[],
+  inputs: { deploymentType?: string; domainHost?: string; applications?: ApplicationSpec[] }
+): ValidationError[] {
+  const errors: ValidationError[] = []
+  const collect = (check: () => void): void => {
+    try {
+      check()
+    } catch (e) {
+      if (e instanceof ValidationError) errors.push(e)
+    }
+  }
+
+  if (inputs.domainHost) {
+    errors.push(
+      new ValidationError(
+        'domains and domain-host cannot be used together',
+        'domains',
+        inputs.domainHost,
+        `Add ${inputs.domainHost} to domains and remove domain-host`
+      )
+    )
+  }
+  if (inputs.applications) {
+    errors.push(
+      new ValidationError(
+        'domains cannot be used with applications',
+        'domains',
+        undefined,
+        'Set domain on each applications entry instead'
+      )
+    )
+  }
+
+  const routes = new Set<string>()
+  domains.forEach((domain, index) => {
+    const field = `domains[${index}]`
+    collect(() => validateDomainHost(domain.host, `${field}.host`))
+    collect(() => validatePort(domain.port, `${field}.port`))
+    collect(() =>
+      validateOneOf(
+        domain.certificateType,
+        ['letsencrypt', 'custom', 'none'],
+        `${field}.certificate-type`
+      )
+    )
+    if (domain.serviceName && inputs.deploymentType !== 'compose') {
+      errors.push(
+        new ValidationError(
+          `${field}.service-name only applies to compose deployments`,
+          `${field}.service-name`,
+          domain.serviceName,
+          'Remove service-name, the domain routes to the application itself'
+        )
+      )
+    }
+    const route = `${domain.host}${domain.path || '/'}`
+    if (routes.has(route)) {
+      errors.push(
+        new ValidationError(
+          `${field} repeats ${route}`,
+          field,
+          route,
+          'Each host and path combination can only be listed once'
+        )
+      )
+    }
+    routes.add(route)
+  })
+  return errors
+}
+
+/**
+ * Validate the update-* inputs for Swarm rolling updates
+ */
+export function validateSwarmUpdateConfig(inputs: {
+  updateParallelism?: number
+  updateDelay?: number
+  updateFailureAction?: string
+  updateMonitor?: number
+  updateMaxFailureRatio?: number
+  updateOrder?: string
+}): ValidationError[] {
+  const errors: ValidationError[] = []
+  const collect = (check: () => void): void => {
+    try {
+      check()
+    } catch (e) {
+      if (e instanceof ValidationError) errors.push(e)
+    }
+  }
+
+  if (inputs.updateParallelism !== undefined && inputs.updateParallelism < 0) {
+    errors.push(
+      new ValidationError(
+        `update-parallelism must be non-negative (got ${inputs.updateParallelism})`,
+        'update-parallelism',
+        inputs.updateParallelism,
+        'Number of tasks updated at once; 0 updates all of them at the same time'
+      )
+    )
+  }
+  for (const [field, value] of [
+    ['update-delay', inputs.updateDelay],
+    ['update-monitor', inputs.updateMonitor]
+  ] as const) {
+    if (value !== undefined && value < 0) {
+      errors.push(
+        new ValidationError(
+          `${field} must be a non-negative number of seconds (got ${value})`,
+          field,
+          value
+        )
+      )
+    }
+  }
+  const ratio = inputs.updateMaxFailureRatio
+  if (ratio !== undefined && (ratio < 0 || ratio > 1)) {
+    errors.push(
+      new ValidationError(
+        `update-max-failure-ratio must be between 0 and 1 (got ${ratio})`,
+        'update-max-failure-ratio',
+        ratio,
+        'Example: 0.2 tolerates one failed task in five'
+      )
+    )
+  }
+  collect(() =>
+    validateOneOf(
+      inputs.updateFailureAction,
+      ['pause', 'continue', 'rollback'],
+      'update-failure-action'
+    )
+  )
+  collect(() => validateOneOf(inputs.updateOrder, ['start-first', 'stop-first'], 'update-order'))
+  return errors
+}
+
+/**
+ * Validate the Swarm restart policy, container health check and placement inputs
+ */
+export function validateSwarmServiceSettings(inputs: {
+  restartPolicy?: string
+  restartDelay?: number
+  restartMaxAttempts?: number
+  restartWindow?: number
+  containerHealthCheckInterval?: number
+  containerHealthCheckTimeout?: number
+  containerHealthCheckStartPeriod?: number
+  containerHealthCheckRetries?: number
+  placementConstraints?: string[]
+  placementPreferences?: string[]
+  placementMaxReplicas?: number
+  placementPlatforms?: string[]
+}): ValidationError[] {
+  const errors: ValidationError[] = []
+  try {
+    validateOneOf(
+      inputs.restartPolicy,
+      ['always', 'unless-stopped', 'on-failure', 'no'],
+      'restart-policy'
+    )
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  for (const [field, value] of [
+    ['restart-delay', inputs.restartDelay],
+    ['restart-max-attempts', inputs.restartMaxAttempts],
+    ['restart-window', inputs.restartWindow],
+    ['container-health-check-interval', inputs.containerHealthCheckInterval],
+    ['container-health-check-timeout', inputs.containerHealthCheckTimeout],
+    ['container-health-check-start-period', inputs.containerHealthCheckStartPeriod],
+    ['container-health-check-retries', inputs.containerHealthCheckRetries],
+    ['placement-max-replicas', inputs.placementMaxReplicas]
+  ] as const) {
+    if (value !== undefined && value < 0) {
+      errors.push(new ValidationError(`${field} must be non-negative (got ${value})`, field, value))
+    }
+  }
+
+  for (const constraint of inputs.placementConstraints || []) {
+    if (!/^[\w.-]+\s*(==|!=)\s*\S+$/.test(constraint)) {
+      errors.push(
+        new ValidationError(
+          `placement-constraints entry "${constraint}" is not a constraint`,
+          'placement-constraints',
+          constraint,
+          'Use <attribute>==<value> or <attribute>!=<value>, e.g. node.labels.region==eu'
+        )
+      )
+    }
+  }
+  for (const preference of inputs.placementPreferences || []) {
+    if (!/^node\.labels\.\S+$/.test(spreadDescriptor(preference))) {
+      errors.push(
+        new ValidationError(
+          `placement-preferences entry "${preference}" is not a spread over a node label`,
+          'placement-preferences',
+          preference,
+          'Swarm only spreads over node labels, e.g. node.labels.zone'
+        )
+      )
+    }
+  }
+  for (const platform of inputs.placementPlatforms || []) {
+    if (!/^[\w-]+\/[\w-]+$/.test(platform)) {
+      errors.push(
+        new ValidationError(
+          `placement-platforms entry "${platform}" must be os/architecture`,
+          'placement-platforms',
+          platform,
+          'Example: linux/amd64'
+        )
+      )
+    }
+  }
+  return errors
+}
+
 /**
  * Validate all inputs before deployment
  * Throws ValidationError if any validation fails
@@ -232,12 +808,51 @@ export function validateAllInputs(inputs: {
   applicationPort?: number
   replicas?: number
   domainHost?: string
+  expectedStatusCode?: string
+  healthCheckBodyMatch?: string
+  healthCheckJsonPath?: string
+  envMergeMode?: string
+  mode?: string
+  applications?: ApplicationSpec[]
+  deploymentStrategy?: string
+  blueGreenDomainTemplate?: string
+  canarySteps?: number[]
+  canaryMaxErrorRate?: number
+  maintenanceImage?: string
+  maintenancePort?: number
+  updateParallelism?: number
+  updateDelay?: number
+  updateFailureAction?: string
+  updateMonitor?: number
+  updateMaxFailureRatio?: number
+  updateOrder?: string
+  restartPolicy?: string
+  restartDelay?: number
+  restartMaxAttempts?: number
+  restartWindow?: number
+  containerHealthCheckInterval?: number
+  containerHealthCheckTimeout?: number
+  containerHealthCheckStartPeriod?: number
+  containerHealthCheckRetries?: number
+  placementConstraints?: string[]
+  placementPreferences?: string[]
+  placementMaxReplicas?: number
+  placementPlatforms?: string[]
+  domains?: DomainSpec[]
 }): void {
   const errors: ValidationError[] = []
 
   // Only validate docker-image for application deployments
-  // Compose deployments define the image in docker-compose.yml
-  if (inputs.deploymentType !== 'compose') {
+  // Compose deployments define the image in docker-compose.yml,
+  // the status and destroy modes do not deploy anything and
+  // with applications each entry is validated on its own
+  if (
+    !inputs.applications &&
+    inputs.deploymentType !== 'compose' &&
+    inputs.mode !== 'status' &&
+    inputs.mode !== 'destroy-preview' &&
+    inputs.mode !== 'destroy'
+  ) {
     try {
       validateDockerImage(inputs.dockerImage, 'docker-image')
     } catch (e) {
@@ -317,6 +932,56 @@ export function validateAllInputs(inputs: {
     if (e instanceof ValidationError) errors.push(e)
   }
 
+  try {
+    validateExpectedStatusCode(inputs.expectedStatusCode, 'expected-status-code')
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  try {
+    validateBodyMatch(inputs.healthCheckBodyMatch, 'health-check-body-match')
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  try {
+    validateJsonPathAssertion(inputs.healthCheckJsonPath, 'health-check-json-path')
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  try {
+    validateOneOf(
+      inputs.envMergeMode,
+      ['replace', 'merge-with-existing', 'strict'],
+      'env-merge-mode'
+    )
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  try {
+    validateOneOf(
+      inputs.mode,
+      ['deploy', 'plan', 'status', 'preview', 'destroy-preview', 'destroy'],
+      'mode'
+    )
+  } catch (e) {
+    if (e instanceof ValidationError) errors.push(e)
+  }
+
+  if (inputs.applications) {
+    errors.push(...validateApplications(inputs.applications, inputs))
+  }
+
+  if (inputs.domains) {
+    errors.push(...validateDomains(inputs.domains, inputs))
+  }
+
+  errors.push(...validateDeploymentStrategy(inputs))
+  errors.push(...validateSwarmUpdateConfig(inputs))
+  errors.push(...validateSwarmServiceSettings(inputs))
+
   if (errors.length > 0) {
     core.error('❌ Validation failed with the following errors:')
     core.error('')